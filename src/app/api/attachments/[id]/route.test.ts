@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { StoredAttachment } from "~/lib/attachment-store";
+import { normalizeDraftInput } from "~/lib/change-order-schema";
+import { applyTeamDecision, saveSubmission } from "~/lib/change-order-store";
+
+import { GET } from "./route";
+
+const attachments = new Map<string, StoredAttachment>();
+
+vi.mock("~/lib/attachment-store", () => ({
+  getAttachmentById: async (id: string) => attachments.get(id) ?? null,
+  getAttachmentContent: async () => ({ body: Buffer.from("image"), contentType: "image/jpeg" }),
+}));
+
+// The revision page is used signed out.
+vi.mock("~/lib/auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/auth")>()),
+  getCurrentUser: async () => null,
+}));
+
+function attachment(id: string, ownerId: string): StoredAttachment {
+  return {
+    id,
+    ownerId,
+    fileName: `${id}.jpg`,
+    contentType: "image/jpeg",
+    size: 5,
+    storageKey: `attachments/${id}/original`,
+    thumbnailKey: `attachments/${id}/thumbnail`,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// A submitted change order with `photos`, sent back to the contractor so it has a revision token.
+async function changeOrderAwaitingRevision(photos: string[]) {
+  const record = await saveSubmission(
+    normalizeDraftInput({
+      projectId: "P1",
+      contractorName: "Pat Contractor",
+      contractorEmail: "pat@example.com",
+      workPerformedAt: new Date().toISOString(),
+      scope: "Replace trim",
+      quantity: 1,
+      whyNeeded: "Rot",
+      photos,
+    }),
+    { createdBy: "usr_owner" },
+  );
+  const result = await applyTeamDecision(record!.id, {
+    action: "NEEDS_INFO",
+    decidedBy: "reviewer@example.com",
+    deciderRoles: ["REVIEWER"],
+    decisionExplanation: "Need a closer photo",
+    needsInfoChecklist: ["Close-up photo"],
+  });
+  return result!.changeOrder;
+}
+
+function read(id: string, revisionToken: string) {
+  return GET(new Request(`http://localhost/api/attachments/${id}?revise=${revisionToken}`), {
+    params: Promise.resolve({ id }),
+  });
+}
+
+describe("GET /api/attachments/:id with a revision token", () => {
+  beforeEach(() => {
+    attachments.clear();
+    attachments.set("att_000000000000000000000001", attachment("att_000000000000000000000001", "usr_owner"));
+    attachments.set("att_000000000000000000000002", attachment("att_000000000000000000000002", "usr_owner"));
+  });
+
+  it("serves the photos on the change order being revised", async () => {
+    const record = await changeOrderAwaitingRevision(["att_000000000000000000000001"]);
+    const response = await read("att_000000000000000000000001", record.revisionToken!);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/jpeg");
+  });
+
+  it("does not serve the owner's photos from another change order", async () => {
+    const record = await changeOrderAwaitingRevision(["att_000000000000000000000001"]);
+    await changeOrderAwaitingRevision(["att_000000000000000000000002"]);
+    const response = await read("att_000000000000000000000002", record.revisionToken!);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("does not serve anything for an unknown token", async () => {
+    await changeOrderAwaitingRevision(["att_000000000000000000000001"]);
+    const response = await read("att_000000000000000000000001", "not-a-token");
+
+    expect(response.status).toBe(404);
+  });
+});
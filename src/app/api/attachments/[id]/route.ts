@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { getAttachmentById, getAttachmentContent, type StoredAttachment } from "~/lib/attachment-store";
+import { getCurrentUser, isStaff } from "~/lib/auth";
+import { canRevise, getChangeOrderByRevisionToken } from "~/lib/change-order-store";
+
+async function canReadAttachment(request: Request, attachment: StoredAttachment): Promise<boolean> {
+  const user = await getCurrentUser();
+  if (user && (isStaff(user) || (!!attachment.ownerId && attachment.ownerId === user.id))) {
+    return true;
+  }
+
+  // The revision page is not signed in; its token grants access to the photos on that change order while it is
+  // open, not to the owner's other uploads.
+  const revisionToken = new URL(request.url).searchParams.get("revise");
+  if (!revisionToken || !attachment.ownerId) {
+    return false;
+  }
+  const record = await getChangeOrderByRevisionToken(revisionToken);
+  return (
+    !!record &&
+    canRevise(record) &&
+    record.createdBy === attachment.ownerId &&
+    record.input.photos.includes(attachment.id)
+  );
+}
+
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const attachment = await getAttachmentById(id);
+  if (!attachment || !(await canReadAttachment(request, attachment))) {
+    return NextResponse.json({ status: "error", message: "Attachment not found." }, { status: 404 });
+  }
+
+  const variant = new URL(request.url).searchParams.get("variant") === "thumbnail" ? "thumbnail" : "original";
+  const content = await getAttachmentContent(attachment, variant);
+  if (!content) {
+    return NextResponse.json({ status: "error", message: "Attachment content is missing." }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(content.body), {
+    headers: {
+      "content-type": content.contentType,
+      "content-length": String(content.body.length),
+      // Attachments never change once stored, but they are private to the people allowed to see them.
+      "cache-control": "private, max-age=86400, immutable",
+      "x-content-type-options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import {
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  storeAttachment,
+  toAttachmentSummary,
+  type StoredAttachment,
+} from "~/lib/attachment-store";
+import { getCurrentUser, hasAnyRole } from "~/lib/auth";
+import { canRevise, getChangeOrderByRevisionToken } from "~/lib/change-order-store";
+
+// Signed-in contractors upload for their own drafts; a contractor answering a NEEDS_INFO request is
+// authenticated by the revision token instead and uploads on behalf of the record's owner.
+async function resolveUploadOwner(formData: FormData): Promise<{ ownerId: string | undefined } | null> {
+  const revisionToken = formData.get("revisionToken");
+  if (typeof revisionToken === "string" && revisionToken) {
+    const record = await getChangeOrderByRevisionToken(revisionToken);
+    return record && canRevise(record) ? { ownerId: record.createdBy } : null;
+  }
+
+  const user = await getCurrentUser();
+  return user && hasAnyRole(user, ["CONTRACTOR"]) ? { ownerId: user.id } : null;
+}
+
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ status: "error", message: "Expected a multipart/form-data upload." }, { status: 400 });
+  }
+
+  const owner = await resolveUploadOwner(formData);
+  if (!owner) {
+    return NextResponse.json({ status: "error", message: "Sign in required." }, { status: 401 });
+  }
+
+  const files = formData.getAll("files").filter((entry): entry is File => typeof entry !== "string");
+  if (files.length === 0) {
+    return NextResponse.json({ status: "error", message: "Attach at least one file." }, { status: 400 });
+  }
+  if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+    return NextResponse.json(
+      { status: "error", message: `Upload at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time.` },
+      { status: 400 },
+    );
+  }
+
+  const stored: StoredAttachment[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const result = await storeAttachment(
+      { name: file.name, bytes: Buffer.from(await file.arrayBuffer()) },
+      owner.ownerId,
+    );
+    if (result.ok) {
+      stored.push(result.attachment);
+    } else {
+      errors.push(result.message);
+    }
+  }
+
+  if (stored.length === 0) {
+    return NextResponse.json({ status: "error", message: "No files were uploaded.", errors }, { status: 422 });
+  }
+
+  return NextResponse.json({ status: "ok", attachments: stored.map(toAttachmentSummary), errors }, { status: 201 });
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "~/lib/auth";
+
+export async function GET() {
+  const user = await getCurrentUser();
+  return NextResponse.json({ status: "ok", user });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { SESSION_COOKIE, sessionCookieOptions, signIn } from "~/lib/auth";
+
+const bodySchema = z.object({
+  email: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json();
+  const parsed = bodySchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ status: "error", message: "Email and password are required." }, { status: 400 });
+  }
+
+  const result = await signIn(parsed.data.email, parsed.data.password);
+  if (!result) {
+    return NextResponse.json({ status: "error", message: "Invalid email or password." }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ status: "ok", user: result.user });
+  response.cookies.set(SESSION_COOKIE, result.token, sessionCookieOptions());
+  return response;
+}
@@ -0,0 +1,15 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import { SESSION_COOKIE, signOut } from "~/lib/auth";
+
+export async function POST() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    await signOut(token);
+  }
+
+  const response = NextResponse.json({ status: "ok" });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
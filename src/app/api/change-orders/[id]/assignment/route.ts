@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { actorLabel, getUserById, hasPermission, isStaff, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderById, updateAssignment } from "~/lib/change-order-store";
+import { canChangeAssignment } from "~/lib/reviewer-assignment";
+
+// `expectedAssigneeId` is the assignee the caller's screen showed (null for unassigned), so two reviewers
+// claiming the same item cannot silently overwrite each other.
+const assignmentSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("CLAIM"),
+    expectedAssigneeId: z.string().nullable().optional().default(null),
+  }),
+  z.object({
+    action: z.literal("RELEASE"),
+    expectedAssigneeId: z.string().nullable().optional(),
+  }),
+  z.object({
+    action: z.literal("REASSIGN"),
+    userId: z.string().min(1),
+    expectedAssigneeId: z.string().nullable(),
+  }),
+]);
+
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const existing = await getChangeOrderById(id);
+  if (!existing) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  if (existing.status !== "SUBMITTED") {
+    return NextResponse.json(
+      { status: "error", message: "Only submitted change orders can be assigned." },
+      { status: 409 },
+    );
+  }
+  if (existing.isFinalized) {
+    return NextResponse.json(
+      { status: "error", message: "This change order's decision is final. Reopen it to change the assignee." },
+      { status: 409 },
+    );
+  }
+
+  const parsed = assignmentSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid assignment payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!canChangeAssignment(auth.user, existing, parsed.data.action)) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can reassign another reviewer's change orders." },
+      { status: 403 },
+    );
+  }
+
+  let assignee: { userId: string; name: string } | null = null;
+  if (parsed.data.action === "CLAIM") {
+    assignee = { userId: auth.user.id, name: actorLabel(auth.user) };
+  } else if (parsed.data.action === "REASSIGN") {
+    const target = await getUserById(parsed.data.userId);
+    if (!target || !isStaff(target)) {
+      return NextResponse.json(
+        { status: "error", message: "Change orders can only be assigned to reviewers, approvers or directors." },
+        { status: 422 },
+      );
+    }
+    assignee = { userId: target.id, name: actorLabel(target) };
+  }
+
+  // Releasing without `expectedAssigneeId` releases whoever holds the item now. A reviewer's claim is pinned to
+  // the assignee checked above, so it cannot take an item someone else claimed in the meantime.
+  const pinnedClaim = parsed.data.action === "CLAIM" && !hasPermission(auth.user, "assignment:manage");
+  const expectedAssigneeId =
+    parsed.data.expectedAssigneeId === undefined || pinnedClaim
+      ? (existing.assignee?.userId ?? null)
+      : parsed.data.expectedAssigneeId;
+  const result = await updateAssignment(id, assignee, { actor: actorLabel(auth.user), expectedAssigneeId });
+  if (!result) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  if (result.conflict) {
+    const current = result.changeOrder.assignee;
+    return NextResponse.json(
+      {
+        status: "error",
+        message: current
+          ? `Already assigned to ${current.name}. Refresh and try again.`
+          : "This change order was unassigned in the meantime. Refresh and try again.",
+        changeOrder: result.changeOrder,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ status: "ok", changeOrder: result.changeOrder });
+}
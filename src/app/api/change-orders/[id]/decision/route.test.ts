@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { SessionUser, UserRole } from "~/lib/auth";
+import { normalizeDraftInput } from "~/lib/change-order-schema";
+import { applyTeamDecision, getChangeOrderById, saveSubmission } from "~/lib/change-order-store";
+import { money } from "~/lib/money";
+
+import { POST } from "./route";
+
+let currentUser: SessionUser;
+
+vi.mock("~/lib/auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/auth")>()),
+  requireUser: async () => ({ ok: true, user: currentUser }),
+}));
+
+function user(id: string, role: UserRole): SessionUser {
+  return { id, email: `${id}@example.com`, name: id, roles: [role], createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+// Signed by the first approver and waiting for the director.
+async function pendingApproval() {
+  const record = await saveSubmission(
+    normalizeDraftInput({
+      projectId: "P1",
+      contractorName: "Pat Contractor",
+      contractorEmail: "pat@example.com",
+      workPerformedAt: new Date().toISOString(),
+      scope: "Retile the lobby",
+      quantity: 3,
+      materialCost: money(50000),
+      whyNeeded: "Damaged tiles",
+    }),
+  );
+  const result = await applyTeamDecision(record!.id, {
+    action: "APPROVE",
+    decidedBy: "approver@example.com",
+    approvedAmount: money(50000),
+    decisionExplanation: "Looks right",
+    approvalSteps: [
+      { name: "Approval", role: "APPROVER" },
+      { name: "Director", role: "DIRECTOR" },
+    ],
+    signoff: { step: "Approval", userId: "approver", signedBy: "approver", signedAt: new Date().toISOString() },
+  });
+  expect(result?.changeOrder.decisionStatus).toBe("PENDING_SECOND_APPROVAL");
+  return record!.id;
+}
+
+function decide(id: string, body: Record<string, unknown>) {
+  return POST(
+    new Request(`http://localhost/api/change-orders/${id}/decision`, { method: "POST", body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id }) },
+  );
+}
+
+describe("POST /api/change-orders/:id/decision on a pending approval", () => {
+  it("does not let a reviewer deny it or send it back", async () => {
+    const id = await pendingApproval();
+    currentUser = user("reviewer", "REVIEWER");
+
+    const denied = await decide(id, {
+      action: "DENY",
+      denialReasonCode: "OUT_OF_SCOPE",
+      decisionExplanation: "Already in the contract",
+    });
+    const sentBack = await decide(id, {
+      action: "NEEDS_INFO",
+      decisionExplanation: "Need receipts",
+      needsInfoChecklist: ["Tile receipts"],
+    });
+
+    expect(denied.status).toBe(403);
+    expect(sentBack.status).toBe(403);
+    expect((await getChangeOrderById(id))?.decisionStatus).toBe("PENDING_SECOND_APPROVAL");
+  });
+
+  it("lets an approver send it back", async () => {
+    const id = await pendingApproval();
+    currentUser = user("approver2", "APPROVER");
+
+    const response = await decide(id, {
+      action: "NEEDS_INFO",
+      decisionExplanation: "Need receipts",
+      needsInfoChecklist: ["Tile receipts"],
+    });
+
+    expect(response.status).toBe(200);
+    expect((await getChangeOrderById(id))?.decisionStatus).toBe("NEEDS_INFO");
+  });
+});
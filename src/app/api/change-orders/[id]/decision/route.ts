@@ -1,54 +1,153 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
-import { sendDecisionEmail } from "~/lib/email";
+import { canActOnApprovalChain, getApprovalSteps, getNextApprovalStep, getSignoffError } from "~/lib/approval-chain";
+import { actorLabel, hasPermission, requireUser, type SessionUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderTotal } from "~/lib/change-order-schema";
 import {
   applyTeamDecision,
   getChangeOrderById,
-  hasValidContractorEmail,
-  type DenialReasonCode,
-  updateDecisionEmailDelivery,
+  type DecisionInput,
+  type StoredChangeOrder,
 } from "~/lib/change-order-store";
-
-const denialReasonCodes = [
-  "MISSING_REQUIRED_INFO",
-  "INSUFFICIENT_PHOTO_EVIDENCE",
-  "OUTSIDE_24_HOUR_WINDOW",
-  "DUPLICATE_REQUEST",
-  "PRICING_NOT_JUSTIFIED",
-  "IN_SCOPE_OF_TURNKEY",
-  "OTHER",
-] as const;
+import { type DenialReasonSnapshot, listDenialReasons, toDenialReasonSnapshot } from "~/lib/denial-reasons";
+import { queueDecisionEmail } from "~/lib/email-outbox";
+import { resolveLineItemDecisions } from "~/lib/line-item-decisions";
+import { type Money, moneySchema } from "~/lib/money";
+import { getSubmissionPolicy } from "~/lib/submission-policy-store";
 
 const decisionSchema = z.discriminatedUnion("action", [
   z.object({
     action: z.literal("NEEDS_INFO"),
-    decidedBy: z.string().min(1),
     decisionExplanation: z.string().min(1),
     contractorFacingMessage: z.string().optional().default(""),
     needsInfoChecklist: z.array(z.string().min(1)).min(1),
   }),
   z.object({
     action: z.literal("APPROVE"),
-    decidedBy: z.string().min(1),
-    approvedAmount: z.number().positive(),
+    approvedAmount: moneySchema.refine((amount) => amount.amountCents > 0, "Approved amount must be greater than 0"),
+    decisionExplanation: z.string().min(1),
+    contractorFacingMessage: z.string().optional().default(""),
+    acknowledgeLateSubmission: z.boolean().optional().default(false),
+    lateAcknowledgmentReason: z.string().trim().optional().default(""),
+  }),
+  z.object({
+    action: z.literal("DECIDE_LINE_ITEMS"),
+    lineItemDecisions: z
+      .array(
+        z.object({
+          lineIndex: z.number().int().nonnegative(),
+          outcome: z.enum(["APPROVED", "ADJUSTED", "DENIED"]),
+          approvedAmount: moneySchema.optional(),
+          // Checked against the denial reason catalog, which admins can extend without a deploy.
+          reasonCode: z.string().trim().min(1).optional(),
+          note: z.string().optional(),
+        }),
+      )
+      .min(1),
     decisionExplanation: z.string().min(1),
     contractorFacingMessage: z.string().optional().default(""),
     acknowledgeLateSubmission: z.boolean().optional().default(false),
-    isLate: z.boolean().optional().default(false),
+    lateAcknowledgmentReason: z.string().trim().optional().default(""),
+  }),
+  z.object({
+    action: z.literal("SIGN_OFF"),
+    note: z.string().trim().optional().default(""),
   }),
   z.object({
     action: z.literal("DENY"),
-    decidedBy: z.string().min(1),
-    denialReasonCode: z.enum(denialReasonCodes),
+    denialReasonCode: z.string().trim().min(1),
     decisionExplanation: z.string().min(1),
     contractorFacingMessage: z.string().optional().default(""),
   }),
 ]);
 
+type ParsedDecision = z.infer<typeof decisionSchema>;
+
+// The approval steps come from the project's current tiers; the first approver signs the first step.
+async function toDecisionInput(
+  data: ParsedDecision,
+  existing: StoredChangeOrder,
+  user: SessionUser,
+  lineItems: ReturnType<typeof resolveLineItemDecisions> | null,
+  denialReason: DenialReasonSnapshot | undefined,
+): Promise<DecisionInput> {
+  // Recorded from the session, never from the request body.
+  const decidedBy = actorLabel(user);
+  const signoff = (step: string, note?: string) => ({
+    step,
+    userId: user.id,
+    signedBy: decidedBy,
+    signedAt: new Date().toISOString(),
+    note: note || undefined,
+  });
+  const approvalSteps = async (amount: Money) =>
+    getApprovalSteps((await getSubmissionPolicy(existing.input.projectId)).approvalTiers, amount);
+
+  if (data.action === "NEEDS_INFO") {
+    return {
+      action: "NEEDS_INFO",
+      decidedBy,
+      deciderRoles: user.roles,
+      decisionExplanation: data.decisionExplanation,
+      contractorFacingMessage: data.contractorFacingMessage,
+      needsInfoChecklist: data.needsInfoChecklist,
+    };
+  }
+  if (data.action === "APPROVE") {
+    const steps = await approvalSteps(data.approvedAmount);
+    return {
+      action: "APPROVE",
+      decidedBy,
+      approvedAmount: data.approvedAmount,
+      decisionExplanation: data.decisionExplanation,
+      contractorFacingMessage: data.contractorFacingMessage,
+      lateAcknowledgmentReason: existing.isLate ? data.lateAcknowledgmentReason : undefined,
+      approvalSteps: steps,
+      signoff: signoff(steps[0].name),
+    };
+  }
+  if (data.action === "DECIDE_LINE_ITEMS" && lineItems?.ok) {
+    const steps = await approvalSteps(lineItems.approvedAmount);
+    return {
+      action: "DECIDE_LINE_ITEMS",
+      decidedBy,
+      lineItemDecisions: lineItems.decisions,
+      outcome: lineItems.outcome,
+      denialReason: lineItems.denialReason,
+      approvedAmount: lineItems.approvedAmount,
+      decisionExplanation: data.decisionExplanation,
+      contractorFacingMessage: data.contractorFacingMessage,
+      lateAcknowledgmentReason: existing.isLate ? data.lateAcknowledgmentReason : undefined,
+      approvalSteps: steps,
+      signoff: signoff(steps[0].name),
+    };
+  }
+  if (data.action === "SIGN_OFF" && existing.approvalChain) {
+    const step = getNextApprovalStep(existing.approvalChain);
+    return { action: "SIGN_OFF", decidedBy, signoff: signoff(step?.name ?? "Approval", data.note) };
+  }
+  if (data.action === "DENY" && denialReason) {
+    return {
+      action: "DENY",
+      decidedBy,
+      deciderRoles: user.roles,
+      denialReason,
+      decisionExplanation: data.decisionExplanation,
+      contractorFacingMessage: data.contractorFacingMessage,
+    };
+  }
+  throw new Error(`Unresolved ${data.action} decision`);
+}
+
 export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const { id } = await context.params;
-  const existing = getChangeOrderById(id);
+  const existing = await getChangeOrderById(id);
   if (!existing) {
     return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
   }
@@ -63,6 +162,13 @@ export async function POST(request: Request, context: { params: Promise<{ id: st
     );
   }
 
+  if (existing.isFinalized) {
+    return NextResponse.json(
+      { status: "error", message: "This change order's decision is final. Reopen it to change the decision." },
+      { status: 409 },
+    );
+  }
+
   const payload = await request.json();
   const parsed = decisionSchema.safeParse(payload);
 
@@ -77,75 +183,140 @@ export async function POST(request: Request, context: { params: Promise<{ id: st
     );
   }
 
-  if (parsed.data.action === "APPROVE" && parsed.data.isLate && !parsed.data.acknowledgeLateSubmission) {
+  // Signoffs follow the approval chain, not the assignee; every other decision is the assignee's to make.
+  if (
+    parsed.data.action !== "SIGN_OFF" &&
+    existing.assignee &&
+    existing.assignee.userId !== auth.user.id &&
+    !hasPermission(auth.user, "assignment:manage")
+  ) {
+    return NextResponse.json(
+      { status: "error", message: `This change order is assigned to ${existing.assignee.name}.` },
+      { status: 409 },
+    );
+  }
+
+  const pendingChain = existing.decisionStatus === "PENDING_SECOND_APPROVAL" ? existing.approvalChain : undefined;
+  if (parsed.data.action === "SIGN_OFF" && !pendingChain) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvals waiting for another signoff can be signed off." },
+      { status: 422 },
+    );
+  }
+  if ((parsed.data.action === "APPROVE" || parsed.data.action === "DECIDE_LINE_ITEMS") && pendingChain) {
     return NextResponse.json(
       {
         status: "error",
-        message: "Late submissions require explicit acknowledgment before approval.",
+        message: `This approval is waiting for ${getNextApprovalStep(pendingChain)?.name ?? "another signoff"}. Sign it off, deny it or request info instead.`,
       },
       { status: 422 },
     );
   }
 
-  const updated =
-    parsed.data.action === "NEEDS_INFO"
-      ? applyTeamDecision(id, {
-          action: "NEEDS_INFO",
-          decidedBy: parsed.data.decidedBy,
-          decisionExplanation: parsed.data.decisionExplanation,
-          contractorFacingMessage: parsed.data.contractorFacingMessage,
-          needsInfoChecklist: parsed.data.needsInfoChecklist,
-        })
-      : parsed.data.action === "APPROVE"
-        ? applyTeamDecision(id, {
-            action: "APPROVE",
-            decidedBy: parsed.data.decidedBy,
-            approvedAmount: parsed.data.approvedAmount,
-            decisionExplanation: parsed.data.decisionExplanation,
-            contractorFacingMessage: parsed.data.contractorFacingMessage,
-          })
-        : applyTeamDecision(id, {
-            action: "DENY",
-            decidedBy: parsed.data.decidedBy,
-            denialReasonCode: parsed.data.denialReasonCode as DenialReasonCode,
-            decisionExplanation: parsed.data.decisionExplanation,
-            contractorFacingMessage: parsed.data.contractorFacingMessage,
-          });
-
-  if (!updated) {
-    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  // Once an approver has signed, reviewers can no longer undo the approval by denying it or sending it back.
+  if (pendingChain && !canActOnApprovalChain(auth.user.roles, pendingChain)) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can act on an approval waiting for signoff." },
+      { status: 403 },
+    );
+  }
+
+  // Only active reasons can be picked; retired ones stay on the decisions that already use them.
+  const reasons = (await listDenialReasons()).map(toDenialReasonSnapshot);
+  const deniedCode = parsed.data.action === "DENY" ? parsed.data.denialReasonCode : undefined;
+  const denialReason = deniedCode ? reasons.find((reason) => reason.code === deniedCode) : undefined;
+  if (deniedCode && !denialReason) {
+    return NextResponse.json(
+      { status: "error", message: `Unknown or retired denial reason ${deniedCode}.` },
+      { status: 422 },
+    );
   }
 
-  if (!hasValidContractorEmail(updated)) {
-    const failed = updateDecisionEmailDelivery(id, {
-      status: "FAILED",
-      error: "Invalid contractor email address.",
-    });
-    return NextResponse.json({
-      status: "ok",
-      changeOrder: failed ?? updated,
-      emailStatus: "FAILED",
-    });
+  const lineItems =
+    parsed.data.action === "DECIDE_LINE_ITEMS"
+      ? resolveLineItemDecisions(existing.input, parsed.data.lineItemDecisions, reasons)
+      : null;
+  if (lineItems && !lineItems.ok) {
+    return NextResponse.json({ status: "error", message: lineItems.message }, { status: 422 });
   }
+  // Deciding line by line approves money unless every line was denied.
+  const approvesAmount =
+    parsed.data.action === "APPROVE" ||
+    parsed.data.action === "SIGN_OFF" ||
+    (lineItems?.ok === true && lineItems.outcome !== "DENIED");
 
-  const emailResult = await sendDecisionEmail({
-    to: updated.input.contractorEmail,
-    subject: updated.decisionEmailSubject ?? "Change order decision",
-    text: updated.decisionEmailBody ?? "A decision has been made on your change order.",
-    html: updated.decisionEmailHtml,
-  });
+  if (approvesAmount && !hasPermission(auth.user, "decision:approve")) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can approve change orders." },
+      { status: 403 },
+    );
+  }
 
-  const withDelivery = updateDecisionEmailDelivery(id, {
-    status: emailResult.sent ? "SENT" : "FAILED",
-    error: emailResult.error,
-    previewUrl: emailResult.previewUrl,
-    mode: emailResult.mode,
-  });
+  const signoffError =
+    parsed.data.action === "SIGN_OFF" && pendingChain ? getSignoffError(auth.user, pendingChain) : null;
+  if (signoffError) {
+    return NextResponse.json({ status: "error", message: signoffError }, { status: 403 });
+  }
 
-  return NextResponse.json({
-    status: "ok",
-    changeOrder: withDelivery ?? updated,
-    emailStatus: emailResult.sent ? "SENT" : "FAILED",
-    emailPreviewUrl: emailResult.previewUrl,
-  });
+  if (
+    parsed.data.action === "APPROVE" &&
+    parsed.data.approvedAmount.currency !== getChangeOrderTotal(existing.input).currency
+  ) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: `Approved amount must be in ${getChangeOrderTotal(existing.input).currency}, the change order's currency.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  // Lateness comes from the stored record, so a client cannot skip the guard by claiming the item is on time.
+  if (
+    (parsed.data.action === "APPROVE" || parsed.data.action === "DECIDE_LINE_ITEMS") &&
+    approvesAmount &&
+    existing.isLate &&
+    (!parsed.data.acknowledgeLateSubmission || !parsed.data.lateAcknowledgmentReason)
+  ) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Late submissions require explicit acknowledgment and a reason before approval.",
+      },
+      { status: 422 },
+    );
+  }
+
+  const result = await applyTeamDecision(
+    id,
+    await toDecisionInput(parsed.data, existing, auth.user, lineItems, denialReason),
+  );
+
+  if (!result) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  // Another decision landed between the checks above and the write.
+  if (result.conflict) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "This change order's decision changed in the meantime. Refresh and try again.",
+        changeOrder: result.changeOrder,
+      },
+      { status: 409 },
+    );
+  }
+  const updated = result.changeOrder;
+
+  // Nothing is sent to the contractor until the last signoff finalizes the approval.
+  if (updated.decisionStatus === "PENDING_SECOND_APPROVAL") {
+    return NextResponse.json({ status: "ok", changeOrder: updated });
+  }
+
+  const { changeOrder, emailStatus, emailPreviewUrl } = await queueDecisionEmail(
+    updated,
+    `decision:${id}:${updated.decisionAt ?? updated.updatedAt}`,
+  );
+
+  return NextResponse.json({ status: "ok", changeOrder, emailStatus, emailPreviewUrl });
 }
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+
+import { canAccessChangeOrder, requireUser } from "~/lib/auth";
+import {
+  changeOrderDraftInputSchema,
+  normalizeDraftInput,
+  type ChangeOrderDraftInput,
+} from "~/lib/change-order-schema";
+import { getChangeOrderById, isEditableDraft, updateDraft } from "~/lib/change-order-store";
+
+async function saveDraftChanges(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+  merge: (current: ChangeOrderDraftInput, incoming: ChangeOrderDraftInput) => ChangeOrderDraftInput,
+) {
+  const auth = await requireUser(["CONTRACTOR"]);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const existing = await getChangeOrderById(id);
+  if (!existing || !canAccessChangeOrder(auth.user, existing)) {
+    return NextResponse.json({ status: "error", message: "Draft not found." }, { status: 404 });
+  }
+
+  if (!isEditableDraft(existing)) {
+    const message =
+      existing.status === "EXPIRED"
+        ? "This draft expired and can no longer be edited. Start a new change order."
+        : "This change order was already submitted and can no longer be edited.";
+    return NextResponse.json({ status: "error", message }, { status: 409 });
+  }
+
+  const payload = await request.json();
+  const parsed = changeOrderDraftInputSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid draft payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const saved = await updateDraft(id, normalizeDraftInput(merge(existing.input, parsed.data)));
+  if (!saved) {
+    return NextResponse.json({ status: "error", message: "Draft not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", changeOrder: saved });
+}
+
+/** Replaces the draft's input with the full wizard form. */
+export async function PUT(request: Request, context: { params: Promise<{ id: string }> }) {
+  return saveDraftChanges(request, context, (_current, incoming) => incoming);
+}
+
+/** Updates only the fields present in the payload. */
+export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  return saveDraftChanges(request, context, (current, incoming) => ({ ...current, ...incoming }));
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderHistory } from "~/lib/change-order-store";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const history = await getChangeOrderHistory(id);
+  if (!history) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", history });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { actorLabel, hasPermission, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderById, reopenDecision } from "~/lib/change-order-store";
+import { queueDecisionEmail } from "~/lib/email-outbox";
+
+const reopenSchema = z.object({
+  reason: z.string().trim().min(1, "Explain why the decision is being reopened"),
+});
+
+// Withdraws a finalized decision; the team then decides again through the decision route.
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "decision:reopen")) {
+    return NextResponse.json({ status: "error", message: "Only approvers can reopen decisions." }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const existing = await getChangeOrderById(id);
+  if (!existing) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  if (!existing.isFinalized) {
+    return NextResponse.json(
+      { status: "error", message: "Only finalized decisions can be reopened." },
+      { status: 409 },
+    );
+  }
+
+  const parsed = reopenSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "A reason is required to reopen a decision.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const updated = await reopenDecision(id, { reopenedBy: actorLabel(auth.user), reason: parsed.data.reason });
+  if (!updated) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+
+  const { changeOrder, emailStatus, emailPreviewUrl } = await queueDecisionEmail(
+    updated,
+    `reopen:${id}:${updated.decisionReversals?.at(-1)?.reopenedAt ?? updated.updatedAt}`,
+  );
+
+  return NextResponse.json({ status: "ok", changeOrder, emailStatus, emailPreviewUrl });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderById } from "~/lib/change-order-store";
+import { queueDecisionEmail, resendOutboxMessage } from "~/lib/email-outbox";
+
+// Puts the current decision email back in the outbox after it failed or bounced.
+export async function POST(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const existing = await getChangeOrderById(id);
+  if (!existing) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  if (existing.decisionEmailStatus !== "FAILED" && existing.decisionEmailStatus !== "BOUNCED") {
+    return NextResponse.json(
+      { status: "error", message: "Only failed or bounced decision emails can be resent." },
+      { status: 409 },
+    );
+  }
+
+  // Records decided before the outbox existed have no message to requeue, so one is built from the record.
+  if (!existing.decisionEmailOutboxId) {
+    const { changeOrder, emailStatus, emailPreviewUrl } = await queueDecisionEmail(
+      existing,
+      `resend:${id}:${new Date().toISOString()}`,
+    );
+    return NextResponse.json({ status: "ok", changeOrder, emailStatus, emailPreviewUrl });
+  }
+
+  const message = await resendOutboxMessage(existing.decisionEmailOutboxId);
+  if (!message) {
+    return NextResponse.json({ status: "error", message: "The decision email could not be found." }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    status: "ok",
+    changeOrder: (await getChangeOrderById(id)) ?? existing,
+    emailStatus: message.status === "SENT" || message.status === "FAILED" ? message.status : "PENDING",
+    emailPreviewUrl: message.previewUrl,
+  });
+}
@@ -1,14 +1,36 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
-import { updateTeamQueueItem, type TeamQueueStatus } from "~/lib/change-order-store";
+import { actorLabel, canAccessChangeOrder, hasPermission, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { getChangeOrderById, TRIAGE_STATUSES, updateTeamQueueItem } from "~/lib/change-order-store";
 
+// Decided statuses are only set through POST /api/change-orders/:id/decision, which records the decision.
 const updateSchema = z.object({
-  teamStatus: z.enum(["NEW", "IN_REVIEW", "NEEDS_INFO", "APPROVED", "DENIED"]).optional(),
+  teamStatus: z.enum(TRIAGE_STATUSES).optional(),
   reviewerNotes: z.string().optional(),
 });
 
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const changeOrder = await getChangeOrderById(id);
+  if (!changeOrder || !canAccessChangeOrder(auth.user, changeOrder)) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", changeOrder });
+}
+
 export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const { id } = await context.params;
   const payload = await request.json();
   const parsed = updateSchema.safeParse(payload);
@@ -23,10 +45,37 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
     );
   }
 
-  const updated = updateTeamQueueItem(id, {
-    teamStatus: parsed.data.teamStatus as TeamQueueStatus | undefined,
-    reviewerNotes: parsed.data.reviewerNotes,
-  });
+  const existing = await getChangeOrderById(id);
+  if (!existing) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  if (existing.isFinalized) {
+    return NextResponse.json(
+      { status: "error", message: "This change order's decision is final. Reopen it to change the decision." },
+      { status: 409 },
+    );
+  }
+
+  // Same rule as decisions: an assigned item is its assignee's to work on.
+  if (
+    existing.assignee &&
+    existing.assignee.userId !== auth.user.id &&
+    !hasPermission(auth.user, "assignment:manage")
+  ) {
+    return NextResponse.json(
+      { status: "error", message: `This change order is assigned to ${existing.assignee.name}.` },
+      { status: 409 },
+    );
+  }
+
+  const updated = await updateTeamQueueItem(
+    id,
+    {
+      teamStatus: parsed.data.teamStatus,
+      reviewerNotes: parsed.data.reviewerNotes,
+    },
+    actorLabel(auth.user),
+  );
 
   if (!updated) {
     return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
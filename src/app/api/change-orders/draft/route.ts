@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
 
+import { requireUser } from "~/lib/auth";
 import { changeOrderDraftInputSchema, normalizeDraftInput } from "~/lib/change-order-schema";
 import { saveDraft } from "~/lib/change-order-store";
 
 export async function POST(request: Request) {
+  const auth = await requireUser(["CONTRACTOR"]);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const payload = await request.json();
   const parsed = changeOrderDraftInputSchema.safeParse(payload);
 
@@ -18,6 +24,6 @@ export async function POST(request: Request) {
     );
   }
 
-  const saved = saveDraft(normalizeDraftInput(parsed.data));
+  const saved = await saveDraft(normalizeDraftInput(parsed.data), auth.user.id);
   return NextResponse.json({ status: "ok", changeOrder: saved });
 }
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { findUnownedAttachments } from "~/lib/attachment-store";
+import { evaluateChecklist, extendChangeOrderInputSchema } from "~/lib/change-order-schema";
+import { canRevise, getChangeOrderByRevisionToken, resubmitWithRevision } from "~/lib/change-order-store";
+import { findLikelyDuplicates } from "~/lib/duplicate-detection";
+import { evaluatePhotoEvidence } from "~/lib/photo-evidence";
+import { getProjectById } from "~/lib/project-store";
+import { citePolicy } from "~/lib/submission-policy";
+import { getSubmissionPolicy } from "~/lib/submission-policy-store";
+
+const revisionSchema = extendChangeOrderInputSchema({
+  checklistResponses: z.array(
+    z.object({
+      item: z.string().min(1),
+      response: z.string().trim().min(1, "Respond to each requested item"),
+    }),
+  ),
+});
+
+// Contractor-facing: only expose what the wizard needs, never internal notes or explanations.
+export async function GET(_request: Request, context: { params: Promise<{ token: string }> }) {
+  const { token } = await context.params;
+  const existing = await getChangeOrderByRevisionToken(token);
+  if (!existing || !canRevise(existing)) {
+    return NextResponse.json(
+      { status: "error", message: "This revision link is invalid or has expired." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({
+    status: "ok",
+    revision: {
+      id: existing.id,
+      input: existing.input,
+      needsInfoChecklist: existing.needsInfoChecklist,
+      contractorFacingMessage: existing.contractorFacingMessage,
+      requestedAt: existing.decisionAt,
+    },
+  });
+}
+
+export async function POST(request: Request, context: { params: Promise<{ token: string }> }) {
+  const { token } = await context.params;
+  const existing = await getChangeOrderByRevisionToken(token);
+  if (!existing || !canRevise(existing)) {
+    return NextResponse.json(
+      { status: "error", message: "This revision link is invalid or has expired." },
+      { status: 404 },
+    );
+  }
+
+  const payload = await request.json();
+  const parsed = revisionSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "blocked",
+        reasons: ["Revision payload is invalid. Please review required fields and responses."],
+        issues: parsed.error.flatten(),
+      },
+      { status: 422 },
+    );
+  }
+
+  const { checklistResponses, ...input } = parsed.data;
+  // The project picks the roster and policy, so a revision has to stay on the original one.
+  if (input.projectId !== existing.input.projectId) {
+    return NextResponse.json(
+      { status: "blocked", reasons: ["The project cannot be changed when responding to a request for info."] },
+      { status: 422 },
+    );
+  }
+
+  const unownedPhotos = await findUnownedAttachments(input.photos, existing.createdBy);
+  if (unownedPhotos.length > 0) {
+    return NextResponse.json(
+      { status: "blocked", reasons: [`${unownedPhotos.length} photo(s) could not be found. Upload them again.`] },
+      { status: 422 },
+    );
+  }
+
+  const policy = await getSubmissionPolicy(input.projectId);
+  const answered = new Set(checklistResponses.map((entry) => entry.item));
+  const unanswered = existing.needsInfoChecklist.filter((item) => !answered.has(item));
+  const blockingReasons = [
+    ...unanswered.map((item) => `Respond to the requested item: ${item}`),
+    ...evaluateChecklist(input, policy).map((issue) => citePolicy(issue.message, policy)),
+  ];
+
+  if (blockingReasons.length > 0) {
+    return NextResponse.json({ status: "blocked", reasons: blockingReasons }, { status: 422 });
+  }
+
+  const photoEvidence = await evaluatePhotoEvidence(input, await getProjectById(input.projectId), existing.id);
+  const duplicateMatches = await findLikelyDuplicates(input, {
+    createdBy: existing.createdBy,
+    excludeId: existing.id,
+    photoEvidence,
+  });
+  const result = await resubmitWithRevision(existing.id, token, input, checklistResponses, {
+    photoEvidence,
+    duplicateMatches,
+  });
+  if (!result) {
+    return NextResponse.json({ status: "error", message: "Submission not found." }, { status: 404 });
+  }
+  // Another response or decision landed between the checks above and the write.
+  if (result.conflict) {
+    return NextResponse.json(
+      { status: "error", message: "This change order is no longer waiting for your response. Reload the link." },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    status: "ok",
+    message: "Thanks - your updated change order was sent back to the Remi team for review.",
+  });
+}
@@ -1,7 +1,41 @@
 import { NextResponse } from "next/server";
 
+import { canAccessChangeOrder, requireUser } from "~/lib/auth";
+import { changeOrderQuerySchema, queryChangeOrders } from "~/lib/change-order-query";
+import { syncChangeOrderSearchIndex } from "~/lib/change-order-search";
 import { listChangeOrders } from "~/lib/change-order-store";
 
-export async function GET() {
-  return NextResponse.json({ changeOrders: listChangeOrders() });
+// Returns summaries; the full record (photos, history, email bodies) comes from GET /api/change-orders/:id.
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const parsed = changeOrderQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid change order query.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const records = await listChangeOrders();
+  if (parsed.data.q) {
+    syncChangeOrderSearchIndex(records);
+  }
+  const visible = records.filter((record) => canAccessChangeOrder(auth.user, record));
+  const page = queryChangeOrders(visible, parsed.data, auth.user);
+  if (!page) {
+    return NextResponse.json(
+      { status: "error", message: "The cursor is invalid or belongs to a different sort order." },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({ status: "ok", ...page });
 }
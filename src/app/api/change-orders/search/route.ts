@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { canAccessChangeOrder, isStaff, requireUser } from "~/lib/auth";
+import { changeOrderQuerySchema, filterChangeOrders, toChangeOrderSummary } from "~/lib/change-order-query";
+import { searchChangeOrders, syncChangeOrderSearchIndex } from "~/lib/change-order-search";
+import { listChangeOrders } from "~/lib/change-order-store";
+
+// Ranked by relevance; accepts the list filters too, but not `sort` or `cursor`.
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const parsed = changeOrderQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid search query.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+  const { q, ...filters } = parsed.data;
+  if (!q) {
+    return NextResponse.json({ status: "error", message: "Enter something to search for." }, { status: 400 });
+  }
+
+  const records = await listChangeOrders();
+  syncChangeOrderSearchIndex(records);
+  const visible = records.filter((record) => canAccessChangeOrder(auth.user, record));
+  const hits = searchChangeOrders(filterChangeOrders(visible, filters, auth.user), q, {
+    includeStaffFields: isStaff(auth.user),
+  });
+
+  return NextResponse.json({
+    status: "ok",
+    total: hits.length,
+    results: hits.slice(0, filters.limit).map((hit) => ({
+      changeOrder: toChangeOrderSummary(hit.record),
+      score: hit.score,
+      snippets: hit.snippets,
+    })),
+  });
+}
@@ -1,29 +1,48 @@
 import { NextResponse } from "next/server";
-
-import { changeOrderInputSchema, evaluateChecklist, isPast24Hours } from "~/lib/change-order-schema";
-import { sendEmail } from "~/lib/email";
-import { saveBlocked, saveSubmission } from "~/lib/change-order-store";
-
+import { z } from "zod";
+
+import { findUnownedAttachments } from "~/lib/attachment-store";
+import { canAccessChangeOrder, requireUser } from "~/lib/auth";
+import {
+  changeOrderInputSchema,
+  evaluateChecklist,
+  getChangeOrderTotal,
+  isLateSubmission,
+} from "~/lib/change-order-schema";
+import {
+  getChangeOrderById,
+  isEditableDraft,
+  saveBlocked,
+  saveSubmission,
+  type StoredChangeOrder,
+} from "~/lib/change-order-store";
+import type { EmailTransportMode } from "~/lib/email";
+import { deliverOutboxMessage, enqueueEmail } from "~/lib/email-outbox";
+import { renderEmailTemplate } from "~/lib/email-templates";
+import { findLikelyDuplicates } from "~/lib/duplicate-detection";
+import { formatMoney } from "~/lib/money";
+import { evaluatePhotoEvidence } from "~/lib/photo-evidence";
+import { canAccessProject, getProjectById } from "~/lib/project-store";
+import { autoAssignChangeOrder } from "~/lib/reviewer-assignment";
+import { citePolicy, describeSubmissionWindow } from "~/lib/submission-policy";
+import { getSubmissionPolicy } from "~/lib/submission-policy-store";
+
+// Set when the wizard resumed an existing draft, so final submit promotes that record instead of creating one.
+const draftReferenceSchema = z.object({
+  draftId: z.string().min(1).optional(),
+});
+
+// QUEUED: the first attempt failed and the outbox worker will retry it.
 type SubmissionNotification = {
-  status: "SENT" | "FAILED" | "SKIPPED";
+  status: "SENT" | "QUEUED" | "FAILED" | "SKIPPED";
   to?: string;
-  mode?: "resend";
+  mode?: EmailTransportMode;
   previewUrl?: string;
   error?: string;
 };
 
 async function sendTeamSubmissionNotification(
-  input: {
-    projectId: string;
-    contractorName: string;
-    contractorEmail: string;
-    workPerformedAt: string;
-    scope: string;
-    materialCost: number;
-    laborCost: number;
-    additionalCharges: number;
-    photos: string[];
-  },
+  record: StoredChangeOrder,
   submissionStatus: "SUBMITTED" | "BLOCKED",
   blockingReasons?: string[],
 ): Promise<SubmissionNotification> {
@@ -32,79 +51,46 @@ async function sendTeamSubmissionNotification(
     return { status: "SKIPPED", error: "NEW_CO_NOTIFY_TO is not configured." };
   }
 
-  const totalCost = input.materialCost + input.laborCost + input.additionalCharges;
-  const statusLabel = submissionStatus === "SUBMITTED" ? "Submitted" : "Blocked";
-  const blockingLines =
-    submissionStatus === "BLOCKED" && blockingReasons && blockingReasons.length > 0
-      ? `\n\nBlocking reasons:\n${blockingReasons.map((reason) => `- ${reason}`).join("\n")}`
-      : "";
-
-  const subject = `New change order ${statusLabel.toLowerCase()} - ${input.projectId}`;
-  const text =
-    `A contractor submitted a new change order.` +
-    `\n\nStatus: ${statusLabel}` +
-    `\nProject: ${input.projectId}` +
-    `\nContractor: ${input.contractorName}` +
-    `\nContractor email: ${input.contractorEmail}` +
-    `\nWork performed: ${input.workPerformedAt}` +
-    `\nScope: ${input.scope}` +
-    `\nTotal requested: $${totalCost.toFixed(2)}` +
-    `\nPhotos attached: ${input.photos.length}` +
-    `${blockingLines}` +
-    `\n\nOpen the team queue to review this submission.`;
-
-  const blockingHtml =
-    submissionStatus === "BLOCKED" && blockingReasons && blockingReasons.length > 0
-      ? `<div style="margin-top:12px;border:1px solid #fecdd3;background:#fff1f2;border-radius:8px;padding:10px 12px;">
-          <p style="margin:0;color:#9f1239;font-size:14px;"><strong>Blocking reasons:</strong></p>
-          <ul style="margin:8px 0 0 18px;padding:0;color:#9f1239;font-size:14px;">
-            ${blockingReasons.map((reason) => `<li style="margin:0 0 6px;">${reason}</li>`).join("")}
-          </ul>
-        </div>`
-      : "";
-
-  const statusColor = submissionStatus === "SUBMITTED" ? "#166534" : "#9f1239";
-  const html = `
-    <div style="background:#f2f7ff;padding:20px;font-family:Inter,Segoe UI,Arial,sans-serif;">
-      <div style="max-width:640px;margin:0 auto;border:1px solid #dbeafe;border-radius:12px;overflow:hidden;background:#ffffff;">
-        <div style="padding:16px 20px;background:#ffffff;border-bottom:1px solid #dbeafe;">
-          <img src="cid:remi-logo@change-order" alt="Remi" style="height:24px;display:block;" />
-        </div>
-        <div style="padding:20px;">
-          <p style="margin:0 0 12px;color:#0f172a;font-size:16px;">A new change order was submitted.</p>
-          <div style="border:1px solid #bfdbfe;background:#eff6ff;border-radius:8px;padding:12px 14px;">
-            <p style="margin:0;color:${statusColor};font-size:14px;"><strong>Status:</strong> ${statusLabel}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Project:</strong> ${input.projectId}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Contractor:</strong> ${input.contractorName}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Contractor email:</strong> ${input.contractorEmail}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Work performed:</strong> ${input.workPerformedAt}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Total requested:</strong> $${totalCost.toFixed(2)}</p>
-            <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Photos attached:</strong> ${input.photos.length}</p>
-          </div>
-          ${blockingHtml}
-          <p style="margin:14px 0 0;color:#0f172a;font-size:14px;">Open the team queue to review and decide.</p>
-        </div>
-      </div>
-    </div>
-  `;
-
-  const result = await sendEmail({
+  const data = {
+    projectLabel: record.input.projectId,
+    contractorName: record.input.contractorName,
+    contractorEmail: record.input.contractorEmail,
+    workPerformedAt: record.input.workPerformedAt,
+    scope: record.input.scope,
+    totalRequested: formatMoney(getChangeOrderTotal(record.input)),
+    photoCount: record.input.photos.length,
+  };
+  const { subject, text, html } =
+    submissionStatus === "BLOCKED"
+      ? renderEmailTemplate("blocked", { ...data, blockingReasons: blockingReasons ?? [] })
+      : renderEmailTemplate("submitted", data);
+
+  const message = await enqueueEmail({
+    kind: "TEAM_NOTIFICATION",
+    idempotencyKey: `team-notification:${record.id}:${record.submittedAt ?? record.updatedAt}`,
+    changeOrderId: record.id,
     to: teamNotificationTo,
     subject,
     text,
     html,
   });
+  const result = (await deliverOutboxMessage(message.id)) ?? message;
 
   return {
-    status: result.sent ? "SENT" : "FAILED",
+    status: result.status === "SENT" ? "SENT" : result.status === "FAILED" ? "FAILED" : "QUEUED",
     to: teamNotificationTo,
     mode: result.mode,
     previewUrl: result.previewUrl,
-    error: result.error,
+    error: result.lastError,
   };
 }
 
 export async function POST(request: Request) {
+  const auth = await requireUser(["CONTRACTOR"]);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const payload = await request.json();
   const parsed = changeOrderInputSchema.safeParse(payload);
 
@@ -119,17 +105,90 @@ export async function POST(request: Request) {
     );
   }
 
-  const checklistViolations = evaluateChecklist(parsed.data).map((issue) => issue.message);
-  const isLate = isPast24Hours(parsed.data.workPerformedAt);
+  const { draftId } = draftReferenceSchema.catch({}).parse(payload);
+  if (draftId) {
+    const existing = await getChangeOrderById(draftId);
+    if (!existing || !canAccessChangeOrder(auth.user, existing)) {
+      return NextResponse.json({ status: "error", message: "Draft not found." }, { status: 404 });
+    }
+    if (!isEditableDraft(existing)) {
+      const message =
+        existing.status === "EXPIRED"
+          ? "This draft expired and can no longer be edited. Start a new change order."
+          : "This change order was already submitted and can no longer be edited.";
+      return NextResponse.json({ status: "error", message }, { status: 409 });
+    }
+  }
+
+  const project = await getProjectById(parsed.data.projectId);
+  if (!project) {
+    return NextResponse.json(
+      { status: "blocked", reasons: [`Project ${parsed.data.projectId} is not in the project registry.`] },
+      { status: 422 },
+    );
+  }
+  if (!canAccessProject(auth.user, project)) {
+    return NextResponse.json(
+      { status: "error", message: "You are not on the contractor roster for this project." },
+      { status: 403 },
+    );
+  }
+
+  const unownedPhotos = await findUnownedAttachments(parsed.data.photos, auth.user.id);
+  if (unownedPhotos.length > 0) {
+    return NextResponse.json(
+      { status: "blocked", reasons: [`${unownedPhotos.length} photo(s) could not be found. Upload them again.`] },
+      { status: 422 },
+    );
+  }
+
+  const policy = await getSubmissionPolicy(parsed.data.projectId);
+  const photoEvidence = await evaluatePhotoEvidence(parsed.data, project, draftId);
+  const duplicateMatches = await findLikelyDuplicates(parsed.data, {
+    createdBy: auth.user.id,
+    excludeId: draftId,
+    photoEvidence,
+  });
+  const checklistViolations = evaluateChecklist(parsed.data, policy).map((issue) => citePolicy(issue.message, policy));
+  const isLate = isLateSubmission(parsed.data.workPerformedAt, new Date().toISOString(), policy);
   const blockingReasons = [...checklistViolations];
 
   if (isLate) {
-    blockingReasons.push("This change order was submitted after 24 hours and cannot be finalized.");
+    blockingReasons.push(
+      citePolicy(
+        `This change order was submitted outside the ${describeSubmissionWindow(policy)} and cannot be finalized.`,
+        policy,
+      ),
+    );
+  }
+
+  const likelyDuplicate = duplicateMatches[0];
+  if (
+    likelyDuplicate &&
+    policy.duplicateBlockThreshold !== null &&
+    likelyDuplicate.score >= policy.duplicateBlockThreshold
+  ) {
+    blockingReasons.push(
+      citePolicy(
+        `This looks like a duplicate of change order ${likelyDuplicate.changeOrderId} ` +
+          `(${Math.round(likelyDuplicate.score * 100)}% similar). Contact the Remi team if this is new work.`,
+        policy,
+      ),
+    );
   }
 
   if (blockingReasons.length > 0) {
-    const blocked = saveBlocked(parsed.data, blockingReasons);
-    const submissionNotification = await sendTeamSubmissionNotification(parsed.data, "BLOCKED", blockingReasons);
+    const blocked = await saveBlocked(parsed.data, blockingReasons, {
+      draftId,
+      createdBy: auth.user.id,
+      policy,
+      photoEvidence,
+      duplicateMatches,
+    });
+    if (!blocked) {
+      return NextResponse.json({ status: "error", message: "Draft not found." }, { status: 404 });
+    }
+    const submissionNotification = await sendTeamSubmissionNotification(blocked, "BLOCKED", blockingReasons);
     return NextResponse.json(
       {
         status: "blocked",
@@ -141,12 +200,23 @@ export async function POST(request: Request) {
     );
   }
 
-  const submitted = saveSubmission(parsed.data);
-  const submissionNotification = await sendTeamSubmissionNotification(parsed.data, "SUBMITTED");
+  const submitted = await saveSubmission(parsed.data, {
+    draftId,
+    createdBy: auth.user.id,
+    policy,
+    photoEvidence,
+    duplicateMatches,
+  });
+  if (!submitted) {
+    return NextResponse.json({ status: "error", message: "Draft not found." }, { status: 404 });
+  }
+  // Projects set to round robin or least loaded hand the submission to a reviewer straight away.
+  const assigned = await autoAssignChangeOrder(submitted);
+  const submissionNotification = await sendTeamSubmissionNotification(assigned, "SUBMITTED");
 
   return NextResponse.json({
     status: "ok",
-    changeOrder: submitted,
+    changeOrder: assigned,
     message: "Change order submitted successfully.",
     submissionNotification,
   });
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, hasPermission, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { denialReasonUpdateSchema, getDenialReason, updateDenialReason } from "~/lib/denial-reasons";
+
+export async function GET(_request: Request, context: { params: Promise<{ code: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { code } = await context.params;
+  const reason = await getDenialReason(code);
+  if (!reason) {
+    return NextResponse.json({ status: "error", message: "Denial reason not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", reason });
+}
+
+// Reasons are retired with `active: false` rather than deleted, so past decisions keep their wording.
+export async function PATCH(request: Request, context: { params: Promise<{ code: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "denial_reason:manage")) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can manage denial reasons." },
+      { status: 403 },
+    );
+  }
+
+  const { code } = await context.params;
+  const payload = await request.json();
+  const parsed = denialReasonUpdateSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid denial reason payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const reason = await updateDenialReason(code, parsed.data, actorLabel(auth.user));
+  if (!reason) {
+    return NextResponse.json({ status: "error", message: "Denial reason not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", reason });
+}
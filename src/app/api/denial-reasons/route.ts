@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, hasPermission, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { createDenialReason, denialReasonSchema, listDenialReasons } from "~/lib/denial-reasons";
+
+export async function GET(request: Request) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const includeRetired = new URL(request.url).searchParams.get("includeRetired") === "1";
+  const reasons = await listDenialReasons({ includeRetired });
+  return NextResponse.json({ status: "ok", reasons });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "denial_reason:manage")) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can manage denial reasons." },
+      { status: 403 },
+    );
+  }
+
+  const payload = await request.json();
+  const parsed = denialReasonSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid denial reason payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const reason = await createDenialReason(parsed.data, actorLabel(auth.user));
+  if (!reason) {
+    return NextResponse.json(
+      { status: "error", message: `Denial reason ${parsed.data.code} already exists.` },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ status: "ok", reason }, { status: 201 });
+}
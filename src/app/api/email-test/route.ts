@@ -1,20 +1,26 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
-import { sendDecisionEmail } from "~/lib/email";
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { sendEmail } from "~/lib/email";
 
 const bodySchema = z.object({
   to: z.string().email(),
 });
 
 export async function POST(request: Request) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const payload = await request.json();
   const parsed = bodySchema.safeParse(payload);
   if (!parsed.success) {
     return NextResponse.json({ status: "error", message: "Valid email required." }, { status: 400 });
   }
 
-  const result = await sendDecisionEmail({
+  const result = await sendEmail({
     to: parsed.data.to,
     subject: "Remi Change Order email test",
     text:
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { readEmailPreview } from "~/lib/email";
+
+// Serves files written by the preview transport. Development only: previews hold real contractor emails.
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ status: "error", message: "Email preview not found." }, { status: 404 });
+  }
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const format = new URL(request.url).searchParams.get("format") === "eml" ? "eml" : "html";
+  const content = await readEmailPreview(id, format);
+  if (!content) {
+    return NextResponse.json({ status: "error", message: "Email preview not found." }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(content), {
+    headers:
+      format === "eml"
+        ? { "content-type": "message/rfc822", "content-disposition": `attachment; filename="${id}.eml"` }
+        : { "content-type": "text/html; charset=utf-8", "content-security-policy": "script-src 'none'" },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { withDataUrlLogo } from "~/lib/email";
+import { emailTemplateFixtures } from "~/lib/email-template-fixtures";
+import { type EmailTemplateName, emailTemplateNames, renderEmailTemplate } from "~/lib/email-templates";
+
+// Renders one email template with fixture data: HTML by default, `?format=text` for the plain-text part.
+export async function GET(request: Request, context: { params: Promise<{ name: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { name } = await context.params;
+  if (!emailTemplateNames.includes(name as EmailTemplateName)) {
+    return NextResponse.json(
+      { status: "error", message: `Unknown email template. Available: ${emailTemplateNames.join(", ")}.` },
+      { status: 404 },
+    );
+  }
+
+  const templateName = name as EmailTemplateName;
+  const email = renderEmailTemplate(templateName, emailTemplateFixtures[templateName]);
+  if (new URL(request.url).searchParams.get("format") === "text") {
+    return new NextResponse(`Subject: ${email.subject}\n\n${email.text}\n`, {
+      headers: { "content-type": "text/plain; charset=utf-8" },
+    });
+  }
+  return new NextResponse(withDataUrlLogo(email.html), {
+    headers: { "content-type": "text/html; charset=utf-8", "content-security-policy": "script-src 'none'" },
+  });
+}
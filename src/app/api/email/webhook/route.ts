@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { recordProviderEvent } from "~/lib/email-outbox";
+
+// Signatures older than this are refused so a captured request cannot be replayed later.
+const TOLERANCE_SECONDS = 5 * 60;
+
+const eventSchema = z.object({
+  type: z.string(),
+  data: z
+    .object({
+      email_id: z.string().optional(),
+      bounce: z.object({ message: z.string().optional() }).passthrough().optional(),
+    })
+    .passthrough(),
+});
+
+const statusByEventType = {
+  "email.delivered": "DELIVERED",
+  "email.bounced": "BOUNCED",
+  "email.complained": "COMPLAINED",
+} as const;
+
+/**
+ * Resend signs webhooks the Svix way: an HMAC-SHA256 of `${id}.${timestamp}.${body}` keyed with the
+ * base64 part of the `whsec_` secret, sent as one or more space-separated `v1,<signature>` entries.
+ */
+function isValidSignature(secret: string, headers: Headers, body: string): boolean {
+  const id = headers.get("svix-id");
+  const timestamp = headers.get("svix-timestamp");
+  const signatures = headers.get("svix-signature");
+  if (!id || !timestamp || !signatures) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest();
+  return signatures.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    const actual = Buffer.from(signature ?? "", "base64");
+    return version === "v1" && actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+// Delivery, bounce and complaint events from the email provider.
+export async function POST(request: Request) {
+  const secret = (process.env.RESEND_WEBHOOK_SECRET || "").trim();
+  if (!secret) {
+    return NextResponse.json({ status: "error", message: "RESEND_WEBHOOK_SECRET is not configured." }, { status: 503 });
+  }
+
+  const body = await request.text();
+  if (!isValidSignature(secret, request.headers, body)) {
+    return NextResponse.json({ status: "error", message: "Invalid webhook signature." }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ status: "error", message: "Webhook body is not JSON." }, { status: 400 });
+  }
+  const parsed = eventSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { status: "error", message: "Unrecognized webhook payload.", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { type, data } = parsed.data;
+  const status = statusByEventType[type as keyof typeof statusByEventType];
+  // Other event types (sent, opened, clicked...) are acknowledged so the provider stops retrying them.
+  if (!status || !data.email_id) {
+    return NextResponse.json({ status: "ok", ignored: true });
+  }
+
+  const message = await recordProviderEvent(data.email_id, { status, detail: data.bounce?.message });
+  return NextResponse.json({ status: "ok", ignored: !message });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, hasPermission, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { submissionPolicyRulesSchema } from "~/lib/submission-policy";
+import { deleteSubmissionPolicy, getSubmissionPolicy, saveSubmissionPolicy } from "~/lib/submission-policy-store";
+
+// Any signed-in user can read a project's policy so the wizard can show the window and required checks.
+export async function GET(_request: Request, context: { params: Promise<{ projectId: string }> }) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { projectId } = await context.params;
+  const policy = await getSubmissionPolicy(projectId);
+  return NextResponse.json({ status: "ok", policy });
+}
+
+export async function PUT(request: Request, context: { params: Promise<{ projectId: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "policy:manage")) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can change project policies." },
+      { status: 403 },
+    );
+  }
+
+  const { projectId } = await context.params;
+  const payload = await request.json();
+  const parsed = submissionPolicyRulesSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid policy payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const policy = await saveSubmissionPolicy(projectId, parsed.data, actorLabel(auth.user));
+  return NextResponse.json({ status: "ok", policy });
+}
+
+export async function DELETE(_request: Request, context: { params: Promise<{ projectId: string }> }) {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "policy:manage")) {
+    return NextResponse.json(
+      { status: "error", message: "Only approvers can change project policies." },
+      { status: 403 },
+    );
+  }
+
+  const { projectId } = await context.params;
+  await deleteSubmissionPolicy(projectId);
+  const policy = await getSubmissionPolicy(projectId);
+  return NextResponse.json({ status: "ok", policy });
+}
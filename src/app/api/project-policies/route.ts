@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { listSubmissionPolicies } from "~/lib/submission-policy-store";
+import { DEFAULT_SUBMISSION_POLICY_RULES } from "~/lib/submission-policy";
+
+export async function GET() {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const policies = await listSubmissionPolicies();
+  return NextResponse.json({ status: "ok", defaults: DEFAULT_SUBMISSION_POLICY_RULES, policies });
+}
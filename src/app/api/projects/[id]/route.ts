@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, hasPermission, requireUser } from "~/lib/auth";
+import {
+  canAccessProject,
+  deleteProject,
+  getProjectById,
+  projectUpdateSchema,
+  updateProject,
+} from "~/lib/project-store";
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { id } = await context.params;
+  const project = await getProjectById(id);
+  if (!project || !canAccessProject(auth.user, project)) {
+    return NextResponse.json({ status: "error", message: "Project not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", project });
+}
+
+export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "project:manage")) {
+    return NextResponse.json({ status: "error", message: "Only approvers can manage projects." }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const payload = await request.json();
+  const parsed = projectUpdateSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid project payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const project = await updateProject(id, parsed.data, actorLabel(auth.user));
+  if (!project) {
+    return NextResponse.json({ status: "error", message: "Project not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok", project });
+}
+
+export async function DELETE(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "project:manage")) {
+    return NextResponse.json({ status: "error", message: "Only approvers can manage projects." }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+  const deleted = await deleteProject(id);
+  if (!deleted) {
+    return NextResponse.json({ status: "error", message: "Project not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ status: "ok" });
+}
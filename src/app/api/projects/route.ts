@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, hasPermission, requireUser } from "~/lib/auth";
+import { createProject, listProjectsForUser, projectSchema } from "~/lib/project-store";
+
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const projects = await listProjectsForUser(auth.user);
+  return NextResponse.json({ status: "ok", projects });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser();
+  if (!auth.ok) {
+    return auth.response;
+  }
+  if (!hasPermission(auth.user, "project:manage")) {
+    return NextResponse.json({ status: "error", message: "Only approvers can manage projects." }, { status: 403 });
+  }
+
+  const payload = await request.json();
+  const parsed = projectSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: "Invalid project payload.",
+        issues: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const project = await createProject(parsed.data, actorLabel(auth.user));
+  if (!project) {
+    return NextResponse.json(
+      { status: "error", message: `Project ${parsed.data.id} already exists.` },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ status: "ok", project }, { status: 201 });
+}
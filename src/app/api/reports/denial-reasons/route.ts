@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { requireUser, STAFF_ROLES } from "~/lib/auth";
+import { listChangeOrders } from "~/lib/change-order-store";
+import { listDenialReasons, summarizeDenialReasons } from "~/lib/denial-reasons";
+
+export async function GET() {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const reasons = summarizeDenialReasons(await listChangeOrders(), await listDenialReasons({ includeRetired: true }));
+  return NextResponse.json({ status: "ok", reasons });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { actorLabel, isStaff, listUsers, requireUser, STAFF_ROLES } from "~/lib/auth";
+import { listChangeOrders } from "~/lib/change-order-store";
+import { countOpenAssignments } from "~/lib/reviewer-assignment";
+
+// Staff who can be assigned change orders, with how many open items each already holds.
+export async function GET() {
+  const auth = await requireUser(STAFF_ROLES);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const load = countOpenAssignments(await listChangeOrders());
+  const reviewers = (await listUsers()).filter(isStaff).map((user) => ({
+    id: user.id,
+    name: actorLabel(user),
+    email: user.email,
+    roles: user.roles,
+    openAssignments: load.get(user.id) ?? 0,
+  }));
+  return NextResponse.json({ status: "ok", reviewers });
+}
@@ -0,0 +1,28 @@
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getCurrentUser, isStaff } from "~/lib/auth";
+
+export default async function TeamQueueLayout({ children }: { children: ReactNode }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(`/sign-in?next=${encodeURIComponent("/change-order-poc/queue")}`);
+  }
+
+  if (!isStaff(user)) {
+    return (
+      <main>
+        <section>
+          <h1>Team queue</h1>
+          <div className="alert error">Only reviewers and approvers can open the team queue.</div>
+          <Link href="/change-order-poc" className="secondary nav-link">
+            Back to contractor view
+          </Link>
+        </section>
+      </main>
+    );
+  }
+
+  return children;
+}
@@ -1,20 +1,123 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
-
-type TeamQueueStatus = "NEW" | "IN_REVIEW" | "NEEDS_INFO" | "APPROVED" | "DENIED";
-type SubmissionStatus = "DRAFT" | "SUBMITTED" | "BLOCKED";
-type DecisionStatus = "PENDING" | "NEEDS_INFO" | "APPROVED" | "DENIED";
-type DecisionAction = "NONE" | "NEEDS_INFO" | "APPROVE" | "DENY";
-type DenialReasonCode =
-  | "MISSING_REQUIRED_INFO"
-  | "INSUFFICIENT_PHOTO_EVIDENCE"
-  | "OUTSIDE_24_HOUR_WINDOW"
-  | "DUPLICATE_REQUEST"
-  | "PRICING_NOT_JUSTIFIED"
-  | "IN_SCOPE_OF_TURNKEY"
-  | "OTHER";
+import { type ReactNode, useEffect, useState } from "react";
+
+type TeamQueueStatus =
+  "NEW" | "IN_REVIEW" | "NEEDS_INFO" | "PENDING_SECOND_APPROVAL" | "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+type SubmissionStatus = "DRAFT" | "SUBMITTED" | "BLOCKED" | "EXPIRED";
+type DecisionStatus =
+  "PENDING" | "NEEDS_INFO" | "PENDING_SECOND_APPROVAL" | "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+type DecisionAction = "NONE" | "NEEDS_INFO" | "APPROVE" | "DECIDE_LINE_ITEMS" | "SIGN_OFF" | "DENY";
+type LineItemOutcome = "APPROVED" | "ADJUSTED" | "DENIED";
+// Codes come from the denial reason catalog, which admins can extend, so any string is possible.
+type DenialReasonCode = string;
+type DenialReason = { code: DenialReasonCode; title: string; active: boolean };
+
+type Money = { amountCents: number; currency: string };
+
+type QueueItemInput = {
+  projectId: string;
+  contractorName: string;
+  contractorEmail?: string;
+  workPerformedAt: string;
+  scope: string;
+  quantity: number | string;
+  unitLabel: string;
+  materialCost: Money;
+  laborCost: Money;
+  additionalCharges: Money;
+  whyNotInTurnKey?: string;
+  photos: string[];
+  isMultiItem?: boolean;
+  lineItems?: QueueLineItem[];
+};
+
+type QueueLineItem = {
+  description: string;
+  category?: "LABOR" | "MATERIAL" | "OTHER";
+  unitLabel?: string;
+  quantity: number | string;
+  unitPrice: Money;
+};
+
+type LineItemDecision = {
+  lineIndex: number;
+  description: string;
+  requestedAmount: Money;
+  outcome: LineItemOutcome;
+  approvedAmount: Money;
+  reasonCode?: DenialReasonCode;
+  reasonTitle?: string;
+  note?: string;
+};
+
+type ApprovalChain = {
+  outcome: "APPROVED" | "PARTIALLY_APPROVED";
+  steps: { name: string; role: "APPROVER" | "DIRECTOR" }[];
+  signoffs: { step: string; userId: string; signedBy: string; signedAt: string; note?: string }[];
+};
+
+type DecisionReversal = {
+  reopenedAt: string;
+  reopenedBy: string;
+  reason: string;
+  previousDecisionStatus: DecisionStatus;
+  previousDecisionBy?: string;
+  previousApprovedAmount?: Money;
+  previousDenialReasonCode?: DenialReasonCode;
+};
+
+type QueueItemRevision = {
+  version: number;
+  input: QueueItemInput & Record<string, unknown>;
+  submittedAt?: string;
+  needsInfoChecklist: string[];
+  requestedBy?: string;
+  requestedAt?: string;
+  replacedAt: string;
+  changedFields: string[];
+};
+
+type HistoryEvent = {
+  type: string;
+  at: string;
+  actor: string;
+  summary: string;
+  details?: Record<string, unknown>;
+};
+
+type Project = {
+  id: string;
+  name: string;
+  address: string;
+  contractValue: Money;
+  turnKeyScope: string[];
+};
+
+type PhotoEvidence = {
+  attachmentId: string;
+  capturedAt?: string;
+  device?: string;
+  distanceMeters?: number;
+  duplicates: { changeOrderId: string; attachmentId: string }[];
+  flags: { code: string; message: string }[];
+};
+
+type DuplicateMatch = {
+  changeOrderId: string;
+  score: number;
+  reasons: string[];
+  submittedAt?: string;
+};
+
+type Assignment = { userId: string; name: string; assignedAt: string; assignedBy: string };
+
+// Review clock for NEW and IN_REVIEW; `status` is unset while no clock runs.
+type ReviewSla = { status?: "NEW" | "IN_REVIEW"; startedAt?: string; dueAt?: string; escalatedAt?: string };
+
+// Staff from GET /api/reviewers, for the assignee filter and reassignment.
+type Reviewer = { id: string; name: string; email: string; openAssignments: number };
 
 type QueueItem = {
   id: string;
@@ -22,19 +125,33 @@ type QueueItem = {
   updatedAt: string;
   submittedAt?: string;
   status: SubmissionStatus;
+  isLate: boolean;
+  policyName?: string;
+  photoEvidence?: PhotoEvidence[];
+  duplicateMatches?: DuplicateMatch[];
+  lateAcknowledgment?: { acknowledgedBy: string; acknowledgedAt: string; reason: string };
   blockingReasons?: string[];
   reviewerNotes: string;
+  assignee?: Assignment;
+  sla?: ReviewSla;
   teamStatus: TeamQueueStatus;
   decisionStatus: DecisionStatus;
   decisionAt?: string;
   decisionBy?: string;
-  approvedAmount?: number;
+  approvedAmount?: Money;
+  lineItemDecisions?: LineItemDecision[];
+  approvalChain?: ApprovalChain;
+  decisionReversals?: DecisionReversal[];
   denialReasonCode?: DenialReasonCode;
+  denialReason?: { code: DenialReasonCode; title: string };
   decisionExplanation?: string;
   contractorFacingMessage?: string;
   needsInfoChecklist: string[];
+  checklistResponses?: { item: string; response: string }[];
+  resubmittedAt?: string;
+  revisions?: QueueItemRevision[];
   isFinalized: boolean;
-  decisionEmailStatus?: "PENDING" | "SENT" | "FAILED";
+  decisionEmailStatus?: "PENDING" | "SENT" | "FAILED" | "DELIVERED" | "BOUNCED" | "COMPLAINED";
   decisionEmailSentAt?: string;
   decisionEmailTo?: string;
   decisionEmailSubject?: string;
@@ -42,95 +159,506 @@ type QueueItem = {
   decisionEmailError?: string;
   decisionEmailPreviewUrl?: string;
   decisionEmailMode?: "resend" | "smtp" | "preview";
-  input: {
-    projectId: string;
-    contractorName: string;
-    contractorEmail?: string;
-    workPerformedAt: string;
-    scope: string;
-    quantity: number | string;
-    unitLabel: string;
-    materialCost: number | string;
-    laborCost: number | string;
-    additionalCharges: number | string;
-    photos: string[];
-  };
+  input: QueueItemInput & Record<string, unknown>;
 };
 
-const teamStatuses: TeamQueueStatus[] = ["NEW", "IN_REVIEW", "NEEDS_INFO", "APPROVED", "DENIED"];
-const decisionStatuses: DecisionStatus[] = ["PENDING", "NEEDS_INFO", "APPROVED", "DENIED"];
-const denialReasonCodes: DenialReasonCode[] = [
-  "MISSING_REQUIRED_INFO",
-  "INSUFFICIENT_PHOTO_EVIDENCE",
-  "OUTSIDE_24_HOUR_WINDOW",
-  "DUPLICATE_REQUEST",
-  "PRICING_NOT_JUSTIFIED",
-  "IN_SCOPE_OF_TURNKEY",
-  "OTHER",
+// List rows from GET /api/change-orders; the full record is loaded when a card is opened.
+type QueueSummary = {
+  id: string;
+  status: SubmissionStatus;
+  submittedAt?: string;
+  projectId: string;
+  contractorName: string;
+  scope: string;
+  totalRequested: Money;
+  approvedAmount?: Money;
+  isLate: boolean;
+  isFinalized: boolean;
+  teamStatus: TeamQueueStatus;
+  decisionStatus: DecisionStatus;
+  denialReasonTitle?: string;
+  pendingSignoffStep?: string;
+  flaggedPhotoCount: number;
+  duplicateScore?: number;
+  assignee?: Assignment;
+  slaStatus?: "NEW" | "IN_REVIEW";
+  slaDueAt?: string;
+  isOverdue: boolean;
+  slaEscalatedAt?: string;
+};
+
+type SearchSnippet = { field: string; text: string; highlights: [number, number][] };
+
+const searchFieldLabels: Record<string, string> = {
+  scope: "Scope",
+  contractor: "Contractor",
+  lineItems: "Line items",
+  whyNeeded: "Why needed",
+  whyNotInTurnKey: "Why not in turn-key",
+  additionalChargesReason: "Additional charges",
+  reviewerNotes: "Reviewer notes",
+};
+
+// Renders a search snippet with its matched words marked; the text is never parsed as HTML.
+function SnippetText({ snippet }: { snippet: SearchSnippet }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of snippet.highlights) {
+    parts.push(snippet.text.slice(position, start), <mark key={start}>{snippet.text.slice(start, end)}</mark>);
+    position = end;
+  }
+  parts.push(snippet.text.slice(position));
+  return <>{parts}</>;
+}
+
+type QueueSortKey =
+  "createdAt" | "submittedAt" | "workPerformedAt" | "decisionAt" | "amount" | "projectId" | "contractor" | "slaDueAt";
+
+const sortOptions: { value: QueueSortKey; label: string }[] = [
+  { value: "createdAt", label: "Created" },
+  { value: "submittedAt", label: "Submitted" },
+  { value: "workPerformedAt", label: "Work performed" },
+  { value: "decisionAt", label: "Decided" },
+  { value: "amount", label: "Requested total" },
+  { value: "projectId", label: "Project" },
+  { value: "contractor", label: "Contractor" },
+  { value: "slaDueAt", label: "Review due" },
+];
+
+const lineItemCategories = [
+  { value: "LABOR", label: "Labor", headerKey: "laborCost" },
+  { value: "MATERIAL", label: "Material", headerKey: "materialCost" },
+  { value: "OTHER", label: "Other", headerKey: "additionalCharges" },
+] as const;
+
+// Amounts arrive as integer cents; format them without going through floating-point dollars.
+// Only a running clock can be overdue; the server sends no due time once the status leaves NEW or IN_REVIEW.
+function isPastDue(sla: ReviewSla | undefined): boolean {
+  return !!sla?.status && !!sla.dueAt && new Date(sla.dueAt).getTime() <= Date.now();
+}
+
+function formatMoney(value: Money | undefined): string {
+  const cents = value?.amountCents ?? 0;
+  const abs = Math.abs(cents);
+  const amount = `${cents < 0 ? "-" : ""}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+  return !value || value.currency === "USD" ? `$${amount}` : `${amount} ${value.currency}`;
+}
+
+// Extended line price in cents: the quantity is scaled to an integer and the result rounded half-up.
+function lineItemCents(lineItem: QueueLineItem): number {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(String(lineItem.quantity));
+  if (!match) {
+    return 0;
+  }
+  const fraction = match[2] ?? "";
+  const scale = 10n ** BigInt(fraction.length);
+  return Number(
+    (BigInt(lineItem.unitPrice.amountCents) * BigInt(`${match[1]}${fraction}`) * 2n + scale) / (scale * 2n),
+  );
+}
+
+// Cents for a typed dollar amount, or null when it is not a plain amount with at most 2 decimals.
+function amountToCents(text: string): number | null {
+  const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(text.trim());
+  return match ? Number(match[1]) * 100 + Number((match[2] ?? "").padEnd(2, "0")) : null;
+}
+
+// Rolls line items up by cost category next to the header amount each category should match.
+function getCostBreakdown(input: QueueItemInput) {
+  const lineItems = input.lineItems ?? [];
+  return lineItemCategories.map((category) => {
+    const header = input[category.headerKey];
+    const lineItemTotal = lineItems
+      .filter((lineItem) => (lineItem.category ?? "MATERIAL") === category.value)
+      .reduce((sum, lineItem) => sum + lineItemCents(lineItem), 0);
+    const difference = lineItemTotal - header.amountCents;
+    return {
+      ...category,
+      lineItemTotal: { amountCents: lineItemTotal, currency: header.currency },
+      headerAmount: header,
+      difference: { amountCents: difference, currency: header.currency },
+    };
+  });
+}
+
+const teamStatuses: TeamQueueStatus[] = [
+  "NEW",
+  "IN_REVIEW",
+  "NEEDS_INFO",
+  "PENDING_SECOND_APPROVAL",
+  "APPROVED",
+  "PARTIALLY_APPROVED",
+  "DENIED",
+];
+const decisionStatuses: DecisionStatus[] = [
+  "PENDING",
+  "NEEDS_INFO",
+  "PENDING_SECOND_APPROVAL",
+  "APPROVED",
+  "PARTIALLY_APPROVED",
+  "DENIED",
 ];
+const lineItemOutcomes: LineItemOutcome[] = ["APPROVED", "ADJUSTED", "DENIED"];
+
+type SessionUser = {
+  id: string;
+  email: string;
+  name: string;
+  roles: ("CONTRACTOR" | "REVIEWER" | "APPROVER" | "DIRECTOR")[];
+};
+
+type LineDecisionDraft = {
+  outcome: LineItemOutcome;
+  approvedAmount: string;
+  reasonCode: DenialReasonCode;
+  note: string;
+};
+
+const defaultLineDecision: LineDecisionDraft = {
+  outcome: "APPROVED",
+  approvedAmount: "",
+  reasonCode: "PRICING_NOT_JUSTIFIED",
+  note: "",
+};
 
 type DraftDecision = {
   action: DecisionAction;
-  decidedBy: string;
   approvedAmount: string;
+  // Keyed by line item index; lines without an entry are approved as requested.
+  lineDecisions: Record<number, LineDecisionDraft>;
   denialReasonCode: DenialReasonCode;
   decisionExplanation: string;
   contractorFacingMessage: string;
   needsInfoChecklistText: string;
   acknowledgeLateSubmission: boolean;
+  lateAcknowledgmentReason: string;
 };
 
 const defaultDecisionDraft: DraftDecision = {
   action: "NONE",
-  decidedBy: "",
   approvedAmount: "",
+  lineDecisions: {},
   denialReasonCode: "MISSING_REQUIRED_INFO",
   decisionExplanation: "",
   contractorFacingMessage: "",
   needsInfoChecklistText: "",
   acknowledgeLateSubmission: false,
+  lateAcknowledgmentReason: "",
 };
 
 export default function TeamQueuePage() {
+  const [summaries, setSummaries] = useState<QueueSummary[]>([]);
+  const [totalMatches, setTotalMatches] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Full records of the cards that are open.
   const [items, setItems] = useState<QueueItem[]>([]);
   const [busyId, setBusyId] = useState<string | null>(null);
   const [submissionFilter, setSubmissionFilter] = useState<"ALL" | SubmissionStatus>("ALL");
   const [teamFilter, setTeamFilter] = useState<"ALL" | TeamQueueStatus>("ALL");
   const [decisionFilter, setDecisionFilter] = useState<"ALL" | DecisionStatus>("ALL");
+  const [awaitingMySignoff, setAwaitingMySignoff] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [projectFilter, setProjectFilter] = useState("ALL");
+  // "me" is the signed-in reviewer's own queue and "none" unassigned work; otherwise a reviewer id.
+  const [assigneeFilter, setAssigneeFilter] = useState("ALL");
+  const [contractorFilter, setContractorFilter] = useState("");
+  const [submittedFrom, setSubmittedFrom] = useState("");
+  const [submittedTo, setSubmittedTo] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [sortKey, setSortKey] = useState<QueueSortKey>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [searchText, setSearchText] = useState("");
+  // Snippets per item while a search is active; search results are ranked, so the sort is ignored.
+  const [searchSnippets, setSearchSnippets] = useState<Record<string, SearchSnippet[]> | null>(null);
+  // Reason being typed per item while the reopen form is open.
+  const [reopenReasons, setReopenReasons] = useState<Record<string, string>>({});
   const [decisionDrafts, setDecisionDrafts] = useState<Record<string, DraftDecision>>({});
   const [previewPhoto, setPreviewPhoto] = useState<string | null>(null);
   const [notice, setNotice] = useState<{ text: string; previewUrl?: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [histories, setHistories] = useState<Record<string, HistoryEvent[]>>({});
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [projects, setProjects] = useState<Record<string, Project>>({});
+  // Includes retired reasons so older decisions still show their titles; only active ones can be picked.
+  const [denialReasons, setDenialReasons] = useState<DenialReason[]>([]);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reassignTargets, setReassignTargets] = useState<Record<string, string>>({});
 
-  async function loadQueue() {
+  function queueQuery(cursor?: string): string {
+    const params = new URLSearchParams({ sort: sortKey, order: sortOrder });
+    const filters: [string, string][] = [
+      ["status", submissionFilter === "ALL" ? "" : submissionFilter],
+      ["teamStatus", teamFilter === "ALL" ? "" : teamFilter],
+      ["decisionStatus", decisionFilter === "ALL" ? "" : decisionFilter],
+      ["projectId", projectFilter === "ALL" ? "" : projectFilter],
+      ["assignee", assigneeFilter === "ALL" ? "" : assigneeFilter],
+      ["contractor", contractorFilter.trim()],
+      ["submittedFrom", submittedFrom],
+      ["submittedTo", submittedTo],
+      ["minAmount", minAmount.trim()],
+      ["maxAmount", maxAmount.trim()],
+      ["awaitingMySignoff", awaitingMySignoff ? "1" : ""],
+      ["overdue", overdueOnly ? "1" : ""],
+      ["q", searchText.trim()],
+      ["cursor", cursor ?? ""],
+    ];
+    for (const [name, value] of filters) {
+      if (value) {
+        params.set(name, value);
+      }
+    }
+    return params.toString();
+  }
+
+  // Without a cursor the list starts over; with one the next page is appended.
+  async function loadQueue(cursor?: string) {
     setError(null);
-    const res = await fetch("/api/change-orders");
+    const searching = searchText.trim() !== "";
+    const res = await fetch(`/api/change-orders${searching ? "/search" : ""}?${queueQuery(cursor)}`);
     if (!res.ok) {
-      setError("Could not load queue data.");
+      const body = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(body.message ?? "Could not load queue data.");
+      return;
+    }
+    if (searching) {
+      const data = (await res.json()) as {
+        results: { changeOrder: QueueSummary; snippets: SearchSnippet[] }[];
+        total: number;
+      };
+      setSummaries(data.results.map((result) => result.changeOrder));
+      setSearchSnippets(Object.fromEntries(data.results.map((result) => [result.changeOrder.id, result.snippets])));
+      setTotalMatches(data.total);
+      setNextCursor(null);
       return;
     }
-    const data = (await res.json()) as { changeOrders: QueueItem[] };
-    setItems(data.changeOrders);
+    setSearchSnippets(null);
+    const data = (await res.json()) as { changeOrders: QueueSummary[]; total: number; nextCursor: string | null };
+    setSummaries((prev) => (cursor ? [...prev, ...data.changeOrders] : data.changeOrders));
+    setTotalMatches(data.total);
+    setNextCursor(data.nextCursor);
+  }
+
+  async function openItem(itemId: string) {
+    setBusyId(itemId);
+    const res = await fetch(`/api/change-orders/${itemId}`);
+    setBusyId(null);
+    if (!res.ok) {
+      setError("Could not load the change order.");
+      return;
+    }
+    const data = (await res.json()) as { changeOrder: QueueItem };
+    setItems((prev) => [...prev.filter((entry) => entry.id !== itemId), data.changeOrder]);
+  }
+
+  function closeItem(itemId: string) {
+    setItems((prev) => prev.filter((entry) => entry.id !== itemId));
+  }
+
+  // Keeps an open record and its list row in step after an action on it.
+  function replaceItem(changeOrder: QueueItem) {
+    setItems((prev) => prev.map((entry) => (entry.id === changeOrder.id ? changeOrder : entry)));
+    setSummaries((prev) =>
+      prev.map((summary) =>
+        summary.id === changeOrder.id
+          ? {
+              ...summary,
+              teamStatus: changeOrder.teamStatus,
+              decisionStatus: changeOrder.decisionStatus,
+              approvedAmount: changeOrder.approvedAmount,
+              denialReasonTitle: changeOrder.denialReason?.title ?? changeOrder.denialReasonCode,
+              assignee: changeOrder.assignee,
+              slaStatus: changeOrder.sla?.status,
+              slaDueAt: changeOrder.sla?.dueAt,
+              isOverdue: isPastDue(changeOrder.sla),
+              slaEscalatedAt: changeOrder.sla?.escalatedAt,
+            }
+          : summary,
+      ),
+    );
+  }
+
+  async function loadProjects() {
+    const res = await fetch("/api/projects");
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as { projects: Project[] };
+    setProjects(Object.fromEntries(data.projects.map((project) => [project.id, project])));
+  }
+
+  async function loadDenialReasons() {
+    const res = await fetch("/api/denial-reasons?includeRetired=1");
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as { reasons: DenialReason[] };
+    setDenialReasons(data.reasons);
+  }
+
+  async function loadReviewers() {
+    const res = await fetch("/api/reviewers");
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as { reviewers: Reviewer[] };
+    setReviewers(data.reviewers);
+  }
+
+  async function loadSession() {
+    const res = await fetch("/api/auth/session");
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as { user: SessionUser | null };
+    setCurrentUser(data.user);
+  }
+
+  async function signOut() {
+    await fetch("/api/auth/sign-out", { method: "POST" });
+    window.location.assign("/sign-in");
   }
 
   useEffect(() => {
-    void loadQueue();
+    void loadSession();
+    void loadProjects();
+    void loadDenialReasons();
+    void loadReviewers();
   }, []);
 
-  const filtered = useMemo(() => {
-    return items.filter((item) => {
-      if (submissionFilter !== "ALL" && item.status !== submissionFilter) {
-        return false;
-      }
-      if (teamFilter !== "ALL" && item.teamStatus !== teamFilter) {
-        return false;
-      }
-      if (decisionFilter !== "ALL" && item.decisionStatus !== decisionFilter) {
-        return false;
-      }
-      return true;
+  // Reloads from the first page whenever a filter or the sort changes, once typing in text filters pauses.
+  useEffect(() => {
+    const timer = setTimeout(() => void loadQueue(), 300);
+    return () => clearTimeout(timer);
+  }, [
+    assigneeFilter,
+    awaitingMySignoff,
+    contractorFilter,
+    decisionFilter,
+    maxAmount,
+    minAmount,
+    overdueOnly,
+    projectFilter,
+    searchText,
+    sortKey,
+    sortOrder,
+    submissionFilter,
+    submittedFrom,
+    submittedTo,
+    teamFilter,
+  ]);
+
+  const activeDenialReasons = denialReasons.filter((reason) => reason.active);
+  function denialReasonTitle(code: DenialReasonCode): string {
+    return denialReasons.find((reason) => reason.code === code)?.title ?? code;
+  }
+
+  const canApprove = currentUser?.roles.some((role) => role === "APPROVER" || role === "DIRECTOR") ?? false;
+  // Approvers and directors may move anyone's work; reviewers only claim and release their own.
+  const canManageAssignments = canApprove;
+
+  // Sends the assignee this screen last showed, so a claim that lost a race comes back as a conflict.
+  async function changeAssignment(
+    entry: QueueSummary | QueueItem,
+    action: "CLAIM" | "RELEASE" | "REASSIGN",
+    userId?: string,
+  ): Promise<boolean> {
+    setBusyId(entry.id);
+    setError(null);
+    setNotice(null);
+    const res = await fetch(`/api/change-orders/${entry.id}/assignment`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ action, userId, expectedAssigneeId: entry.assignee?.userId ?? null }),
     });
-  }, [decisionFilter, items, submissionFilter, teamFilter]);
+    setBusyId(null);
+    const data = (await res.json().catch(() => ({}))) as { changeOrder?: QueueItem; message?: string };
+    if (data.changeOrder) {
+      replaceItem(data.changeOrder);
+    }
+    void loadReviewers();
+    if (!res.ok) {
+      setError(data.message ?? "Could not change the assignee.");
+      return false;
+    }
+    if (histories[entry.id]) {
+      await loadHistory(entry.id);
+    }
+    return true;
+  }
+
+  function assignmentControls(entry: QueueSummary | QueueItem) {
+    const mine = !!currentUser && entry.assignee?.userId === currentUser.id;
+    const open = entry.status === "SUBMITTED" && !entry.isFinalized;
+    const target = reassignTargets[entry.id] ?? "";
+    return (
+      <div className="row">
+        <p className="muted">
+          Assigned to: {entry.assignee ? (mine ? "You" : entry.assignee.name) : "Nobody"}
+          {entry.assignee?.assignedBy === "system" ? " (automatic)" : ""}
+        </p>
+        {open && !entry.assignee ? (
+          <button
+            type="button"
+            className="secondary"
+            disabled={busyId === entry.id}
+            onClick={() => void changeAssignment(entry, "CLAIM")}
+          >
+            Claim
+          </button>
+        ) : null}
+        {open && entry.assignee && (mine || canManageAssignments) ? (
+          <button
+            type="button"
+            className="secondary"
+            disabled={busyId === entry.id}
+            onClick={() => void changeAssignment(entry, "RELEASE")}
+          >
+            Release
+          </button>
+        ) : null}
+        {open && canManageAssignments ? (
+          <>
+            <select
+              aria-label="Reassign to"
+              value={target}
+              onChange={(e) => setReassignTargets((prev) => ({ ...prev, [entry.id]: e.target.value }))}
+            >
+              <option value="">Reassign to...</option>
+              {reviewers
+                .filter((reviewer) => reviewer.id !== entry.assignee?.userId)
+                .map((reviewer) => (
+                  <option key={reviewer.id} value={reviewer.id}>
+                    {reviewer.name} ({reviewer.openAssignments} open)
+                  </option>
+                ))}
+            </select>
+            <button
+              type="button"
+              className="secondary"
+              disabled={!target || busyId === entry.id}
+              onClick={() => void changeAssignment(entry, "REASSIGN", target)}
+            >
+              Reassign
+            </button>
+          </>
+        ) : null}
+      </div>
+    );
+  }
+
+  // Mirrors the server's signoff rules: the next step's role, and nobody signs the same approval twice.
+  function canSignOff(item: QueueItem): boolean {
+    const chain = item.approvalChain;
+    if (item.decisionStatus !== "PENDING_SECOND_APPROVAL" || !chain || !currentUser) {
+      return false;
+    }
+    const step = chain.steps[chain.signoffs.length];
+    if (!step || chain.signoffs.some((signoff) => signoff.userId === currentUser.id)) {
+      return false;
+    }
+    return step.role === "DIRECTOR" ? currentUser.roles.includes("DIRECTOR") : canApprove;
+  }
 
   async function updateQueueItem(item: QueueItem, updates: { teamStatus?: TeamQueueStatus; reviewerNotes?: string }) {
     setBusyId(item.id);
@@ -149,19 +677,74 @@ export default function TeamQueuePage() {
     }
 
     const data = (await res.json()) as { changeOrder: QueueItem };
-    setItems((prev) => prev.map((entry) => (entry.id === item.id ? data.changeOrder : entry)));
+    replaceItem(data.changeOrder);
+    if (histories[item.id]) {
+      await loadHistory(item.id);
+    }
   }
 
-  function isLate(item: QueueItem): boolean {
-    const workPerformedAt = new Date(item.input.workPerformedAt);
-    if (Number.isNaN(workPerformedAt.getTime())) {
-      return false;
+  function formatFieldValue(value: unknown): string {
+    if (value === undefined || value === null || value === "") {
+      return "-";
+    }
+    if (Array.isArray(value)) {
+      return `${value.length} item(s)`;
+    }
+    if (typeof value === "object" && "amountCents" in value) {
+      return formatMoney(value as Money);
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+
+  // Uploaded photos are attachment ids; records from before uploads existed still carry data URLs.
+  function photoUrl(photo: string, variant: "original" | "thumbnail"): string | null {
+    if (photo.startsWith("att_")) {
+      return `/api/attachments/${encodeURIComponent(photo)}${variant === "thumbnail" ? "?variant=thumbnail" : ""}`;
+    }
+    if (photo.startsWith("data:image/") || photo.startsWith("http://") || photo.startsWith("https://")) {
+      return photo;
     }
-    return Date.now() - workPerformedAt.getTime() > 24 * 60 * 60 * 1000;
+    return null;
+  }
+
+  async function loadHistory(itemId: string) {
+    const res = await fetch(`/api/change-orders/${itemId}/history`);
+    if (!res.ok) {
+      setError("Could not load history.");
+      return;
+    }
+    const data = (await res.json()) as { history: HistoryEvent[] };
+    setHistories((prev) => ({ ...prev, [itemId]: data.history }));
+  }
+
+  async function toggleHistory(item: QueueItem) {
+    if (histories[item.id]) {
+      setHistories((prev) => {
+        const next = { ...prev };
+        delete next[item.id];
+        return next;
+      });
+      return;
+    }
+    await loadHistory(item.id);
+  }
+
+  // Starts a denial that quotes the evidence flags; the reviewer can still edit everything before sending.
+  function denyForPhotoEvidence(item: QueueItem) {
+    const issues = (item.photoEvidence ?? []).flatMap((photo) => photo.flags.map((flag) => flag.message));
+    patchDraft(item.id, {
+      action: "DENY",
+      denialReasonCode: "INSUFFICIENT_PHOTO_EVIDENCE",
+      contractorFacingMessage: `The supporting photos could not be verified:\n${issues.map((issue) => `- ${issue}`).join("\n")}`,
+    });
   }
 
-  function isPreviewablePhoto(photo: string): boolean {
-    return photo.startsWith("data:image/") || photo.startsWith("http://") || photo.startsWith("https://");
+  function denyAsDuplicate(item: QueueItem, match: DuplicateMatch) {
+    patchDraft(item.id, {
+      action: "DENY",
+      denialReasonCode: "DUPLICATE_REQUEST",
+      contractorFacingMessage: `This request duplicates change order ${match.changeOrderId}, which was already submitted for the same work.`,
+    });
   }
 
   function getDraft(itemId: string): DraftDecision {
@@ -175,7 +758,48 @@ export default function TeamQueuePage() {
     }));
   }
 
+  function getLineDecision(itemId: string, lineIndex: number): LineDecisionDraft {
+    return getDraft(itemId).lineDecisions[lineIndex] ?? defaultLineDecision;
+  }
+
+  function patchLineDecision(itemId: string, lineIndex: number, partial: Partial<LineDecisionDraft>) {
+    const draft = getDraft(itemId);
+    patchDraft(itemId, {
+      lineDecisions: { ...draft.lineDecisions, [lineIndex]: { ...getLineDecision(itemId, lineIndex), ...partial } },
+    });
+  }
+
+  // Preview of the amount the server will derive; adjusted lines that are not valid amounts count as 0.
+  function lineDecisionTotal(item: QueueItem): Money {
+    const lineItems = item.input.lineItems ?? [];
+    const amountCents = lineItems.reduce((sum, lineItem, index) => {
+      const decision = getLineDecision(item.id, index);
+      if (decision.outcome === "DENIED") {
+        return sum;
+      }
+      return (
+        sum +
+        (decision.outcome === "ADJUSTED" ? (amountToCents(decision.approvedAmount) ?? 0) : lineItemCents(lineItem))
+      );
+    }, 0);
+    return { amountCents, currency: item.input.materialCost.currency };
+  }
+
   async function openAction(item: QueueItem, action: DecisionAction) {
+    // Starting a decision claims unassigned work; someone else's item needs reassigning first.
+    if (action !== "SIGN_OFF" && !item.isFinalized && item.assignee?.userId !== currentUser?.id) {
+      if (!item.assignee) {
+        if (!(await changeAssignment(item, "CLAIM"))) {
+          return;
+        }
+        patchDraft(item.id, { action });
+        return;
+      }
+      if (!canManageAssignments) {
+        setError(`This change order is assigned to ${item.assignee.name}.`);
+        return;
+      }
+    }
     patchDraft(item.id, { action });
     if (item.teamStatus === "NEW" && !item.isFinalized) {
       await updateQueueItem(item, { teamStatus: "IN_REVIEW" });
@@ -195,7 +819,6 @@ export default function TeamQueuePage() {
 
     const base = {
       action: draft.action,
-      decidedBy: draft.decidedBy.trim(),
       decisionExplanation: draft.decisionExplanation.trim(),
       contractorFacingMessage: draft.contractorFacingMessage.trim(),
     };
@@ -206,22 +829,41 @@ export default function TeamQueuePage() {
       .filter(Boolean);
 
     const payload =
-      draft.action === "APPROVE"
-        ? {
-            ...base,
-            approvedAmount: Number(draft.approvedAmount),
-            acknowledgeLateSubmission: draft.acknowledgeLateSubmission,
-            isLate: isLate(item),
-          }
-        : draft.action === "DENY"
+      draft.action === "SIGN_OFF"
+        ? { action: "SIGN_OFF", note: draft.decisionExplanation.trim() }
+        : draft.action === "APPROVE"
           ? {
               ...base,
-              denialReasonCode: draft.denialReasonCode,
+              // Sent as typed so the server parses the exact decimal into cents.
+              approvedAmount: draft.approvedAmount.trim(),
+              acknowledgeLateSubmission: draft.acknowledgeLateSubmission,
+              lateAcknowledgmentReason: draft.lateAcknowledgmentReason.trim(),
             }
-          : {
-              ...base,
-              needsInfoChecklist,
-            };
+          : draft.action === "DECIDE_LINE_ITEMS"
+            ? {
+                ...base,
+                lineItemDecisions: (item.input.lineItems ?? []).map((_, lineIndex) => {
+                  const decision = getLineDecision(item.id, lineIndex);
+                  return {
+                    lineIndex,
+                    outcome: decision.outcome,
+                    approvedAmount: decision.outcome === "ADJUSTED" ? decision.approvedAmount.trim() : undefined,
+                    reasonCode: decision.outcome === "APPROVED" ? undefined : decision.reasonCode,
+                    note: decision.note.trim(),
+                  };
+                }),
+                acknowledgeLateSubmission: draft.acknowledgeLateSubmission,
+                lateAcknowledgmentReason: draft.lateAcknowledgmentReason.trim(),
+              }
+            : draft.action === "DENY"
+              ? {
+                  ...base,
+                  denialReasonCode: draft.denialReasonCode,
+                }
+              : {
+                  ...base,
+                  needsInfoChecklist,
+                };
 
     const res = await fetch(`/api/change-orders/${item.id}/decision`, {
       method: "POST",
@@ -238,11 +880,14 @@ export default function TeamQueuePage() {
 
     const data = (await res.json()) as {
       changeOrder: QueueItem;
-      emailStatus?: "SENT" | "FAILED";
+      emailStatus?: "SENT" | "FAILED" | "PENDING";
       emailPreviewUrl?: string;
     };
-    setItems((prev) => prev.map((entry) => (entry.id === item.id ? data.changeOrder : entry)));
+    replaceItem(data.changeOrder);
     patchDraft(item.id, { action: "NONE" });
+    if (histories[item.id]) {
+      await loadHistory(item.id);
+    }
 
     if (data.emailStatus === "SENT") {
       setNotice({
@@ -251,6 +896,79 @@ export default function TeamQueuePage() {
       });
     } else if (data.emailStatus === "FAILED") {
       setError("Decision saved, but contractor email failed to send.");
+    } else if (data.emailStatus === "PENDING") {
+      setNotice({ text: "Decision saved. The contractor email could not be sent yet and will be retried." });
+    }
+  }
+
+  async function reopenItem(item: QueueItem) {
+    const reason = (reopenReasons[item.id] ?? "").trim();
+    if (!reason) {
+      setError("Explain why the decision is being reopened.");
+      return;
+    }
+
+    setBusyId(item.id);
+    setError(null);
+    setNotice(null);
+    const res = await fetch(`/api/change-orders/${item.id}/reopen`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ reason }),
+    });
+    setBusyId(null);
+
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(body.message ?? "Could not reopen decision.");
+      return;
+    }
+
+    const data = (await res.json()) as {
+      changeOrder: QueueItem;
+      emailStatus?: "SENT" | "FAILED" | "PENDING";
+      emailPreviewUrl?: string;
+    };
+    replaceItem(data.changeOrder);
+    setReopenReasons(({ [item.id]: _closed, ...rest }) => rest);
+    if (histories[item.id]) {
+      await loadHistory(item.id);
+    }
+    if (data.emailStatus === "FAILED") {
+      setError("Decision reopened, but the contractor email failed to send.");
+    } else {
+      setNotice({ text: "Decision reopened and contractor notified.", previewUrl: data.emailPreviewUrl });
+    }
+  }
+
+  async function resendEmail(item: QueueItem) {
+    setBusyId(item.id);
+    setError(null);
+    setNotice(null);
+    const res = await fetch(`/api/change-orders/${item.id}/resend-email`, { method: "POST" });
+    setBusyId(null);
+
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(body.message ?? "Could not resend the decision email.");
+      return;
+    }
+
+    const data = (await res.json()) as {
+      changeOrder: QueueItem;
+      emailStatus?: "SENT" | "FAILED" | "PENDING";
+      emailPreviewUrl?: string;
+    };
+    replaceItem(data.changeOrder);
+    if (histories[item.id]) {
+      await loadHistory(item.id);
+    }
+    if (data.emailStatus === "SENT") {
+      setNotice({ text: "Decision email resent.", previewUrl: data.emailPreviewUrl });
+    } else if (data.emailStatus === "FAILED") {
+      setError("The decision email failed to send again.");
+    } else {
+      setNotice({ text: "The decision email could not be sent yet and will be retried." });
     }
   }
 
@@ -268,10 +986,28 @@ export default function TeamQueuePage() {
           <Link href="/change-order-poc" className="secondary nav-link">
             Contractor view
           </Link>
+          {currentUser ? (
+            <span className="muted">
+              Signed in as {currentUser.email} ({currentUser.roles.join(", ")}){" "}
+              <button type="button" className="secondary" onClick={() => void signOut()}>
+                Sign out
+              </button>
+            </span>
+          ) : null}
           <button type="button" className="primary" onClick={() => void loadQueue()}>
             Refresh queue
           </button>
         </div>
+        <div>
+          <label htmlFor="queueSearch">Search</label>
+          <input
+            id="queueSearch"
+            type="search"
+            placeholder="Scope, justification, line items, notes or contractor"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+          />
+        </div>
         <div className="row">
           <div>
             <label htmlFor="submissionFilter">Submission status</label>
@@ -284,6 +1020,7 @@ export default function TeamQueuePage() {
               <option value="SUBMITTED">Submitted</option>
               <option value="BLOCKED">Blocked</option>
               <option value="DRAFT">Draft</option>
+              <option value="EXPIRED">Expired</option>
             </select>
           </div>
           <div>
@@ -316,6 +1053,111 @@ export default function TeamQueuePage() {
               ))}
             </select>
           </div>
+          <div>
+            <label>
+              <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} /> Overdue
+              only
+            </label>
+          </div>
+          {canApprove ? (
+            <div>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={awaitingMySignoff}
+                  onChange={(e) => setAwaitingMySignoff(e.target.checked)}
+                />{" "}
+                Awaiting my signoff
+              </label>
+            </div>
+          ) : null}
+        </div>
+        <div className="row">
+          <div>
+            <label htmlFor="assigneeFilter">Assigned to</label>
+            <select id="assigneeFilter" value={assigneeFilter} onChange={(e) => setAssigneeFilter(e.target.value)}>
+              <option value="ALL">Everyone</option>
+              <option value="me">My queue</option>
+              <option value="none">Unassigned</option>
+              {reviewers.map((reviewer) => (
+                <option key={reviewer.id} value={reviewer.id}>
+                  {reviewer.name} ({reviewer.openAssignments} open)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="projectFilter">Project</label>
+            <select id="projectFilter" value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
+              <option value="ALL">All</option>
+              {Object.values(projects).map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.id} - {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="contractorFilter">Contractor name or email</label>
+            <input
+              id="contractorFilter"
+              value={contractorFilter}
+              onChange={(e) => setContractorFilter(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="submittedFrom">Submitted from</label>
+            <input
+              id="submittedFrom"
+              type="date"
+              value={submittedFrom}
+              onChange={(e) => setSubmittedFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="submittedTo">Submitted to</label>
+            <input id="submittedTo" type="date" value={submittedTo} onChange={(e) => setSubmittedTo(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="minAmount">Minimum total ($)</label>
+            <input
+              id="minAmount"
+              inputMode="decimal"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="maxAmount">Maximum total ($)</label>
+            <input
+              id="maxAmount"
+              inputMode="decimal"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="sortKey">Sort by</label>
+            <select
+              id="sortKey"
+              value={sortKey}
+              disabled={searchSnippets !== null}
+              onChange={(e) => setSortKey(e.target.value as QueueSortKey)}
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="sortOrder">Order</label>
+            <select id="sortOrder" value={sortOrder} onChange={(e) => setSortOrder(e.target.value as "asc" | "desc")}>
+              <option value="desc">Newest / largest first</option>
+              <option value="asc">Oldest / smallest first</option>
+            </select>
+          </div>
         </div>
       </section>
 
@@ -335,44 +1177,197 @@ export default function TeamQueuePage() {
       ) : null}
 
       <section>
-        <h2>Queue items ({filtered.length})</h2>
-        {filtered.length === 0 ? <p className="muted">No submissions match the current filters.</p> : null}
+        <h2>Queue items ({totalMatches})</h2>
+        {searchSnippets !== null && totalMatches > summaries.length ? (
+          <p className="muted">
+            Showing the {summaries.length} best matches. Narrow the search or filters to see the rest.
+          </p>
+        ) : null}
+        {summaries.length === 0 ? <p className="muted">No submissions match the current filters.</p> : null}
         <div className="queue-list">
-          {filtered.map((item) => {
+          {summaries.map((summary) => {
+            const item = items.find((entry) => entry.id === summary.id);
+            if (!item) {
+              return (
+                <article key={summary.id} id={`co-${summary.id}`} className="queue-card">
+                  <div className="queue-head">
+                    <h3>{summary.projectId}</h3>
+                    {summary.isOverdue ? <span className="queue-badge overdue">Overdue</span> : null}
+                    <span className="queue-badge">{summary.decisionStatus}</span>
+                  </div>
+                  <p className="muted">Contractor: {summary.contractorName || "-"}</p>
+                  <p className="muted">
+                    Submitted: {summary.submittedAt ? new Date(summary.submittedAt).toLocaleString() : "-"}
+                  </p>
+                  <p className="muted">
+                    Submission status: {summary.status} - Team status: {summary.teamStatus}
+                  </p>
+                  {summary.slaDueAt ? (
+                    <p className="muted">
+                      Review due: {new Date(summary.slaDueAt).toLocaleString()}
+                      {summary.slaEscalatedAt ? " - escalated" : ""}
+                    </p>
+                  ) : null}
+                  <p className="muted">
+                    Total: {formatMoney(summary.totalRequested)}
+                    {summary.approvedAmount ? ` - approved ${formatMoney(summary.approvedAmount)}` : ""}
+                  </p>
+                  <p className="muted">Scope: {summary.scope}</p>
+                  {searchSnippets?.[summary.id]?.map((snippet) => (
+                    <p key={snippet.field} className="muted">
+                      {searchFieldLabels[snippet.field] ?? snippet.field}: <SnippetText snippet={snippet} />
+                    </p>
+                  ))}
+                  {summary.isLate ? <p className="muted">Late submission</p> : null}
+                  {summary.denialReasonTitle ? (
+                    <p className="muted">Denial reason: {summary.denialReasonTitle}</p>
+                  ) : null}
+                  {summary.pendingSignoffStep ? (
+                    <p className="muted">Waiting for signoff: {summary.pendingSignoffStep}</p>
+                  ) : null}
+                  {summary.flaggedPhotoCount > 0 ? (
+                    <p className="muted">{summary.flaggedPhotoCount} photo(s) flagged</p>
+                  ) : null}
+                  {summary.duplicateScore !== undefined ? (
+                    <p className="muted">Possible duplicate ({Math.round(summary.duplicateScore * 100)}% similar)</p>
+                  ) : null}
+                  {assignmentControls(summary)}
+                  <button
+                    type="button"
+                    className="secondary"
+                    disabled={busyId === summary.id}
+                    onClick={() => void openItem(summary.id)}
+                  >
+                    Open
+                  </button>
+                </article>
+              );
+            }
             const requestedInfo = item.needsInfoChecklist ?? [];
-            const total =
-              Number(item.input.materialCost || 0) +
-              Number(item.input.laborCost || 0) +
-              Number(item.input.additionalCharges || 0);
+            const total: Money = {
+              amountCents:
+                item.input.materialCost.amountCents +
+                item.input.laborCost.amountCents +
+                item.input.additionalCharges.amountCents,
+              currency: item.input.materialCost.currency,
+            };
+            const project = projects[item.input.projectId];
+            const hasEvidenceFlags = (item.photoEvidence ?? []).some((photo) => photo.flags.length > 0);
+            const topDuplicate = item.duplicateMatches?.[0];
             return (
-              <article key={item.id} className="queue-card">
+              <article key={item.id} id={`co-${item.id}`} className="queue-card">
                 <div className="queue-head">
                   <h3>{item.input.projectId}</h3>
+                  {isPastDue(item.sla) ? <span className="queue-badge overdue">Overdue</span> : null}
                   <span className="queue-badge">{item.decisionStatus}</span>
+                  <button type="button" className="secondary" onClick={() => closeItem(item.id)}>
+                    Close
+                  </button>
                 </div>
+                {project ? (
+                  <p className="muted">
+                    {project.name}
+                    {project.address ? ` - ${project.address}` : ""} - contract {formatMoney(project.contractValue)}
+                  </p>
+                ) : (
+                  <p className="muted">Project not in registry</p>
+                )}
                 <p className="muted">Contractor: {item.input.contractorName || "-"}</p>
                 <p className="muted">Contractor email: {item.input.contractorEmail || "-"}</p>
                 <p className="muted">Submitted: {item.submittedAt ? new Date(item.submittedAt).toLocaleString() : "-"}</p>
                 <p className="muted">Submission status: {item.status}</p>
-                <p className="muted">Total: ${total.toFixed(2)}</p>
+                <p className="muted">Total: {formatMoney(total)}</p>
+                {item.input.isMultiItem && item.input.lineItems?.length ? (
+                  <div className="turnkey-compare">
+                    <p className="muted">
+                      <strong>Line items</strong>
+                    </p>
+                    <ul>
+                      {item.input.lineItems.map((lineItem, index) => (
+                        <li key={`${item.id}-line-${index + 1}`}>
+                          {lineItem.description || "-"} ({lineItem.category ?? "MATERIAL"}): {lineItem.quantity}{" "}
+                          {lineItem.unitLabel || item.input.unitLabel} x {formatMoney(lineItem.unitPrice)}
+                        </li>
+                      ))}
+                    </ul>
+                    <table className="cost-breakdown">
+                      <thead>
+                        <tr>
+                          <th>Category</th>
+                          <th>Line items</th>
+                          <th>Pricing</th>
+                          <th>Difference</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {getCostBreakdown(item.input).map((row) => (
+                          <tr key={row.value} className={row.difference.amountCents !== 0 ? "mismatch" : undefined}>
+                            <td>{row.label}</td>
+                            <td>{formatMoney(row.lineItemTotal)}</td>
+                            <td>{formatMoney(row.headerAmount)}</td>
+                            <td>{formatMoney(row.difference)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
                 <p className="muted">Photos: {item.input.photos.length}</p>
                 <p className="muted">Scope: {item.input.scope || "-"}</p>
                 <p className="muted">Team status: {item.teamStatus}</p>
+                {item.sla?.status && item.sla.dueAt ? (
+                  <p className="muted">
+                    Review due: {new Date(item.sla.dueAt).toLocaleString()} ({item.sla.status})
+                    {item.sla.escalatedAt ? ` - escalated ${new Date(item.sla.escalatedAt).toLocaleString()}` : ""}
+                  </p>
+                ) : null}
                 <p className="muted">Decision status: {item.decisionStatus}</p>
-                {isLate(item) ? <p className="muted">Late submission: Yes (&gt;24h)</p> : null}
+                {assignmentControls(item)}
+                <div className="turnkey-compare">
+                  <div>
+                    <p className="muted">
+                      <strong>Why not in turn-key (contractor)</strong>
+                    </p>
+                    <p>{item.input.whyNotInTurnKey || "-"}</p>
+                  </div>
+                  <div>
+                    <p className="muted">
+                      <strong>Project turn-key scope</strong>
+                    </p>
+                    {project && project.turnKeyScope.length > 0 ? (
+                      <ul>
+                        {project.turnKeyScope.map((scopeItem) => (
+                          <li key={scopeItem}>{scopeItem}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="muted">No turn-key scope recorded.</p>
+                    )}
+                  </div>
+                </div>
+                {item.isLate ? (
+                  <p className="muted">
+                    Late submission: Yes{item.policyName ? ` (outside the window set by ${item.policyName})` : ""}
+                  </p>
+                ) : null}
 
                 {item.input.photos.length > 0 ? (
                   <div className="photo-grid">
                     {item.input.photos.map((photo, index) => (
-                      isPreviewablePhoto(photo) ? (
+                      photoUrl(photo, "thumbnail") ? (
                         <button
                           type="button"
                           key={`${item.id}-photo-${index + 1}`}
-                          onClick={() => setPreviewPhoto(photo)}
+                          onClick={() => setPreviewPhoto(photoUrl(photo, "original"))}
                           className="photo-tile photo-button"
                           aria-label={`Preview submission photo ${index + 1}`}
                         >
-                          <img src={photo} alt={`Submission photo ${index + 1}`} className="photo-thumb" />
+                          <img
+                            src={photoUrl(photo, "thumbnail") ?? undefined}
+                            alt={`Submission photo ${index + 1}`}
+                            className="photo-thumb"
+                            loading="lazy"
+                          />
                         </button>
                       ) : (
                         <div key={`${item.id}-photo-${index + 1}`} className="photo-tile photo-tile-fallback">
@@ -383,6 +1378,66 @@ export default function TeamQueuePage() {
                   </div>
                 ) : null}
 
+                {item.photoEvidence?.length ? (
+                  <div className={hasEvidenceFlags ? "evidence-block flagged" : "evidence-block"}>
+                    <strong>Photo evidence</strong>
+                    <ul>
+                      {item.photoEvidence.map((photo, index) => (
+                        <li key={photo.attachmentId}>
+                          Photo {index + 1}: taken{" "}
+                          {photo.capturedAt ? new Date(photo.capturedAt).toLocaleString() : "at an unknown time"}
+                          {photo.device ? ` on ${photo.device}` : ""}
+                          {photo.distanceMeters !== undefined ? `, ${photo.distanceMeters} m from the project` : ""}
+                          {photo.flags.length > 0 ? (
+                            <ul>
+                              {photo.flags.map((flag) => (
+                                <li key={flag.code} className="evidence-flag">
+                                  {flag.message}
+                                  {flag.code === "DUPLICATE_PHOTO" && photo.duplicates.length > 0
+                                    ? ` (${[...new Set(photo.duplicates.map((duplicate) => duplicate.changeOrderId))].join(", ")})`
+                                    : ""}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : null}
+                        </li>
+                      ))}
+                    </ul>
+                    {!item.isFinalized && hasEvidenceFlags ? (
+                      <button type="button" className="secondary" onClick={() => denyForPhotoEvidence(item)}>
+                        Deny for insufficient photo evidence
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {item.duplicateMatches && topDuplicate ? (
+                  <div className="evidence-block flagged">
+                    <strong>Possible duplicates</strong>
+                    <ul>
+                      {item.duplicateMatches.map((match) => (
+                        <li key={match.changeOrderId}>
+                          <a href={`#co-${match.changeOrderId}`}>{match.changeOrderId}</a> -{" "}
+                          {Math.round(match.score * 100)}% similar
+                          {match.submittedAt ? `, submitted ${new Date(match.submittedAt).toLocaleString()}` : ""}
+                          <ul>
+                            {match.reasons.map((reason) => (
+                              <li key={reason} className="evidence-flag">
+                                {reason}
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                    {!item.isFinalized ? (
+                      <button type="button" className="secondary" onClick={() => denyAsDuplicate(item, topDuplicate)}>
+                        Deny as duplicate of {topDuplicate.changeOrderId}
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+
                 {item.blockingReasons?.length ? (
                   <div className="alert error">
                     <strong>Blocked reasons:</strong>
@@ -394,6 +1449,48 @@ export default function TeamQueuePage() {
                   </div>
                 ) : null}
 
+                {item.revisions?.length ? (
+                  <div className="revision-block">
+                    <h4>Resubmitted after info request (version {item.revisions.length + 1})</h4>
+                    <p className="muted">
+                      Resubmitted: {item.resubmittedAt ? new Date(item.resubmittedAt).toLocaleString() : "-"}
+                    </p>
+                    {item.checklistResponses?.length ? (
+                      <ul>
+                        {item.checklistResponses.map((entry) => (
+                          <li key={entry.item}>
+                            <strong>{entry.item}</strong>: {entry.response}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {item.revisions.map((revision) => {
+                      const nextInput =
+                        item.revisions?.find((entry) => entry.version === revision.version + 1)?.input ?? item.input;
+                      return (
+                        <details key={`${item.id}-revision-${revision.version}`}>
+                          <summary>
+                            Changes from version {revision.version}
+                            {revision.requestedBy ? ` (info requested by ${revision.requestedBy})` : ""}
+                          </summary>
+                          {revision.changedFields.length === 0 ? (
+                            <p className="muted">No field changes, responses only.</p>
+                          ) : (
+                            <ul>
+                              {revision.changedFields.map((field) => (
+                                <li key={field}>
+                                  {field}: {formatFieldValue(revision.input[field])} →{" "}
+                                  {formatFieldValue(nextInput[field])}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </details>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
                 <div className="decision-actions">
                   <button
                     type="button"
@@ -403,14 +1500,42 @@ export default function TeamQueuePage() {
                   >
                     Request info
                   </button>
-                  <button
-                    type="button"
-                    className="primary"
-                    onClick={() => void openAction(item, "APPROVE")}
-                    disabled={busyId === item.id || item.isFinalized || item.status !== "SUBMITTED"}
-                  >
-                    Approve
-                  </button>
+                  {item.decisionStatus === "PENDING_SECOND_APPROVAL" ? (
+                    <button
+                      type="button"
+                      className="primary"
+                      onClick={() => void openAction(item, "SIGN_OFF")}
+                      disabled={busyId === item.id || !canSignOff(item)}
+                      title={
+                        canSignOff(item) ? undefined : "The next signoff needs a different approver or a director."
+                      }
+                    >
+                      Sign off
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="primary"
+                      onClick={() => void openAction(item, "APPROVE")}
+                      disabled={busyId === item.id || item.isFinalized || item.status !== "SUBMITTED" || !canApprove}
+                      title={canApprove ? undefined : "Only approvers can approve change orders."}
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {item.input.isMultiItem &&
+                  item.input.lineItems?.length &&
+                  item.decisionStatus !== "PENDING_SECOND_APPROVAL" ? (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => void openAction(item, "DECIDE_LINE_ITEMS")}
+                      disabled={busyId === item.id || item.isFinalized || item.status !== "SUBMITTED" || !canApprove}
+                      title={canApprove ? undefined : "Only approvers can approve change orders."}
+                    >
+                      Decide per line
+                    </button>
+                  ) : null}
                   <button
                     type="button"
                     className="secondary"
@@ -426,15 +1551,8 @@ export default function TeamQueuePage() {
                     {getDraft(item.id).action !== "NONE" ? (
                       <div className="decision-panel">
                         <h4>Decision: {getDraft(item.id).action}</h4>
+                        <p className="muted">Deciding as {currentUser?.email ?? "-"}</p>
                         <div className="row">
-                          <div>
-                            <label htmlFor={`${item.id}-decidedBy`}>Decided by</label>
-                            <input
-                              id={`${item.id}-decidedBy`}
-                              value={getDraft(item.id).decidedBy}
-                              onChange={(e) => patchDraft(item.id, { decidedBy: e.target.value })}
-                            />
-                          </div>
                           {getDraft(item.id).action === "APPROVE" ? (
                             <div>
                               <label htmlFor={`${item.id}-approvedAmount`}>Approved amount</label>
@@ -458,15 +1576,98 @@ export default function TeamQueuePage() {
                                   patchDraft(item.id, { denialReasonCode: e.target.value as DenialReasonCode })
                                 }
                               >
-                                {denialReasonCodes.map((reason) => (
-                                  <option key={reason} value={reason}>
-                                    {reason}
+                                {activeDenialReasons.map((reason) => (
+                                  <option key={reason.code} value={reason.code}>
+                                    {reason.title}
                                   </option>
                                 ))}
                               </select>
                             </div>
                           ) : null}
                         </div>
+                        {getDraft(item.id).action === "DECIDE_LINE_ITEMS" ? (
+                          <div className="line-decisions">
+                            {(item.input.lineItems ?? []).map((lineItem, index) => {
+                              const decision = getLineDecision(item.id, index);
+                              const fieldId = `${item.id}-line-${index}`;
+                              return (
+                                <div key={fieldId} className="line-decision">
+                                  <p>
+                                    <strong>{lineItem.description || `Line item ${index + 1}`}</strong> - requested{" "}
+                                    {formatMoney({
+                                      amountCents: lineItemCents(lineItem),
+                                      currency: lineItem.unitPrice.currency,
+                                    })}
+                                  </p>
+                                  <div className="row">
+                                    <div>
+                                      <label htmlFor={`${fieldId}-outcome`}>Outcome</label>
+                                      <select
+                                        id={`${fieldId}-outcome`}
+                                        value={decision.outcome}
+                                        onChange={(e) =>
+                                          patchLineDecision(item.id, index, {
+                                            outcome: e.target.value as LineItemOutcome,
+                                          })
+                                        }
+                                      >
+                                        {lineItemOutcomes.map((outcome) => (
+                                          <option key={outcome} value={outcome}>
+                                            {outcome}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    </div>
+                                    {decision.outcome === "ADJUSTED" ? (
+                                      <div>
+                                        <label htmlFor={`${fieldId}-amount`}>Approved amount</label>
+                                        <input
+                                          id={`${fieldId}-amount`}
+                                          type="number"
+                                          min={0}
+                                          step="0.01"
+                                          value={decision.approvedAmount}
+                                          onChange={(e) =>
+                                            patchLineDecision(item.id, index, { approvedAmount: e.target.value })
+                                          }
+                                        />
+                                      </div>
+                                    ) : null}
+                                    {decision.outcome !== "APPROVED" ? (
+                                      <div>
+                                        <label htmlFor={`${fieldId}-reason`}>Reason</label>
+                                        <select
+                                          id={`${fieldId}-reason`}
+                                          value={decision.reasonCode}
+                                          onChange={(e) =>
+                                            patchLineDecision(item.id, index, {
+                                              reasonCode: e.target.value as DenialReasonCode,
+                                            })
+                                          }
+                                        >
+                                          {activeDenialReasons.map((reason) => (
+                                            <option key={reason.code} value={reason.code}>
+                                              {reason.title}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      </div>
+                                    ) : null}
+                                    <div>
+                                      <label htmlFor={`${fieldId}-note`}>Note (optional)</label>
+                                      <input
+                                        id={`${fieldId}-note`}
+                                        value={decision.note}
+                                        onChange={(e) => patchLineDecision(item.id, index, { note: e.target.value })}
+                                      />
+                                    </div>
+                                  </div>
+                                </div>
+                              );
+                            })}
+                            <p className="muted">Approved amount: {formatMoney(lineDecisionTotal(item))}</p>
+                          </div>
+                        ) : null}
                         {getDraft(item.id).action === "NEEDS_INFO" ? (
                           <>
                             <label htmlFor={`${item.id}-needsInfoChecklist`}>Missing items (one per line)</label>
@@ -477,30 +1678,43 @@ export default function TeamQueuePage() {
                             />
                           </>
                         ) : null}
-                        <label htmlFor={`${item.id}-decisionExplanation`}>Internal explanation</label>
+                        <label htmlFor={`${item.id}-decisionExplanation`}>
+                          {getDraft(item.id).action === "SIGN_OFF" ? "Signoff note (optional)" : "Internal explanation"}
+                        </label>
                         <textarea
                           id={`${item.id}-decisionExplanation`}
                           value={getDraft(item.id).decisionExplanation}
                           onChange={(e) => patchDraft(item.id, { decisionExplanation: e.target.value })}
                         />
-                        <label htmlFor={`${item.id}-contractorMessage`}>Contractor-facing message (optional)</label>
-                        <textarea
-                          id={`${item.id}-contractorMessage`}
-                          value={getDraft(item.id).contractorFacingMessage}
-                          onChange={(e) => patchDraft(item.id, { contractorFacingMessage: e.target.value })}
-                        />
+                        {getDraft(item.id).action !== "SIGN_OFF" ? (
+                          <>
+                            <label htmlFor={`${item.id}-contractorMessage`}>Contractor-facing message (optional)</label>
+                            <textarea
+                              id={`${item.id}-contractorMessage`}
+                              value={getDraft(item.id).contractorFacingMessage}
+                              onChange={(e) => patchDraft(item.id, { contractorFacingMessage: e.target.value })}
+                            />
+                          </>
+                        ) : null}
 
-                        {getDraft(item.id).action === "APPROVE" && isLate(item) ? (
-                          <label>
-                            <input
-                              type="checkbox"
-                              checked={getDraft(item.id).acknowledgeLateSubmission}
-                              onChange={(e) =>
-                                patchDraft(item.id, { acknowledgeLateSubmission: e.target.checked })
-                              }
-                            />{" "}
-                            I acknowledge this late submission (&gt;24h) is being approved as an exception.
-                          </label>
+                        {(getDraft(item.id).action === "APPROVE" || getDraft(item.id).action === "DECIDE_LINE_ITEMS") &&
+                        item.isLate ? (
+                          <>
+                            <label>
+                              <input
+                                type="checkbox"
+                                checked={getDraft(item.id).acknowledgeLateSubmission}
+                                onChange={(e) => patchDraft(item.id, { acknowledgeLateSubmission: e.target.checked })}
+                              />{" "}
+                              I acknowledge this late submission is being approved as an exception.
+                            </label>
+                            <label htmlFor={`${item.id}-lateReason`}>Why is this exception justified?</label>
+                            <textarea
+                              id={`${item.id}-lateReason`}
+                              value={getDraft(item.id).lateAcknowledgmentReason}
+                              onChange={(e) => patchDraft(item.id, { lateAcknowledgmentReason: e.target.value })}
+                            />
+                          </>
                         ) : null}
 
                         <div className="button-row">
@@ -526,14 +1740,78 @@ export default function TeamQueuePage() {
                   </>
                 ) : null}
 
+                {item.decisionReversals?.length ? (
+                  <div className="revision-block">
+                    <h4>Reopened decisions</h4>
+                    <ul>
+                      {item.decisionReversals.map((reversal) => (
+                        <li key={reversal.reopenedAt}>
+                          {reversal.previousDecisionStatus}
+                          {reversal.previousApprovedAmount ? ` (${formatMoney(reversal.previousApprovedAmount)})` : ""}
+                          {reversal.previousDenialReasonCode
+                            ? ` (${denialReasonTitle(reversal.previousDenialReasonCode)})`
+                            : ""}{" "}
+                          reopened by {reversal.reopenedBy} on {new Date(reversal.reopenedAt).toLocaleString()}:{" "}
+                          {reversal.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+
                 {item.decisionStatus !== "PENDING" ? (
                   <div className="decision-summary">
                     <h4>Decision summary</h4>
                     <p className="muted">Outcome: {item.decisionStatus}</p>
                     <p className="muted">Decided by: {item.decisionBy || "-"}</p>
                     <p className="muted">Decided at: {item.decisionAt ? new Date(item.decisionAt).toLocaleString() : "-"}</p>
-                    {item.approvedAmount !== undefined ? <p className="muted">Approved amount: ${item.approvedAmount.toFixed(2)}</p> : null}
-                    {item.denialReasonCode ? <p className="muted">Denial reason: {item.denialReasonCode}</p> : null}
+                    {item.approvedAmount !== undefined ? <p className="muted">Approved amount: {formatMoney(item.approvedAmount)}</p> : null}
+                    {item.approvalChain ? (
+                      <>
+                        <p className="muted">Approval signoffs:</p>
+                        <ul>
+                          {item.approvalChain.steps.map((step, index) => {
+                            const signoff = item.approvalChain?.signoffs[index];
+                            return (
+                              <li key={step.name}>
+                                {step.name} ({step.role}):{" "}
+                                {signoff
+                                  ? `${signoff.signedBy} on ${new Date(signoff.signedAt).toLocaleString()}${signoff.note ? ` - ${signoff.note}` : ""}`
+                                  : "waiting"}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </>
+                    ) : null}
+                    {item.lineItemDecisions?.length ? (
+                      <>
+                        <p className="muted">Line item decisions:</p>
+                        <ul>
+                          {item.lineItemDecisions.map((decision) => (
+                            <li key={decision.lineIndex}>
+                              {decision.description || `Line item ${decision.lineIndex + 1}`}: {decision.outcome}{" "}
+                              {formatMoney(decision.approvedAmount)} of {formatMoney(decision.requestedAmount)}
+                              {decision.reasonCode
+                                ? ` (${decision.reasonTitle ?? denialReasonTitle(decision.reasonCode)})`
+                                : ""}
+                              {decision.note ? ` - ${decision.note}` : ""}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    ) : null}
+                    {item.denialReasonCode ? (
+                      <p className="muted">
+                        Denial reason: {item.denialReason?.title ?? denialReasonTitle(item.denialReasonCode)}
+                      </p>
+                    ) : null}
+                    {item.lateAcknowledgment ? (
+                      <p className="muted">
+                        Late submission acknowledged by {item.lateAcknowledgment.acknowledgedBy} on{" "}
+                        {new Date(item.lateAcknowledgment.acknowledgedAt).toLocaleString()}: {item.lateAcknowledgment.reason}
+                      </p>
+                    ) : null}
                     {requestedInfo.length > 0 ? (
                       <>
                         <p className="muted">Requested info:</p>
@@ -566,6 +1844,59 @@ export default function TeamQueuePage() {
                         View sent email preview
                       </a>
                     ) : null}
+                    {item.decisionEmailStatus === "FAILED" || item.decisionEmailStatus === "BOUNCED" ? (
+                      <div className="button-row">
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => void resendEmail(item)}
+                          disabled={busyId === item.id}
+                        >
+                          Resend email
+                        </button>
+                      </div>
+                    ) : null}
+                    {item.isFinalized && canApprove ? (
+                      reopenReasons[item.id] === undefined ? (
+                        <div className="button-row">
+                          <button
+                            type="button"
+                            className="secondary"
+                            onClick={() => setReopenReasons((prev) => ({ ...prev, [item.id]: "" }))}
+                            disabled={busyId === item.id}
+                          >
+                            Reopen decision
+                          </button>
+                        </div>
+                      ) : (
+                        <>
+                          <label htmlFor={`${item.id}-reopenReason`}>Why is this decision being reopened?</label>
+                          <textarea
+                            id={`${item.id}-reopenReason`}
+                            value={reopenReasons[item.id]}
+                            onChange={(e) => setReopenReasons((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          />
+                          <div className="button-row">
+                            <button
+                              type="button"
+                              className="primary"
+                              onClick={() => void reopenItem(item)}
+                              disabled={busyId === item.id}
+                            >
+                              Reopen and notify contractor
+                            </button>
+                            <button
+                              type="button"
+                              className="secondary"
+                              onClick={() => setReopenReasons(({ [item.id]: _closed, ...rest }) => rest)}
+                              disabled={busyId === item.id}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </>
+                      )
+                    ) : null}
                   </div>
                 ) : null}
 
@@ -578,18 +1909,42 @@ export default function TeamQueuePage() {
                     setItems((prev) => prev.map((entry) => (entry.id === item.id ? { ...entry, reviewerNotes: value } : entry)));
                   }}
                 />
-                <button
-                  type="button"
-                  className="secondary"
-                  onClick={() => void updateQueueItem(item, { reviewerNotes: item.reviewerNotes })}
-                  disabled={busyId === item.id || item.isFinalized}
-                >
-                  Save notes
-                </button>
+                <div className="button-row">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => void updateQueueItem(item, { reviewerNotes: item.reviewerNotes })}
+                    disabled={busyId === item.id || item.isFinalized}
+                  >
+                    Save notes
+                  </button>
+                  <button type="button" className="secondary" onClick={() => void toggleHistory(item)}>
+                    {histories[item.id] ? "Hide history" : "Show history"}
+                  </button>
+                </div>
+
+                {histories[item.id] ? (
+                  <ol className="timeline">
+                    {[...histories[item.id]].reverse().map((event, index) => (
+                      <li key={`${item.id}-event-${index}`} className="timeline-entry">
+                        <span className="timeline-type">{event.type}</span>
+                        <span>{event.summary}</span>
+                        <span className="muted">
+                          {new Date(event.at).toLocaleString()} by {event.actor}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                ) : null}
               </article>
             );
           })}
         </div>
+        {nextCursor ? (
+          <button type="button" className="secondary" onClick={() => void loadQueue(nextCursor)}>
+            Load more ({totalMatches - summaries.length} remaining)
+          </button>
+        ) : null}
       </section>
 
       {previewPhoto ? (
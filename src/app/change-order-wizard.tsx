@@ -0,0 +1,1187 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+
+type NumericField = "" | `${number}`;
+
+type LineItemCategory = "LABOR" | "MATERIAL" | "OTHER";
+
+type LineItem = {
+  description: string;
+  category: LineItemCategory;
+  unitLabel: string;
+  quantity: NumericField;
+  unitPrice: NumericField;
+};
+
+type ChangeOrderForm = {
+  projectId: string;
+  contractorName: string;
+  contractorEmail: string;
+  workPerformedAt: string;
+  scope: string;
+  quantity: NumericField;
+  unitLabel: string;
+  materialCost: NumericField;
+  laborCost: NumericField;
+  additionalCharges: NumericField;
+  additionalChargesReason: string;
+  whyNeeded: string;
+  whyNotInTurnKey: string;
+  isMultiItem: boolean;
+  photos: string[];
+  lineItems: LineItem[];
+};
+
+type Money = { amountCents: number; currency: string };
+
+type MoneyKeys = "materialCost" | "laborCost" | "additionalCharges";
+type NumericKeys = "quantity" | MoneyKeys;
+
+type ApiLineItem = {
+  description: string;
+  category?: LineItemCategory;
+  unitLabel?: string;
+  quantity: number;
+  unitPrice: Money;
+};
+
+type ApiChangeOrder = {
+  id: string;
+  status: "DRAFT" | "SUBMITTED" | "BLOCKED" | "EXPIRED";
+  createdAt: string;
+  submittedAt?: string;
+  blockingReasons?: string[];
+  input: Omit<ChangeOrderForm, NumericKeys | "lineItems"> & { quantity: number } & Record<MoneyKeys, Money> & {
+      lineItems: ApiLineItem[];
+    };
+};
+
+// List entries are summaries; resuming a draft loads the full record.
+type ApiChangeOrderSummary = Pick<ApiChangeOrder, "id" | "status" | "createdAt" | "submittedAt"> & {
+  projectId: string;
+};
+
+type RevisionRequest = {
+  token: string;
+  needsInfoChecklist: string[];
+  contractorFacingMessage?: string;
+  responses: Record<string, string>;
+};
+
+type Project = {
+  id: string;
+  name: string;
+  address: string;
+};
+
+type SubmissionPolicy = {
+  name: string;
+  windowHours: number;
+  calendar: "CALENDAR" | "BUSINESS_DAYS";
+  requirePhotos: boolean;
+  photosRequiredFromAmount: Money;
+  requireTurnKeyJustification: boolean;
+  requireLineItemsForMultiItem: boolean;
+  minLineItems: number;
+  lineItemTolerance: Money;
+};
+
+// Mirrors the server default so the wizard still validates when the policy cannot be loaded.
+const defaultPolicy: SubmissionPolicy = {
+  name: "Default policy",
+  windowHours: 24,
+  calendar: "CALENDAR",
+  requirePhotos: true,
+  photosRequiredFromAmount: { amountCents: 0, currency: "USD" },
+  requireTurnKeyJustification: true,
+  requireLineItemsForMultiItem: true,
+  minLineItems: 2,
+  lineItemTolerance: { amountCents: 100, currency: "USD" },
+};
+
+const defaultLineItem: LineItem = { description: "", category: "MATERIAL", unitLabel: "", quantity: "", unitPrice: "" };
+
+// Each category has to add up to the matching header amount on the Pricing step.
+const lineItemCategories: { value: LineItemCategory; label: string; headerKey: MoneyKeys }[] = [
+  { value: "LABOR", label: "Labor", headerKey: "laborCost" },
+  { value: "MATERIAL", label: "Material", headerKey: "materialCost" },
+  { value: "OTHER", label: "Other", headerKey: "additionalCharges" },
+];
+
+const defaultForm: ChangeOrderForm = {
+  projectId: "",
+  contractorName: "",
+  contractorEmail: "",
+  workPerformedAt: "",
+  scope: "",
+  quantity: "",
+  unitLabel: "",
+  materialCost: "",
+  laborCost: "",
+  additionalCharges: "",
+  additionalChargesReason: "",
+  whyNeeded: "",
+  whyNotInTurnKey: "",
+  isMultiItem: false,
+  photos: [],
+  lineItems: [{ ...defaultLineItem }, { ...defaultLineItem }],
+};
+
+const steps = [
+  { title: "Project", subtitle: "Project and timing details" },
+  { title: "Scope", subtitle: "Scope and quantity" },
+  { title: "Pricing", subtitle: "Costs and unit price" },
+  { title: "Reason", subtitle: "Justification and photos" },
+  { title: "Review", subtitle: "Line items and submit" },
+] as const;
+
+function toNumericField(value: number | undefined): NumericField {
+  return value ? (`${value}` as NumericField) : "";
+}
+
+// Amounts stay decimal strings in the form and are read as whole cents, so totals never pick up float error.
+const AMOUNT_PATTERN = /^\d+(?:\.\d{1,2})?$/;
+
+function isAmount(value: NumericField): boolean {
+  return value === "" || AMOUNT_PATTERN.test(value.trim());
+}
+
+function toCents(value: NumericField): number {
+  const text = value.trim();
+  if (!AMOUNT_PATTERN.test(text)) {
+    return 0;
+  }
+  const [whole, fraction = ""] = text.split(".");
+  return Number(whole) * 100 + Number(fraction.padEnd(2, "0"));
+}
+
+function formatAmount(cents: number): string {
+  const abs = Math.abs(cents);
+  return `${cents < 0 ? "-" : ""}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+function toAmountField(value: Money | undefined): NumericField {
+  return value?.amountCents ? (formatAmount(value.amountCents) as NumericField) : "";
+}
+
+// Quantities can have decimals too: scale them to integers and round results half-up to the cent.
+function scaleQuantity(value: NumericField): [bigint, bigint] | null {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const fraction = match[2] ?? "";
+  return [BigInt(`${match[1]}${fraction}`), 10n ** BigInt(fraction.length)];
+}
+
+function multiplyCents(cents: number, quantity: NumericField): number {
+  const scaled = scaleQuantity(quantity);
+  if (!scaled) {
+    return 0;
+  }
+  const [units, scale] = scaled;
+  return Number((BigInt(cents) * units * 2n + scale) / (scale * 2n));
+}
+
+function divideCents(cents: number, quantity: NumericField): number {
+  const scaled = scaleQuantity(quantity);
+  if (!scaled || scaled[0] === 0n) {
+    return 0;
+  }
+  const [units, scale] = scaled;
+  return Number((BigInt(cents) * scale * 2n + units) / (units * 2n));
+}
+
+function toForm(input: ApiChangeOrder["input"]): ChangeOrderForm {
+  const lineItems = input.lineItems.map((item) => ({
+    description: item.description,
+    category: item.category ?? "MATERIAL",
+    unitLabel: item.unitLabel ?? input.unitLabel,
+    quantity: toNumericField(item.quantity),
+    unitPrice: toAmountField(item.unitPrice),
+  }));
+  return {
+    ...defaultForm,
+    ...input,
+    quantity: toNumericField(input.quantity),
+    materialCost: toAmountField(input.materialCost),
+    laborCost: toAmountField(input.laborCost),
+    additionalCharges: toAmountField(input.additionalCharges),
+    lineItems: lineItems.length > 0 ? lineItems : defaultForm.lineItems,
+  };
+}
+
+function isEditable(entry: Pick<ApiChangeOrder, "status">): boolean {
+  return entry.status === "DRAFT" || entry.status === "BLOCKED";
+}
+
+// Keep the resumed draft in the URL so it can be bookmarked or shared as a deep link.
+function setDraftParam(draftId: string | null) {
+  const url = new URL(window.location.href);
+  if (draftId) {
+    url.searchParams.set("draft", draftId);
+  } else {
+    url.searchParams.delete("draft");
+  }
+  window.history.replaceState(null, "", url);
+}
+
+const strictEmailRegex =
+  /^(?!.*\.\.)([A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*)@([A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+)$/;
+
+type WizardUser = {
+  name: string;
+  email: string;
+};
+
+export default function ChangeOrderWizard({ user }: { user: WizardUser | null }) {
+  const [form, setForm] = useState<ChangeOrderForm>(() =>
+    user ? { ...defaultForm, contractorName: user.name, contractorEmail: user.email } : defaultForm,
+  );
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [revision, setRevision] = useState<RevisionRequest | null>(null);
+  const [policy, setPolicy] = useState<SubmissionPolicy>(defaultPolicy);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [changeOrders, setChangeOrders] = useState<ApiChangeOrderSummary[]>([]);
+  const [totalChangeOrders, setTotalChangeOrders] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function toNumber(value: NumericField): number {
+    if (value === "") {
+      return 0;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+
+  function isValidEmail(value: string): boolean {
+    const email = value.trim();
+    return strictEmailRegex.test(email);
+  }
+
+  const totalCostCents = useMemo(() => {
+    return toCents(form.materialCost) + toCents(form.laborCost) + toCents(form.additionalCharges);
+  }, [form.additionalCharges, form.laborCost, form.materialCost]);
+
+  const pricePerUnitCents = useMemo(() => {
+    return divideCents(totalCostCents, form.quantity);
+  }, [form.quantity, totalCostCents]);
+
+  const costBreakdown = useMemo(() => {
+    return lineItemCategories.map((category) => {
+      const lineItemTotal = form.lineItems
+        .filter((item) => item.category === category.value)
+        .reduce((sum, item) => sum + multiplyCents(toCents(item.unitPrice), item.quantity), 0);
+      const headerAmount = toCents(form[category.headerKey]);
+      return { ...category, lineItemTotal, headerAmount, difference: lineItemTotal - headerAmount };
+    });
+  }, [form]);
+
+  async function signOut() {
+    await fetch("/api/auth/sign-out", { method: "POST" });
+    window.location.assign("/sign-in");
+  }
+
+  // Without a cursor the list starts over; with one the next page is appended.
+  async function refreshList(cursor?: string) {
+    if (!user) {
+      return;
+    }
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    const res = await fetch(`/api/change-orders${query}`, { method: "GET" });
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as {
+      changeOrders: ApiChangeOrderSummary[];
+      total: number;
+      nextCursor: string | null;
+    };
+    setChangeOrders((prev) => (cursor ? [...prev, ...data.changeOrders] : data.changeOrders));
+    setTotalChangeOrders(data.total);
+    setNextCursor(data.nextCursor);
+  }
+
+  async function loadProjects() {
+    if (!user) {
+      return;
+    }
+    const res = await fetch("/api/projects", { method: "GET" });
+    if (!res.ok) {
+      return;
+    }
+    const data = (await res.json()) as { projects: Project[] };
+    setProjects(data.projects);
+    // Preselect when the contractor only works on one project and nothing is chosen yet.
+    if (data.projects.length === 1) {
+      setForm((prev) => (prev.projectId ? prev : { ...prev, projectId: data.projects[0].id }));
+    }
+  }
+
+  async function resumeDraft(id: string) {
+    setBusy(true);
+    setSuccess(null);
+    setErrors([]);
+    const res = await fetch(`/api/change-orders/${id}`, { method: "GET" });
+    setBusy(false);
+
+    if (!res.ok) {
+      setErrors(["Could not load draft."]);
+      return;
+    }
+
+    const data = (await res.json()) as { changeOrder: ApiChangeOrder };
+    if (!isEditable(data.changeOrder)) {
+      setDraftId(null);
+      setDraftParam(null);
+      setErrors(["This change order was already submitted and can no longer be edited."]);
+      return;
+    }
+
+    setForm(toForm(data.changeOrder.input));
+    setDraftId(data.changeOrder.id);
+    setDraftParam(data.changeOrder.id);
+    setCurrentStep(0);
+    setSuccess("Draft loaded.");
+  }
+
+  async function loadRevision(token: string) {
+    setBusy(true);
+    setSuccess(null);
+    setErrors([]);
+    const res = await fetch(`/api/change-orders/revisions/${encodeURIComponent(token)}`, { method: "GET" });
+    setBusy(false);
+
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      setErrors([data.message ?? "Could not load the requested change order."]);
+      return;
+    }
+
+    const data = (await res.json()) as {
+      revision: {
+        input: ApiChangeOrder["input"];
+        needsInfoChecklist: string[];
+        contractorFacingMessage?: string;
+      };
+    };
+    setForm(toForm(data.revision.input));
+    setRevision({
+      token,
+      needsInfoChecklist: data.revision.needsInfoChecklist,
+      contractorFacingMessage: data.revision.contractorFacingMessage,
+      responses: Object.fromEntries(data.revision.needsInfoChecklist.map((item) => [item, ""])),
+    });
+    setCurrentStep(0);
+  }
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const revisionToken = params.get("revise");
+    const requestedDraft = params.get("draft");
+    void loadProjects();
+    if (revisionToken) {
+      void loadRevision(revisionToken);
+    } else if (requestedDraft) {
+      void resumeDraft(requestedDraft);
+    }
+  }, []);
+
+  useEffect(() => {
+    const projectId = form.projectId.trim();
+    if (!user || !projectId) {
+      setPolicy(defaultPolicy);
+      return;
+    }
+
+    let cancelled = false;
+    void (async () => {
+      const res = await fetch(`/api/project-policies/${encodeURIComponent(projectId)}`, { method: "GET" });
+      const data = res.ok ? ((await res.json()) as { policy: SubmissionPolicy }) : null;
+      if (!cancelled) {
+        setPolicy(data?.policy ?? defaultPolicy);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [form.projectId, user]);
+
+  async function saveDraft() {
+    setBusy(true);
+    setSuccess(null);
+    setErrors([]);
+    const res = await fetch(draftId ? `/api/change-orders/${draftId}/draft` : "/api/change-orders/draft", {
+      method: draftId ? "PUT" : "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(form),
+    });
+    setBusy(false);
+
+    if (res.ok) {
+      const data = (await res.json()) as { changeOrder: ApiChangeOrder };
+      setDraftId(data.changeOrder.id);
+      setDraftParam(data.changeOrder.id);
+      setSuccess("Draft saved.");
+      await refreshList();
+      return;
+    }
+
+    const data = (await res.json().catch(() => ({}))) as { message?: string };
+    setErrors([data.message ?? "Could not save draft."]);
+  }
+
+  async function submitFinal() {
+    setBusy(true);
+    setSuccess(null);
+    setErrors([]);
+
+    const res = await fetch("/api/change-orders/submit", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...form, draftId: draftId ?? undefined }),
+    });
+
+    const data = (await res.json()) as {
+      status: string;
+      message?: string;
+      reasons?: string[];
+      changeOrder?: ApiChangeOrder;
+    };
+    setBusy(false);
+
+    if (res.ok) {
+      setDraftId(null);
+      setDraftParam(null);
+      setSuccess(data.message ?? "Submitted.");
+      await refreshList();
+      return;
+    }
+
+    // A blocked attempt stays editable, so keep working on that same record.
+    if (data.changeOrder && isEditable(data.changeOrder)) {
+      setDraftId(data.changeOrder.id);
+      setDraftParam(data.changeOrder.id);
+    }
+    setErrors(data.reasons ?? (data.message ? [data.message] : ["Submission blocked."]));
+    await refreshList();
+  }
+
+  async function submitRevision() {
+    if (!revision) {
+      return;
+    }
+
+    const unanswered = revision.needsInfoChecklist.filter((item) => !revision.responses[item]?.trim());
+    if (unanswered.length > 0) {
+      setErrors(unanswered.map((item) => `Respond to the requested item: ${item}`));
+      return;
+    }
+
+    setBusy(true);
+    setSuccess(null);
+    setErrors([]);
+
+    const res = await fetch(`/api/change-orders/revisions/${encodeURIComponent(revision.token)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        ...form,
+        checklistResponses: revision.needsInfoChecklist.map((item) => ({
+          item,
+          response: revision.responses[item].trim(),
+        })),
+      }),
+    });
+
+    const data = (await res.json()) as { status: string; message?: string; reasons?: string[] };
+    setBusy(false);
+
+    if (res.ok) {
+      setRevision(null);
+      const url = new URL(window.location.href);
+      url.searchParams.delete("revise");
+      window.history.replaceState(null, "", url);
+      setSuccess(data.message ?? "Resubmitted.");
+      return;
+    }
+
+    setErrors(data.reasons ?? (data.message ? [data.message] : ["Resubmission blocked."]));
+  }
+
+  function updateLineItem(index: number, key: keyof LineItem, value: string) {
+    const next = [...form.lineItems];
+    if (key === "description" || key === "unitLabel") {
+      next[index] = {
+        ...next[index],
+        [key]: value,
+      };
+    } else if (key === "category") {
+      next[index] = {
+        ...next[index],
+        category: value as LineItemCategory,
+      };
+    } else if (key === "quantity") {
+      next[index] = {
+        ...next[index],
+        quantity: value as NumericField,
+      };
+    } else {
+      next[index] = {
+        ...next[index],
+        unitPrice: value as NumericField,
+      };
+    }
+    setForm((prev) => ({ ...prev, lineItems: next }));
+  }
+
+  function getStepErrors(stepIndex: number): string[] {
+    const stepErrors: string[] = [];
+
+    if (stepIndex === 0) {
+      if (!form.projectId.trim()) {
+        stepErrors.push("Choose a project.");
+      }
+      if (!form.contractorName.trim()) {
+        stepErrors.push("Contractor name is required.");
+      }
+      if (!form.contractorEmail.trim()) {
+        stepErrors.push("Contractor email is required.");
+      } else if (!isValidEmail(form.contractorEmail)) {
+        stepErrors.push("Contractor email must be valid.");
+      }
+      if (!form.workPerformedAt.trim()) {
+        stepErrors.push("Work performed date/time is required.");
+      }
+    }
+
+    if (stepIndex === 1) {
+      if (!form.scope.trim()) {
+        stepErrors.push("Scope is required.");
+      }
+      if (toNumber(form.quantity) <= 0) {
+        stepErrors.push("Quantity/area/amount must be greater than 0.");
+      }
+      if (!form.unitLabel.trim()) {
+        stepErrors.push("Unit label is required.");
+      }
+    }
+
+    if (stepIndex === 2) {
+      if (!isAmount(form.materialCost)) {
+        stepErrors.push("Material cost must be 0 or greater, with at most 2 decimal places.");
+      }
+      if (!isAmount(form.laborCost)) {
+        stepErrors.push("Labor cost must be 0 or greater, with at most 2 decimal places.");
+      }
+      if (!isAmount(form.additionalCharges)) {
+        stepErrors.push("Additional charges must be 0 or greater, with at most 2 decimal places.");
+      }
+      if (toCents(form.additionalCharges) > 0 && !form.additionalChargesReason.trim()) {
+        stepErrors.push("Provide a reason for additional charges.");
+      }
+      if (toNumber(form.quantity) > 0 && totalCostCents <= 0) {
+        stepErrors.push("Unit price must be determinable and greater than 0.");
+      }
+    }
+
+    if (stepIndex === 3) {
+      if (!form.whyNeeded.trim()) {
+        stepErrors.push("Explain why this change order is needed.");
+      }
+      if (policy.requireTurnKeyJustification && !form.whyNotInTurnKey.trim()) {
+        stepErrors.push("Explain why this was not included in turn-key pricing.");
+      }
+      if (
+        policy.requirePhotos &&
+        totalCostCents >= policy.photosRequiredFromAmount.amountCents &&
+        form.photos.length === 0
+      ) {
+        stepErrors.push("At least one supporting photo is required.");
+      }
+    }
+
+    if (stepIndex === 4 && form.isMultiItem && policy.requireLineItemsForMultiItem) {
+      if (form.lineItems.length < policy.minLineItems) {
+        stepErrors.push(`Multi-item CO requires at least ${policy.minLineItems} line items.`);
+      }
+      form.lineItems.forEach((item, index) => {
+        if (
+          !item.description.trim() ||
+          !item.unitLabel.trim() ||
+          toNumber(item.quantity) <= 0 ||
+          !isAmount(item.unitPrice)
+        ) {
+          stepErrors.push(`Line item ${index + 1} needs description, quantity, unit label, and unit price.`);
+        }
+      });
+    }
+
+    if (stepIndex === 4 && form.isMultiItem && form.lineItems.length > 0) {
+      for (const row of costBreakdown) {
+        if (Math.abs(row.difference) > policy.lineItemTolerance.amountCents) {
+          stepErrors.push(
+            `${row.label} line items total $${formatAmount(row.lineItemTotal)} but ${row.label.toLowerCase()} pricing is $${formatAmount(row.headerAmount)}.`,
+          );
+        }
+      }
+    }
+
+    return stepErrors;
+  }
+
+  function goNext() {
+    const stepErrors = getStepErrors(currentStep);
+    if (stepErrors.length > 0) {
+      setErrors(stepErrors);
+      return;
+    }
+    setErrors([]);
+    setCurrentStep((prev) => Math.min(prev + 1, steps.length - 1));
+  }
+
+  function goBack() {
+    setErrors([]);
+    setCurrentStep((prev) => Math.max(prev - 1, 0));
+  }
+
+  async function addPhotos(files: FileList | null) {
+    if (!files || files.length === 0) {
+      return;
+    }
+    const body = new FormData();
+    Array.from(files).forEach((file) => body.append("files", file));
+    if (revision) {
+      body.append("revisionToken", revision.token);
+    }
+
+    setBusy(true);
+    setErrors([]);
+    const res = await fetch("/api/attachments", { method: "POST", body });
+    const data = (await res.json().catch(() => ({}))) as {
+      message?: string;
+      errors?: string[];
+      attachments?: { id: string }[];
+    };
+    setBusy(false);
+
+    const uploaded = (data.attachments ?? []).map((attachment) => attachment.id);
+    if (uploaded.length > 0) {
+      setForm((prev) => ({ ...prev, photos: Array.from(new Set([...prev.photos, ...uploaded])) }));
+    }
+    const uploadErrors = data.errors ?? [];
+    if (!res.ok || uploadErrors.length > 0) {
+      setErrors(uploadErrors.length > 0 ? uploadErrors : [data.message ?? "Could not upload photos."]);
+    }
+  }
+
+  function attachmentUrl(id: string, variant: "original" | "thumbnail"): string {
+    const params = new URLSearchParams();
+    if (variant === "thumbnail") {
+      params.set("variant", "thumbnail");
+    }
+    if (revision) {
+      params.set("revise", revision.token);
+    }
+    const query = params.toString();
+    return `/api/attachments/${encodeURIComponent(id)}${query ? `?${query}` : ""}`;
+  }
+
+  function removePhoto(photoValue: string) {
+    setForm((prev) => ({
+      ...prev,
+      photos: prev.photos.filter((photo) => photo !== photoValue),
+    }));
+  }
+
+  function isAttachmentId(photo: string): boolean {
+    return photo.startsWith("att_");
+  }
+
+  return (
+    <main>
+      <header className="brand-header">
+        <img src="/remi-logo.svg" alt="Remi logo" className="brand-logo" />
+        <div>
+          <h1>Change Order Submission</h1>
+        </div>
+      </header>
+
+      <section>
+        <div className="view-switch">
+          <span className="muted">Current view: Contractor{draftId ? ` (editing draft ${draftId})` : ""}</span>
+          {user ? (
+            <span className="muted">
+              Signed in as {user.email}{" "}
+              <button type="button" className="secondary" onClick={() => void signOut()}>
+                Sign out
+              </button>
+            </span>
+          ) : null}
+          <Link href="/change-order-poc/queue" className="secondary nav-link">
+            Go to team queue
+          </Link>
+        </div>
+      </section>
+
+      {revision ? (
+        <section className="revision-request">
+          <h2>The Remi team needs more information</h2>
+          <p className="muted">
+            Answer each requested item below, update any details or photos in the steps that follow, then resubmit from
+            the Review step.
+          </p>
+          {revision.contractorFacingMessage ? (
+            <p className="muted">Message from Remi: {revision.contractorFacingMessage}</p>
+          ) : null}
+          {revision.needsInfoChecklist.map((item, index) => (
+            <div key={item}>
+              <label htmlFor={`revision-response-${index + 1}`}>{item}</label>
+              <textarea
+                id={`revision-response-${index + 1}`}
+                value={revision.responses[item] ?? ""}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setRevision((prev) => (prev ? { ...prev, responses: { ...prev.responses, [item]: value } } : prev));
+                }}
+              />
+            </div>
+          ))}
+        </section>
+      ) : null}
+
+      {success ? <div className="alert success">{success}</div> : null}
+      {errors.length > 0 ? (
+        <div className="alert error">
+          <strong>Submission blocked:</strong>
+          <ul>
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <section className="wizard-shell">
+        <div className="wizard-head">
+          <div>
+            <h2>{steps[currentStep].title}</h2>
+            <p className="muted">{steps[currentStep].subtitle}</p>
+          </div>
+          <p className="muted">
+            Step {currentStep + 1} of {steps.length}
+          </p>
+        </div>
+
+        <div className="progress-track">
+          <div className="progress-fill" style={{ width: `${((currentStep + 1) / steps.length) * 100}%` }} />
+        </div>
+
+        {currentStep === 0 ? (
+          <div className="step-body">
+            <div className="row">
+              <div>
+                <label htmlFor="projectId">Project</label>
+                {revision ? (
+                  <input id="projectId" value={form.projectId} disabled />
+                ) : (
+                  <select
+                    id="projectId"
+                    value={form.projectId}
+                    onChange={(e) => setForm((prev) => ({ ...prev, projectId: e.target.value }))}
+                  >
+                    <option value="">Select a project</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name} ({project.id})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {!revision && projects.length === 0 ? (
+                  <p className="muted">You are not on any project roster yet. Ask the Remi team to add you.</p>
+                ) : null}
+                <p className="muted">
+                  Submit within {policy.windowHours} hours of the work
+                  {policy.calendar === "BUSINESS_DAYS" ? " (business days only)" : ""}. Policy: {policy.name}
+                </p>
+              </div>
+              <div>
+                <label htmlFor="contractorName">Contractor name</label>
+                <input
+                  id="contractorName"
+                  value={form.contractorName}
+                  onChange={(e) => setForm((prev) => ({ ...prev, contractorName: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="contractorEmail">Contractor email</label>
+                <input
+                  id="contractorEmail"
+                  type="email"
+                  value={form.contractorEmail}
+                  onChange={(e) => setForm((prev) => ({ ...prev, contractorEmail: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="workPerformedAt">Work performed date/time</label>
+                <input
+                  id="workPerformedAt"
+                  type="datetime-local"
+                  value={form.workPerformedAt}
+                  onChange={(e) => {
+                    const input = e.currentTarget;
+                    setForm((prev) => ({ ...prev, workPerformedAt: input.value }));
+                    // Close native picker after choosing a date/time.
+                    input.blur();
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        {currentStep === 1 ? (
+          <div className="step-body">
+            <label htmlFor="scope">1) Clearly state the scope of this change order</label>
+            <textarea
+              id="scope"
+              value={form.scope}
+              onChange={(e) => setForm((prev) => ({ ...prev, scope: e.target.value }))}
+            />
+
+            <div className="row">
+              <div>
+                <label htmlFor="quantity">2) Quantity/area/amount</label>
+                <input
+                  id="quantity"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.quantity}
+                  onChange={(e) => setForm((prev) => ({ ...prev, quantity: e.target.value as NumericField }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="unitLabel">Unit label</label>
+                <input
+                  id="unitLabel"
+                  value={form.unitLabel}
+                  onChange={(e) => setForm((prev) => ({ ...prev, unitLabel: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        {currentStep === 2 ? (
+          <div className="step-body">
+            <div className="row">
+              <div>
+                <label htmlFor="materialCost">3) Material cost</label>
+                <input
+                  id="materialCost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.materialCost}
+                  onChange={(e) => setForm((prev) => ({ ...prev, materialCost: e.target.value as NumericField }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="laborCost">3) Labor cost</label>
+                <input
+                  id="laborCost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.laborCost}
+                  onChange={(e) => setForm((prev) => ({ ...prev, laborCost: e.target.value as NumericField }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="additionalCharges">4) Any additional charges</label>
+                <input
+                  id="additionalCharges"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.additionalCharges}
+                  onChange={(e) => setForm((prev) => ({ ...prev, additionalCharges: e.target.value as NumericField }))}
+                />
+              </div>
+            </div>
+
+            <label htmlFor="additionalChargesReason">4) Explain/justify additional charges</label>
+            <textarea
+              id="additionalChargesReason"
+              value={form.additionalChargesReason}
+              onChange={(e) => setForm((prev) => ({ ...prev, additionalChargesReason: e.target.value }))}
+            />
+
+            <p className="muted">
+              5) Price per unit: ${formatAmount(pricePerUnitCents)} / {form.unitLabel || "unit"} (from total $
+              {formatAmount(totalCostCents)})
+            </p>
+          </div>
+        ) : null}
+
+        {currentStep === 3 ? (
+          <div className="step-body">
+            <label htmlFor="whyNeeded">6) Why is this CO needed?</label>
+            <textarea
+              id="whyNeeded"
+              value={form.whyNeeded}
+              onChange={(e) => setForm((prev) => ({ ...prev, whyNeeded: e.target.value }))}
+            />
+
+            <label htmlFor="whyNotInTurnKey">7) Why was this not included in turn-key pricing?</label>
+            <textarea
+              id="whyNotInTurnKey"
+              value={form.whyNotInTurnKey}
+              onChange={(e) => setForm((prev) => ({ ...prev, whyNotInTurnKey: e.target.value }))}
+            />
+
+            <label htmlFor="photos">8) Attach supporting photos</label>
+            <input
+              id="photos"
+              type="file"
+              multiple
+              accept="image/jpeg,image/png,image/webp"
+              disabled={busy}
+              onChange={(e) => {
+                void addPhotos(e.target.files);
+                e.currentTarget.value = "";
+              }}
+            />
+            <p className="muted">{form.photos.length} photo(s) selected.</p>
+            {form.photos.length > 0 ? (
+              <div className="photo-grid">
+                {form.photos.map((photo, index) => (
+                  <div key={photo} className="photo-tile">
+                    {isAttachmentId(photo) ? (
+                      <a href={attachmentUrl(photo, "original")} target="_blank" rel="noreferrer">
+                        <img
+                          src={attachmentUrl(photo, "thumbnail")}
+                          alt={`Photo ${index + 1}`}
+                          className="photo-thumb"
+                          loading="lazy"
+                        />
+                      </a>
+                    ) : (
+                      <span className="muted">Photo {index + 1} must be uploaded again</span>
+                    )}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => removePhoto(photo)}
+                      style={{ marginTop: "6px", padding: "4px 8px" }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        {currentStep === 4 ? (
+          <div className="step-body">
+            <label>
+              <input
+                type="checkbox"
+                checked={form.isMultiItem}
+                onChange={(e) => setForm((prev) => ({ ...prev, isMultiItem: e.target.checked }))}
+              />{" "}
+              This CO has multiple line items
+            </label>
+
+            {form.isMultiItem
+              ? form.lineItems.map((item, index) => (
+                  <div className="line-item" key={`line-item-${index + 1}`}>
+                    <h3>Line item {index + 1}</h3>
+                    <label htmlFor={`li-description-${index + 1}`}>Description</label>
+                    <input
+                      id={`li-description-${index + 1}`}
+                      value={item.description}
+                      onChange={(e) => updateLineItem(index, "description", e.target.value)}
+                    />
+                    <div className="row">
+                      <div>
+                        <label htmlFor={`li-category-${index + 1}`}>Cost category</label>
+                        <select
+                          id={`li-category-${index + 1}`}
+                          value={item.category}
+                          onChange={(e) => updateLineItem(index, "category", e.target.value)}
+                        >
+                          {lineItemCategories.map((category) => (
+                            <option key={category.value} value={category.value}>
+                              {category.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor={`li-unit-label-${index + 1}`}>Unit label</label>
+                        <input
+                          id={`li-unit-label-${index + 1}`}
+                          value={item.unitLabel}
+                          placeholder={form.unitLabel || "unit"}
+                          onChange={(e) => updateLineItem(index, "unitLabel", e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <div className="row">
+                      <div>
+                        <label htmlFor={`li-qty-${index + 1}`}>Quantity</label>
+                        <input
+                          id={`li-qty-${index + 1}`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.quantity}
+                          onChange={(e) => updateLineItem(index, "quantity", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor={`li-unit-price-${index + 1}`}>Unit price</label>
+                        <input
+                          id={`li-unit-price-${index + 1}`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) => updateLineItem(index, "unitPrice", e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <p className="muted">
+                      Extended: ${formatAmount(multiplyCents(toCents(item.unitPrice), item.quantity))}
+                      {item.unitLabel ? ` (${item.quantity || 0} ${item.unitLabel})` : ""}
+                    </p>
+                  </div>
+                ))
+              : null}
+
+            <div className="review-card">
+              <h3>Final review</h3>
+              <p className="muted">
+                Project: {projects.find((project) => project.id === form.projectId)?.name || form.projectId || "-"}
+              </p>
+              <p className="muted">Contractor: {form.contractorName || "-"}</p>
+              <p className="muted">Contractor email: {form.contractorEmail || "-"}</p>
+              <p className="muted">Total cost: ${formatAmount(totalCostCents)}</p>
+              <p className="muted">
+                Unit price: ${formatAmount(pricePerUnitCents)} / {form.unitLabel || "unit"}
+              </p>
+              {form.isMultiItem ? (
+                <table className="cost-breakdown">
+                  <thead>
+                    <tr>
+                      <th>Category</th>
+                      <th>Line items</th>
+                      <th>Pricing</th>
+                      <th>Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {costBreakdown.map((row) => (
+                      <tr
+                        key={row.value}
+                        className={
+                          Math.abs(row.difference) > policy.lineItemTolerance.amountCents ? "mismatch" : undefined
+                        }
+                      >
+                        <td>{row.label}</td>
+                        <td>${formatAmount(row.lineItemTotal)}</td>
+                        <td>${formatAmount(row.headerAmount)}</td>
+                        <td>${formatAmount(row.difference)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : null}
+              <p className="muted">Photos attached: {form.photos.length}</p>
+              <p className="muted">Work performed at: {form.workPerformedAt || "-"}</p>
+              <div className="button-row">
+                {revision ? (
+                  <button className="primary" disabled={busy} onClick={submitRevision} type="button">
+                    Resubmit with updates
+                  </button>
+                ) : (
+                  <>
+                    <button className="secondary" disabled={busy} onClick={saveDraft} type="button">
+                      Save draft
+                    </button>
+                    <button className="primary" disabled={busy} onClick={submitFinal} type="button">
+                      Final submit
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="wizard-nav">
+          <button className="secondary" disabled={busy || currentStep === 0} onClick={goBack} type="button">
+            Back
+          </button>
+          {currentStep < steps.length - 1 ? (
+            <button className="primary" disabled={busy} onClick={goNext} type="button">
+              Next
+            </button>
+          ) : revision ? null : (
+            <button className="secondary" disabled={busy} onClick={saveDraft} type="button">
+              Save draft
+            </button>
+          )}
+        </div>
+      </section>
+
+      {user ? (
+        <section>
+          <h2>Recent submissions</h2>
+          <p className="muted">Your draft, submitted, blocked and expired change orders.</p>
+          <button className="secondary" onClick={() => void refreshList()} type="button">
+            Refresh list
+          </button>
+          <ul>
+            {changeOrders.map((entry) => (
+              <li key={entry.id}>
+                <strong>{entry.status}</strong> - {entry.id} - {entry.projectId} -{" "}
+                {new Date(entry.createdAt).toLocaleString()}
+                {isEditable(entry) ? (
+                  <>
+                    {" "}
+                    <button
+                      type="button"
+                      className="secondary"
+                      disabled={busy || entry.id === draftId}
+                      onClick={() => void resumeDraft(entry.id)}
+                      style={{ marginLeft: "6px", padding: "4px 8px" }}
+                    >
+                      {entry.id === draftId ? "Editing" : "Resume"}
+                    </button>
+                  </>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          {nextCursor ? (
+            <button type="button" className="secondary" onClick={() => void refreshList(nextCursor)}>
+              Load more ({totalChangeOrders - changeOrders.length} remaining)
+            </button>
+          ) : null}
+        </section>
+      ) : null}
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+
+// Only follow same-origin paths after sign-in.
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next") ?? "";
+  return next.startsWith("/") && !next.startsWith("//") ? next : "/change-order-poc";
+}
+
+export default function SignInPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    const res = await fetch("/api/auth/sign-in", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    setBusy(false);
+
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(data.message ?? "Could not sign in.");
+      return;
+    }
+
+    window.location.assign(getNextPath());
+  }
+
+  return (
+    <main>
+      <header className="brand-header">
+        <img src="/remi-logo.svg" alt="Remi logo" className="brand-logo" />
+        <div>
+          <h1>Sign in</h1>
+        </div>
+      </header>
+
+      {error ? <div className="alert error">{error}</div> : null}
+
+      <section>
+        <form onSubmit={(e) => void submit(e)}>
+          <label htmlFor="email">Email</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <label htmlFor="password">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <div className="button-row">
+            <button className="primary" disabled={busy} type="submit">
+              Sign in
+            </button>
+          </div>
+        </form>
+      </section>
+    </main>
+  );
+}
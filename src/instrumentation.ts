@@ -0,0 +1,11 @@
+export async function register() {
+  // The background workers need Node APIs and a long-lived process, so they only run on the Node.js server.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startOutboxWorker } = await import("./lib/email-outbox");
+    startOutboxWorker();
+    const { startSlaEscalationWorker } = await import("./lib/sla-escalation");
+    startSlaEscalationWorker();
+    const { startReminderWorker } = await import("./lib/contractor-reminders");
+    startReminderWorker();
+  }
+}
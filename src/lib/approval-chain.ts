@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+import { roleHasPermission, type SessionUser, type UserRole } from "./auth";
+import { type Money, nonNegativeMoneySchema } from "./money";
+
+const APPROVAL_ROLES = ["APPROVER", "DIRECTOR"] as const;
+type ApprovalRole = (typeof APPROVAL_ROLES)[number];
+
+// Directors can sign any step; approvers only the steps that ask for an approver.
+const rolesForStep: Record<ApprovalRole, UserRole[]> = {
+  APPROVER: ["APPROVER", "DIRECTOR"],
+  DIRECTOR: ["DIRECTOR"],
+};
+
+/** A further signoff required once the approved amount reaches `fromAmount`. */
+export const approvalTierSchema = z.object({
+  name: z.string().trim().min(1, "Tier name is required"),
+  fromAmount: nonNegativeMoneySchema("Tier amount must be 0 or greater"),
+  role: z.enum(APPROVAL_ROLES),
+});
+
+export type ApprovalTier = z.infer<typeof approvalTierSchema>;
+
+export type ApprovalStep = {
+  name: string;
+  role: ApprovalRole;
+};
+
+export type ApprovalSignoff = {
+  step: string;
+  userId: string;
+  signedBy: string;
+  signedAt: string;
+  note?: string;
+};
+
+/**
+ * Steps an approval has to pass and the signoffs collected so far. Fixed when the first approver signs,
+ * so editing the policy afterwards does not change a chain that is already under way.
+ */
+export type ApprovalChain = {
+  outcome: "APPROVED" | "PARTIALLY_APPROVED";
+  steps: ApprovalStep[];
+  signoffs: ApprovalSignoff[];
+};
+
+const FIRST_STEP: ApprovalStep = { name: "Approval", role: "APPROVER" };
+
+/** The first approval plus one step per tier the amount reaches, lowest tier first. */
+export function getApprovalSteps(tiers: ApprovalTier[], amount: Money): ApprovalStep[] {
+  const reached = tiers
+    .filter((tier) => tier.fromAmount.currency === amount.currency && amount.amountCents >= tier.fromAmount.amountCents)
+    .sort((a, b) => a.fromAmount.amountCents - b.fromAmount.amountCents);
+  return [FIRST_STEP, ...reached.map((tier) => ({ name: tier.name, role: tier.role }))];
+}
+
+export function getNextApprovalStep(chain: ApprovalChain): ApprovalStep | null {
+  return chain.steps[chain.signoffs.length] ?? null;
+}
+
+export function isApprovalChainComplete(chain: ApprovalChain): boolean {
+  return chain.signoffs.length >= chain.steps.length;
+}
+
+/**
+ * Whether someone with `roles` may deny a pending approval or send it back: anyone who can approve, or who could
+ * sign its next step.
+ */
+export function canActOnApprovalChain(roles: UserRole[], chain: ApprovalChain): boolean {
+  const step = getNextApprovalStep(chain);
+  return roles.some(
+    (role) => roleHasPermission(role, "decision:approve") || (!!step && rolesForStep[step.role].includes(role)),
+  );
+}
+
+/** Why `user` cannot sign the next step, or null when they can. Every step needs a different person. */
+export function getSignoffError(user: SessionUser, chain: ApprovalChain): string | null {
+  const step = getNextApprovalStep(chain);
+  if (!step) {
+    return "This approval has already been signed off.";
+  }
+  if (!user.roles.some((role) => rolesForStep[step.role].includes(role))) {
+    return `${step.name} must be signed off by ${step.role === "DIRECTOR" ? "a director" : "an approver"}.`;
+  }
+  if (chain.signoffs.some((signoff) => signoff.userId === user.id)) {
+    return `${step.name} must be signed off by someone who has not already signed this approval.`;
+  }
+  return null;
+}
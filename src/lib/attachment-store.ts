@@ -0,0 +1,141 @@
+import { randomBytes } from "node:crypto";
+
+import sharp from "sharp";
+
+import { getBlobStore, type StoredBlob } from "./blob-store";
+import type { RecordMigration } from "./migrations";
+import { extractPhotoMetadata, type PhotoMetadata } from "./photo-metadata";
+import { defineRepository } from "./repository";
+
+export const ALLOWED_ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+export const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES || 10 * 1024 * 1024);
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+const THUMBNAIL_SIZE = 320;
+
+// sharp reports the decoded format; the declared MIME type from the browser is never trusted.
+const formatContentTypes: Record<string, (typeof ALLOWED_ATTACHMENT_TYPES)[number]> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+export type StoredAttachment = {
+  id: string;
+  schemaVersion?: number;
+  /** User id of the contractor account the upload belongs to. */
+  ownerId?: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  /** EXIF capture details and perceptual hash, read once at upload time. */
+  metadata?: PhotoMetadata;
+  storageKey: string;
+  thumbnailKey: string;
+  createdAt: string;
+};
+
+export type AttachmentVariant = "original" | "thumbnail";
+
+type UploadResult = { ok: true; attachment: StoredAttachment } | { ok: false; message: string };
+
+const attachmentMigrations: RecordMigration<StoredAttachment>[] = [];
+
+const attachments = defineRepository<StoredAttachment>({ table: "attachments", migrations: attachmentMigrations });
+
+export async function storeAttachment(
+  file: { name: string; bytes: Buffer },
+  ownerId: string | undefined,
+): Promise<UploadResult> {
+  if (file.bytes.length === 0) {
+    return { ok: false, message: `${file.name} is empty.` };
+  }
+  if (file.bytes.length > MAX_ATTACHMENT_BYTES) {
+    return {
+      ok: false,
+      message: `${file.name} is larger than ${Math.floor(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB.`,
+    };
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.bytes).metadata();
+  } catch {
+    return { ok: false, message: `${file.name} is not a readable image.` };
+  }
+  const contentType = metadata.format ? formatContentTypes[metadata.format] : undefined;
+  if (!contentType) {
+    return { ok: false, message: `${file.name} must be a JPEG, PNG or WebP image.` };
+  }
+
+  const thumbnail = await sharp(file.bytes)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer();
+
+  const id = `att_${randomBytes(12).toString("hex")}`;
+  const attachment: StoredAttachment = {
+    id,
+    ownerId,
+    fileName: file.name.slice(0, 200),
+    contentType,
+    size: file.bytes.length,
+    width: metadata.width,
+    height: metadata.height,
+    metadata: await extractPhotoMetadata(file.bytes),
+    storageKey: `attachments/${id}/original`,
+    thumbnailKey: `attachments/${id}/thumbnail`,
+    createdAt: new Date().toISOString(),
+  };
+
+  const blobs = getBlobStore();
+  await blobs.putObject(attachment.storageKey, file.bytes, contentType);
+  await blobs.putObject(attachment.thumbnailKey, thumbnail, "image/webp");
+
+  const repository = await attachments();
+  return { ok: true, attachment: await repository.insert(attachment) };
+}
+
+export async function getAttachmentById(id: string): Promise<StoredAttachment | null> {
+  const repository = await attachments();
+  return repository.get(id);
+}
+
+export async function listAttachments(): Promise<StoredAttachment[]> {
+  const repository = await attachments();
+  return repository.list();
+}
+
+export async function getAttachmentContent(
+  attachment: StoredAttachment,
+  variant: AttachmentVariant,
+): Promise<StoredBlob | null> {
+  return getBlobStore().getObject(variant === "thumbnail" ? attachment.thumbnailKey : attachment.storageKey);
+}
+
+/** Ids from `ids` that are not stored attachments owned by `ownerId`. */
+export async function findUnownedAttachments(ids: string[], ownerId: string | undefined): Promise<string[]> {
+  const repository = await attachments();
+  const unowned: string[] = [];
+  for (const id of ids) {
+    const attachment = await repository.get(id);
+    if (!attachment || !ownerId || attachment.ownerId !== ownerId) {
+      unowned.push(id);
+    }
+  }
+  return unowned;
+}
+
+/** What the API returns for an upload; the record itself keeps only the id. */
+export function toAttachmentSummary(attachment: StoredAttachment) {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+  };
+}
@@ -0,0 +1,294 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import type { StoredChangeOrder } from "./change-order-store";
+import type { RecordMigration } from "./migrations";
+import { defineRepository, getRepositoryBackend } from "./repository";
+
+export const USER_ROLES = ["CONTRACTOR", "REVIEWER", "APPROVER", "DIRECTOR"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type StoredUser = {
+  id: string;
+  schemaVersion?: number;
+  email: string;
+  name: string;
+  roles: UserRole[];
+  passwordHash: string;
+  createdAt: string;
+};
+
+export type SessionUser = Omit<StoredUser, "passwordHash" | "schemaVersion">;
+
+type StoredSession = {
+  // sha256 of the cookie token, so a leaked table cannot be replayed as cookies.
+  id: string;
+  schemaVersion?: number;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export const SESSION_COOKIE = "co_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const userMigrations: RecordMigration<StoredUser>[] = [];
+const sessionMigrations: RecordMigration<StoredSession>[] = [];
+
+const users = defineRepository<StoredUser>({ table: "users", migrations: userMigrations });
+const sessions = defineRepository<StoredSession>({ table: "sessions", migrations: sessionMigrations });
+
+// Reviewers triage, request info and deny; only approvers can approve money, hand work to other reviewers or
+// manage projects, their policies and the denial reason catalog.
+// Directors can do everything an approver can and also sign the director tier of an approval chain.
+const rolePermissions = {
+  CONTRACTOR: ["change_order:submit"],
+  REVIEWER: ["queue:read", "queue:update", "decision:needs_info", "decision:deny"],
+  APPROVER: [
+    "queue:read",
+    "queue:update",
+    "decision:needs_info",
+    "decision:deny",
+    "decision:approve",
+    "decision:reopen",
+    "policy:manage",
+    "project:manage",
+    "denial_reason:manage",
+    "assignment:manage",
+  ],
+  DIRECTOR: [
+    "queue:read",
+    "queue:update",
+    "decision:needs_info",
+    "decision:deny",
+    "decision:approve",
+    "decision:reopen",
+    "policy:manage",
+    "project:manage",
+    "denial_reason:manage",
+    "assignment:manage",
+  ],
+} as const satisfies Record<UserRole, readonly string[]>;
+
+export type Permission = (typeof rolePermissions)[UserRole][number];
+
+export const STAFF_ROLES: UserRole[] = ["REVIEWER", "APPROVER", "DIRECTOR"];
+
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return (rolePermissions[role] as readonly string[]).includes(permission);
+}
+
+export function hasPermission(user: SessionUser, permission: Permission): boolean {
+  return user.roles.some((role) => roleHasPermission(role, permission));
+}
+
+export function hasAnyRole(user: SessionUser, roles: UserRole[]): boolean {
+  return user.roles.some((role) => roles.includes(role));
+}
+
+export function isStaff(user: SessionUser): boolean {
+  return hasAnyRole(user, STAFF_ROLES);
+}
+
+/** Staff see every change order; contractors only the ones their account created. */
+export function canAccessChangeOrder(user: SessionUser, record: StoredChangeOrder): boolean {
+  return isStaff(user) || (!!record.createdBy && record.createdBy === user.id);
+}
+
+/** Display name recorded on decisions and history events. */
+export function actorLabel(user: SessionUser): string {
+  return user.name ? `${user.name} <${user.email}>` : user.email;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) {
+    return false;
+  }
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = scryptSync(password, Buffer.from(saltB64, "base64"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toSessionUser(user: StoredUser): SessionUser {
+  const { passwordHash: _passwordHash, schemaVersion: _schemaVersion, ...rest } = user;
+  return rest;
+}
+
+const bootstrapUserSchema = z.object({
+  roles: z.array(z.enum(USER_ROLES)).min(1),
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+  name: z.string().trim(),
+});
+
+type BootstrapUser = z.infer<typeof bootstrapUserSchema>;
+
+function parseBootstrapUsers(): BootstrapUser[] {
+  const configured = (process.env.AUTH_BOOTSTRAP_USERS || "").trim();
+  if (configured) {
+    // Format: "ROLE[+ROLE]:email:password[:Display name]" entries separated by commas. A malformed entry is
+    // skipped with a warning (never echoing the password) so one typo does not lock everyone else out.
+    return configured
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .flatMap((entry, index) => {
+        const [roles = "", email = "", password = "", ...name] = entry.split(":");
+        const parsed = bootstrapUserSchema.safeParse({
+          roles: roles.split("+").map((role) => role.trim().toUpperCase()),
+          email,
+          password,
+          name: name.join(":"),
+        });
+        if (!parsed.success) {
+          const problems = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+          console.warn(`Skipping AUTH_BOOTSTRAP_USERS entry ${index + 1}: ${problems.join("; ")}`);
+          return [];
+        }
+        return [parsed.data];
+      });
+  }
+
+  // Demo accounts for local in-memory runs only; never seeded against a real database or in production.
+  if (getRepositoryBackend() === "memory" && process.env.NODE_ENV !== "production") {
+    return [
+      { roles: ["CONTRACTOR"], email: "contractor@remi.local", password: "changeme", name: "Demo Contractor" },
+      { roles: ["REVIEWER"], email: "reviewer@remi.local", password: "changeme", name: "Demo Reviewer" },
+      { roles: ["APPROVER"], email: "approver@remi.local", password: "changeme", name: "Demo Approver" },
+      { roles: ["APPROVER"], email: "approver2@remi.local", password: "changeme", name: "Second Approver" },
+      { roles: ["DIRECTOR"], email: "director@remi.local", password: "changeme", name: "Demo Director" },
+    ];
+  }
+  return [];
+}
+
+let bootstrapped: Promise<void> | undefined;
+
+async function ensureBootstrapUsers(): Promise<void> {
+  bootstrapped ??= (async () => {
+    const repository = await users();
+    const existing = await repository.list();
+    for (const entry of parseBootstrapUsers()) {
+      if (existing.some((user) => user.email === entry.email)) {
+        continue;
+      }
+      await repository.insert({
+        id: `usr_${randomBytes(8).toString("hex")}`,
+        email: entry.email,
+        name: entry.name,
+        roles: entry.roles,
+        passwordHash: hashPassword(entry.password),
+        createdAt: new Date().toISOString(),
+      });
+    }
+  })().catch((error: unknown) => {
+    bootstrapped = undefined;
+    throw error;
+  });
+  return bootstrapped;
+}
+
+export async function listUsers(): Promise<SessionUser[]> {
+  await ensureBootstrapUsers();
+  const repository = await users();
+  return (await repository.list()).map(toSessionUser);
+}
+
+export async function getUserById(id: string): Promise<SessionUser | null> {
+  const repository = await users();
+  const user = await repository.get(id);
+  return user ? toSessionUser(user) : null;
+}
+
+export async function signIn(email: string, password: string): Promise<{ user: SessionUser; token: string } | null> {
+  await ensureBootstrapUsers();
+  const repository = await users();
+  const normalized = email.trim().toLowerCase();
+  const user = (await repository.list()).find((entry) => entry.email === normalized);
+  if (!user || !verifyPassword(password, user.passwordHash)) {
+    return null;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const sessionRepository = await sessions();
+  await sessionRepository.insert({
+    id: hashToken(token),
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  });
+  return { user: toSessionUser(user), token };
+}
+
+export async function signOut(token: string): Promise<void> {
+  const repository = await sessions();
+  await repository.delete(hashToken(token));
+}
+
+export function sessionCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  };
+}
+
+/** Resolves the signed-in user from the session cookie. Works in route handlers and server components. */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const repository = await sessions();
+  const session = await repository.get(hashToken(token));
+  if (!session) {
+    return null;
+  }
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    await repository.delete(session.id);
+    return null;
+  }
+  return getUserById(session.userId);
+}
+
+type AuthResult = { ok: true; user: SessionUser } | { ok: false; response: NextResponse };
+
+/**
+ * Route handler guard. Pass the roles allowed to call the handler; omit to allow any signed-in user.
+ */
+export async function requireUser(roles?: UserRole[]): Promise<AuthResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ status: "error", message: "Sign in required." }, { status: 401 }),
+    };
+  }
+  if (roles && !hasAnyRole(user, roles)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { status: "error", message: "You do not have access to this action." },
+        { status: 403 },
+      ),
+    };
+  }
+  return { ok: true, user };
+}
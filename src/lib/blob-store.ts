@@ -0,0 +1,120 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+export type StoredBlob = {
+  body: Buffer;
+  contentType: string;
+};
+
+/**
+ * Object storage in S3 terms (bucket + key). The S3 adapter talks to AWS or any S3-compatible server
+ * (MinIO, R2); the disk adapter is a stand-in for local development.
+ */
+export interface BlobStore {
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<StoredBlob | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+export type BlobStoreBackend = "disk" | "s3";
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __changeOrderBlobStore: BlobStore | undefined;
+}
+
+export function getBlobStoreBackend(): BlobStoreBackend {
+  return (process.env.S3_BUCKET || "").trim() ? "s3" : "disk";
+}
+
+function assertValidKey(key: string): void {
+  if (!/^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/.test(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+/** Writes each object to `<root>/<key>` with its content type in a sidecar file. */
+export function createDiskBlobStore(root: string): BlobStore {
+  const resolve = (key: string) => {
+    assertValidKey(key);
+    return path.join(root, key);
+  };
+
+  return {
+    async putObject(key, body, contentType) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      await writeFile(`${filePath}.content-type`, contentType);
+    },
+    async getObject(key) {
+      const filePath = resolve(key);
+      try {
+        const [body, contentType] = await Promise.all([
+          readFile(filePath),
+          readFile(`${filePath}.content-type`, "utf8").catch(() => "application/octet-stream"),
+        ]);
+        return { body, contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async deleteObject(key) {
+      const filePath = resolve(key);
+      await rm(filePath, { force: true });
+      await rm(`${filePath}.content-type`, { force: true });
+    },
+  };
+}
+
+export function createS3BlobStore(bucket: string): BlobStore {
+  const endpoint = (process.env.S3_ENDPOINT || "").trim();
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    ...(endpoint ? { endpoint, forcePathStyle: true } : {}),
+  });
+
+  return {
+    async putObject(key, body, contentType) {
+      assertValidKey(key);
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async getObject(key) {
+      assertValidKey(key);
+      try {
+        const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        if (!result.Body) {
+          return null;
+        }
+        return {
+          body: Buffer.from(await result.Body.transformToByteArray()),
+          contentType: result.ContentType || "application/octet-stream",
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async deleteObject(key) {
+      assertValidKey(key);
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+export function getBlobStore(): BlobStore {
+  if (!globalThis.__changeOrderBlobStore) {
+    globalThis.__changeOrderBlobStore =
+      getBlobStoreBackend() === "s3"
+        ? createS3BlobStore((process.env.S3_BUCKET || "").trim())
+        : createDiskBlobStore(path.resolve(process.env.BLOB_STORE_DIR || ".data/blobs"));
+  }
+  return globalThis.__changeOrderBlobStore;
+}
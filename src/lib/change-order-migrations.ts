@@ -0,0 +1,141 @@
+import { isLateSubmission, type ChangeOrderInput } from "./change-order-schema";
+import type { RecordMigration } from "./migrations";
+import { moneyFromLegacy } from "./money";
+import type { StoredChangeOrder } from "./change-order-store";
+import { toReviewSlaRules, trackReviewSla } from "./review-sla";
+
+function inputAmountsToCents(input: ChangeOrderInput): ChangeOrderInput {
+  return {
+    ...input,
+    materialCost: moneyFromLegacy(input.materialCost),
+    laborCost: moneyFromLegacy(input.laborCost),
+    additionalCharges: moneyFromLegacy(input.additionalCharges),
+    lineItems: input.lineItems.map((lineItem) => ({ ...lineItem, unitPrice: moneyFromLegacy(lineItem.unitPrice) })),
+  };
+}
+
+// Record-level upgrades for stored change orders. Append new versions; never rewrite a shipped one.
+export const changeOrderRecordMigrations: RecordMigration<StoredChangeOrder>[] = [
+  {
+    version: 1,
+    name: "backfill_review_and_decision_email_fields",
+    // Records written before the team queue and decision emails existed lack these fields.
+    up: (record) => ({
+      ...record,
+      updatedAt: record.updatedAt ?? record.createdAt ?? new Date().toISOString(),
+      teamStatus:
+        record.teamStatus === "DENIED" || record.teamStatus === "APPROVED" || record.teamStatus === "NEEDS_INFO"
+          ? record.teamStatus
+          : record.teamStatus === "IN_REVIEW"
+            ? "IN_REVIEW"
+            : "NEW",
+      decisionStatus: record.decisionStatus ?? "PENDING",
+      needsInfoChecklist: record.needsInfoChecklist ?? [],
+      reviewerNotes: record.reviewerNotes ?? "",
+      isFinalized: record.isFinalized ?? false,
+      decisionEmailStatus: record.decisionEmailStatus ?? "PENDING",
+    }),
+  },
+  {
+    version: 2,
+    name: "backfill_revisions",
+    up: (record) => ({
+      ...record,
+      revisions: record.revisions ?? [],
+    }),
+  },
+  {
+    version: 3,
+    name: "backfill_history",
+    // Reconstruct what we can from timestamps; edits before this version were not tracked.
+    up: (record) => {
+      if (record.history) {
+        return record;
+      }
+      const actor = record.input.contractorEmail || record.input.contractorName || "contractor";
+      const history: StoredChangeOrder["history"] = [
+        { type: "CREATED", at: record.createdAt, actor, summary: "Change order created." },
+      ];
+      if (record.submittedAt) {
+        history.push({ type: "SUBMITTED", at: record.submittedAt, actor, summary: "Submitted for review." });
+      } else if (record.status === "BLOCKED") {
+        history.push({ type: "BLOCKED", at: record.createdAt, actor, summary: "Submission blocked by checklist." });
+      }
+      if (record.decisionAt && record.decisionStatus !== "PENDING") {
+        history.push({
+          type: "DECISION_MADE",
+          at: record.decisionAt,
+          actor: record.decisionBy || "Remi team",
+          summary: `Decision recorded: ${record.decisionStatus}.`,
+        });
+      }
+      return { ...record, history };
+    },
+  },
+  {
+    version: 4,
+    name: "backfill_is_late",
+    up: (record) => ({
+      ...record,
+      isLate:
+        record.isLate ??
+        (record.status === "DRAFT"
+          ? false
+          : isLateSubmission(record.input.workPerformedAt, record.submittedAt ?? record.createdAt)),
+    }),
+  },
+  {
+    version: 5,
+    name: "backfill_photo_evidence",
+    // Evidence is only computed at submit time; older records show no flags rather than guessing.
+    up: (record) => ({
+      ...record,
+      photoEvidence: record.photoEvidence ?? [],
+    }),
+  },
+  {
+    version: 6,
+    name: "backfill_duplicate_matches",
+    up: (record) => ({
+      ...record,
+      duplicateMatches: record.duplicateMatches ?? [],
+    }),
+  },
+  {
+    version: 7,
+    name: "backfill_line_item_categories",
+    // Line items predate cost categories; treat them as material priced in the header's unit.
+    up: (record) => ({
+      ...record,
+      input: {
+        ...record.input,
+        lineItems: record.input.lineItems.map((lineItem) => ({
+          ...lineItem,
+          category: lineItem.category ?? "MATERIAL",
+          unitLabel: lineItem.unitLabel ?? record.input.unitLabel,
+        })),
+      },
+    }),
+  },
+  {
+    version: 8,
+    name: "amounts_to_cents",
+    // Amounts were JavaScript numbers of dollars; convert them, and the revision snapshots, to cents.
+    up: (record) => ({
+      ...record,
+      input: inputAmountsToCents(record.input),
+      revisions: record.revisions.map((revision) => ({ ...revision, input: inputAmountsToCents(revision.input) })),
+      approvedAmount: record.approvedAmount === undefined ? undefined : moneyFromLegacy(record.approvedAmount),
+    }),
+  },
+  {
+    version: 9,
+    name: "backfill_review_sla",
+    // Default targets; clocks for items already in review start at the upgrade so it does not escalate the
+    // whole backlog at once.
+    up: (record) =>
+      record.sla || record.status !== "SUBMITTED"
+        ? record
+        : trackReviewSla({ ...record, sla: { rules: toReviewSlaRules() } }, new Date().toISOString()),
+  },
+];
@@ -0,0 +1,354 @@
+import { z } from "zod";
+
+import { getNextApprovalStep, getSignoffError } from "./approval-chain";
+import { isStaff, type SessionUser } from "./auth";
+import { getChangeOrderTotal } from "./change-order-schema";
+import { searchChangeOrders } from "./change-order-search";
+import type {
+  Assignment,
+  DecisionEmailStatus,
+  DecisionStatus,
+  StoredChangeOrder,
+  TeamQueueStatus,
+} from "./change-order-store";
+import { type Money, moneySchema } from "./money";
+import { isReviewOverdue, type SlaStatus } from "./review-sla";
+
+const submissionStatuses = ["DRAFT", "SUBMITTED", "BLOCKED", "EXPIRED"] as const;
+const teamStatuses = [
+  "NEW",
+  "IN_REVIEW",
+  "NEEDS_INFO",
+  "PENDING_SECOND_APPROVAL",
+  "APPROVED",
+  "PARTIALLY_APPROVED",
+  "DENIED",
+] as const satisfies readonly TeamQueueStatus[];
+const decisionStatuses = [
+  "PENDING",
+  "NEEDS_INFO",
+  "PENDING_SECOND_APPROVAL",
+  "APPROVED",
+  "PARTIALLY_APPROVED",
+  "DENIED",
+] as const satisfies readonly DecisionStatus[];
+
+export const CHANGE_ORDER_SORT_KEYS = [
+  "createdAt",
+  "updatedAt",
+  "submittedAt",
+  "workPerformedAt",
+  "decisionAt",
+  "amount",
+  "projectId",
+  "contractor",
+  "slaDueAt",
+] as const;
+export type ChangeOrderSortKey = (typeof CHANGE_ORDER_SORT_KEYS)[number];
+
+// Comma-separated values in one query parameter, e.g. `decisionStatus=PENDING,NEEDS_INFO`.
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function listParam<T extends string>(values: readonly [T, ...T[]]) {
+  return z
+    .string()
+    .transform(splitList)
+    .pipe(z.array(z.enum(values)))
+    .optional();
+}
+
+// A date or an ISO date-time; ranges compare at the precision given, so `submittedTo=2026-03-02` includes that day.
+const dateParam = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z?)?$/, "Use a date (2026-03-02) or an ISO date-time")
+  .optional();
+
+const flagParam = z
+  .enum(["1", "0", "true", "false"])
+  .transform((value) => value === "1" || value === "true")
+  .optional();
+
+/** Query parameters accepted by `GET /api/change-orders`; every filter is optional and they combine with AND. */
+export const changeOrderQuerySchema = z.object({
+  status: listParam(submissionStatuses),
+  teamStatus: listParam(teamStatuses),
+  decisionStatus: listParam(decisionStatuses),
+  projectId: z.string().transform(splitList).optional(),
+  /** Case-insensitive match on the contractor's name or email. */
+  contractor: z.string().trim().optional(),
+  submittedFrom: dateParam,
+  submittedTo: dateParam,
+  workPerformedFrom: dateParam,
+  workPerformedTo: dateParam,
+  /** Bounds on the requested total, in the same form as other amounts ("1500", "1500.00"). */
+  minAmount: moneySchema.optional(),
+  maxAmount: moneySchema.optional(),
+  /** Search words; every one must match (see `searchChangeOrders`). */
+  q: z.string().trim().optional(),
+  isLate: flagParam,
+  awaitingMySignoff: flagParam,
+  /** Past the review due time of their current status. */
+  overdue: flagParam,
+  /** "me" for the caller's own queue, "none" for unassigned work, or a user id. */
+  assignee: z.string().trim().min(1).optional(),
+  sort: z.enum(CHANGE_ORDER_SORT_KEYS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+});
+
+export type ChangeOrderQuery = z.infer<typeof changeOrderQuerySchema>;
+
+/** What list views need per change order; photos, history, revisions and email bodies stay on the full record. */
+export type ChangeOrderSummary = {
+  id: string;
+  status: StoredChangeOrder["status"];
+  createdAt: string;
+  updatedAt: string;
+  submittedAt?: string;
+  resubmittedAt?: string;
+  projectId: string;
+  contractorName: string;
+  contractorEmail: string;
+  workPerformedAt: string;
+  scope: string;
+  totalRequested: Money;
+  approvedAmount?: Money;
+  isLate: boolean;
+  isFinalized: boolean;
+  teamStatus: TeamQueueStatus;
+  decisionStatus: DecisionStatus;
+  decisionAt?: string;
+  decisionBy?: string;
+  denialReasonTitle?: string;
+  /** Next approval step waiting for a signoff. */
+  pendingSignoffStep?: string;
+  photoCount: number;
+  /** Photos with at least one evidence flag. */
+  flaggedPhotoCount: number;
+  /** Score of the most similar earlier submission, 0-1. */
+  duplicateScore?: number;
+  decisionEmailStatus: DecisionEmailStatus;
+  assignee?: Assignment;
+  /** Status whose review clock is running, and when it is due. */
+  slaStatus?: SlaStatus;
+  slaDueAt?: string;
+  isOverdue: boolean;
+  slaEscalatedAt?: string;
+};
+
+export type ChangeOrderPage = {
+  changeOrders: ChangeOrderSummary[];
+  /** Matches across all pages. */
+  total: number;
+  /** Pass back as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+};
+
+export function toChangeOrderSummary(record: StoredChangeOrder): ChangeOrderSummary {
+  const chain = record.decisionStatus === "PENDING_SECOND_APPROVAL" ? record.approvalChain : undefined;
+  return {
+    id: record.id,
+    status: record.status,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    submittedAt: record.submittedAt,
+    resubmittedAt: record.resubmittedAt,
+    projectId: record.input.projectId,
+    contractorName: record.input.contractorName,
+    contractorEmail: record.input.contractorEmail,
+    workPerformedAt: record.input.workPerformedAt,
+    scope: record.input.scope,
+    totalRequested: getChangeOrderTotal(record.input),
+    approvedAmount: record.approvedAmount,
+    isLate: record.isLate,
+    isFinalized: record.isFinalized,
+    teamStatus: record.teamStatus,
+    decisionStatus: record.decisionStatus,
+    decisionAt: record.decisionAt,
+    decisionBy: record.decisionBy,
+    denialReasonTitle: record.denialReason?.title ?? record.denialReasonCode,
+    pendingSignoffStep: chain ? getNextApprovalStep(chain)?.name : undefined,
+    photoCount: record.input.photos.length,
+    flaggedPhotoCount: (record.photoEvidence ?? []).filter((photo) => photo.flags.length > 0).length,
+    duplicateScore: record.duplicateMatches?.[0]?.score,
+    decisionEmailStatus: record.decisionEmailStatus,
+    assignee: record.assignee,
+    slaStatus: record.sla?.status,
+    slaDueAt: record.sla?.dueAt,
+    isOverdue: isReviewOverdue(record),
+    slaEscalatedAt: record.sla?.escalatedAt,
+  };
+}
+
+// Inclusive at the precision of the bound: "2026-03-02" matches any time that day.
+function inDateRange(value: string | undefined, from?: string, to?: string): boolean {
+  if (!from && !to) {
+    return true;
+  }
+  if (!value) {
+    return false;
+  }
+  return (!from || value >= from) && (!to || value.slice(0, to.length) <= to);
+}
+
+function matchesQuery(record: StoredChangeOrder, query: ChangeOrderQuery, user: SessionUser): boolean {
+  const input = record.input;
+  if (query.status?.length && !query.status.includes(record.status)) {
+    return false;
+  }
+  if (query.teamStatus?.length && !query.teamStatus.includes(record.teamStatus)) {
+    return false;
+  }
+  if (query.decisionStatus?.length && !query.decisionStatus.includes(record.decisionStatus)) {
+    return false;
+  }
+  if (query.projectId?.length && !query.projectId.includes(input.projectId)) {
+    return false;
+  }
+  if (query.contractor) {
+    const needle = query.contractor.toLowerCase();
+    if (![input.contractorName, input.contractorEmail].some((value) => value.toLowerCase().includes(needle))) {
+      return false;
+    }
+  }
+  if (!inDateRange(record.submittedAt, query.submittedFrom, query.submittedTo)) {
+    return false;
+  }
+  if (!inDateRange(input.workPerformedAt, query.workPerformedFrom, query.workPerformedTo)) {
+    return false;
+  }
+  const total = getChangeOrderTotal(input);
+  for (const [bound, inRange] of [
+    [query.minAmount, (cents: number) => total.amountCents >= cents],
+    [query.maxAmount, (cents: number) => total.amountCents <= cents],
+  ] as const) {
+    // Amounts in another currency cannot be compared, so they never match a bound.
+    if (bound && (bound.currency !== total.currency || !inRange(bound.amountCents))) {
+      return false;
+    }
+  }
+  if (query.isLate !== undefined && record.isLate !== query.isLate) {
+    return false;
+  }
+  if (query.awaitingMySignoff) {
+    const chain = record.decisionStatus === "PENDING_SECOND_APPROVAL" ? record.approvalChain : undefined;
+    if (!chain || getSignoffError(user, chain) !== null) {
+      return false;
+    }
+  }
+  if (query.overdue !== undefined && isReviewOverdue(record) !== query.overdue) {
+    return false;
+  }
+  if (query.assignee) {
+    const assigneeId = record.assignee?.userId ?? "none";
+    if (assigneeId !== (query.assignee === "me" ? user.id : query.assignee)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Records matching every filter in `query`, including its search words, in their original order. */
+export function filterChangeOrders(
+  records: StoredChangeOrder[],
+  query: ChangeOrderQuery,
+  user: SessionUser,
+): StoredChangeOrder[] {
+  const searched = query.q
+    ? new Set(searchChangeOrders(records, query.q, { includeStaffFields: isStaff(user) }).map((hit) => hit.record.id))
+    : null;
+  return records.filter((record) => (!searched || searched.has(record.id)) && matchesQuery(record, query, user));
+}
+
+type SortValue = string | number | null;
+
+function sortValue(record: StoredChangeOrder, key: ChangeOrderSortKey): SortValue {
+  switch (key) {
+    case "amount":
+      return getChangeOrderTotal(record.input).amountCents;
+    case "projectId":
+      return record.input.projectId;
+    case "contractor":
+      return record.input.contractorName.toLowerCase();
+    case "workPerformedAt":
+      return record.input.workPerformedAt || null;
+    case "slaDueAt":
+      return record.sla?.dueAt ?? null;
+    default:
+      return record[key] ?? null;
+  }
+}
+
+// Records without a value (e.g. drafts when sorting by submittedAt) go last in both directions; ids break ties.
+function compareKeys(a: [SortValue, string], b: [SortValue, string], order: "asc" | "desc"): number {
+  const direction = order === "asc" ? 1 : -1;
+  if (a[0] !== b[0]) {
+    if (a[0] === null) {
+      return 1;
+    }
+    if (b[0] === null) {
+      return -1;
+    }
+    return (a[0] < b[0] ? -1 : 1) * direction;
+  }
+  return a[1] === b[1] ? 0 : (a[1] < b[1] ? -1 : 1) * direction;
+}
+
+type Cursor = { sort: ChangeOrderSortKey; order: "asc" | "desc"; after: [SortValue, string] };
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as Cursor;
+    return Array.isArray(cursor.after) && cursor.after.length === 2 ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filters, sorts and pages `records` (already limited to what `user` may see). The cursor holds the sort
+ * position of the last item returned rather than an offset, so pages stay stable while new items arrive.
+ * Returns null when the cursor is malformed or was issued for a different sort.
+ */
+export function queryChangeOrders(
+  records: StoredChangeOrder[],
+  query: ChangeOrderQuery,
+  user: SessionUser,
+): ChangeOrderPage | null {
+  const key = (record: StoredChangeOrder): [SortValue, string] => [sortValue(record, query.sort), record.id];
+  const matches = filterChangeOrders(records, query, user).sort((a, b) => compareKeys(key(a), key(b), query.order));
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor || cursor.sort !== query.sort || cursor.order !== query.order) {
+      return null;
+    }
+    start = matches.findIndex((record) => compareKeys(key(record), cursor.after, query.order) > 0);
+    if (start === -1) {
+      start = matches.length;
+    }
+  }
+
+  const page = matches.slice(start, start + query.limit);
+  const last = page.at(-1);
+  return {
+    changeOrders: page.map(toChangeOrderSummary),
+    total: matches.length,
+    nextCursor:
+      last && start + page.length < matches.length
+        ? encodeCursor({ sort: query.sort, order: query.order, after: key(last) })
+        : null,
+  };
+}
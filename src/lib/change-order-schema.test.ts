@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { type ChangeOrderInput, evaluateChecklist, normalizeDraftInput } from "./change-order-schema";
+import { money } from "./money";
+import { DEFAULT_SUBMISSION_POLICY_RULES, type SubmissionPolicyRules } from "./submission-policy";
+
+function input(currency: string, overrides: Partial<ChangeOrderInput> = {}): ChangeOrderInput {
+  return {
+    ...normalizeDraftInput({
+      projectId: "P1",
+      scope: "Retile the lobby",
+      quantity: 2,
+      materialCost: money(40000, currency),
+      laborCost: money(20000, currency),
+      additionalCharges: money(0, currency),
+      whyNeeded: "Damaged tiles",
+      whyNotInTurnKey: "Found after demolition",
+    }),
+    ...overrides,
+  };
+}
+
+function policy(overrides: Partial<SubmissionPolicyRules>): SubmissionPolicyRules {
+  return { ...DEFAULT_SUBMISSION_POLICY_RULES, ...overrides };
+}
+
+function codes(violations: ReturnType<typeof evaluateChecklist>): string[] {
+  return violations.map((violation) => violation.code);
+}
+
+describe("evaluateChecklist", () => {
+  it("applies the photo threshold in the change order's currency", () => {
+    const rules = policy({ requirePhotos: true, photosRequiredFromAmount: money(50000, "EUR") });
+
+    expect(codes(evaluateChecklist(input("EUR"), rules))).toEqual(["photos_missing"]);
+    expect(codes(evaluateChecklist(input("EUR", { materialCost: money(10000, "EUR") }), rules))).toEqual([]);
+  });
+
+  it("flags a photo threshold in another currency instead of comparing the cents", () => {
+    // 600.00 EUR is below 1,000.00 USD by cents alone, which would wrongly skip the photo requirement.
+    const rules = policy({ requirePhotos: true, photosRequiredFromAmount: money(100000, "USD") });
+
+    expect(codes(evaluateChecklist(input("EUR"), rules))).toEqual(["photos_threshold_currency_mismatch"]);
+    // A zero threshold means photos are always required, whatever the currency.
+    expect(
+      codes(evaluateChecklist(input("EUR"), policy({ requirePhotos: true, photosRequiredFromAmount: money(0) }))),
+    ).toEqual(["photos_missing"]);
+  });
+
+  it("flags a line item tolerance in another currency instead of comparing the cents", () => {
+    const lineItems: ChangeOrderInput["lineItems"] = [
+      { description: "Tile", category: "MATERIAL", unitLabel: "box", quantity: 1, unitPrice: money(39990, "EUR") },
+      { description: "Install", category: "LABOR", unitLabel: "hour", quantity: 2, unitPrice: money(10000, "EUR") },
+    ];
+    const multiItem = input("EUR", { isMultiItem: true, lineItems, photos: ["att_000000000000000000000001"] });
+
+    expect(codes(evaluateChecklist(multiItem, policy({ lineItemTolerance: money(1000, "EUR") })))).toEqual([]);
+    expect(codes(evaluateChecklist(multiItem, policy({ lineItemTolerance: money(1000, "USD") })))).toEqual([
+      "line_item_tolerance_currency_mismatch",
+    ]);
+  });
+});
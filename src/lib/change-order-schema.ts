@@ -1,5 +1,20 @@
 import { z } from "zod";
 
+import {
+  addMoney,
+  formatMoney,
+  type Money,
+  multiplyMoney,
+  nonNegativeMoneySchema,
+  subtractMoney,
+  zeroMoney,
+} from "./money";
+import {
+  DEFAULT_SUBMISSION_POLICY_RULES,
+  getSubmissionDeadline,
+  type SubmissionPolicyRules,
+} from "./submission-policy";
+
 const strictEmailRegex =
   /^(?!.*\.\.)([A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*)@([A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+)$/;
 
@@ -9,14 +24,24 @@ const strictEmailSchema = z
   .email("Valid contractor email is required")
   .refine((value) => strictEmailRegex.test(value), "Valid contractor email is required");
 
+// Photos are uploaded through /api/attachments first; records only keep the attachment ids.
+export const ATTACHMENT_ID_PATTERN = /^att_[a-f0-9]{24}$/;
+
+// Each category reconciles against one header amount: labor, material, and additional charges.
+export const LINE_ITEM_CATEGORIES = ["LABOR", "MATERIAL", "OTHER"] as const;
+export type LineItemCategory = (typeof LINE_ITEM_CATEGORIES)[number];
+
 export const lineItemSchema = z.object({
   // Keep parse permissive; checklist rules enforce completeness for final submit.
   description: z.string().default(""),
+  category: z.enum(LINE_ITEM_CATEGORIES).default("MATERIAL"),
+  unitLabel: z.string().default(""),
   quantity: z.coerce.number().nonnegative("Line item quantity must be 0 or greater"),
-  unitPrice: z.coerce.number().nonnegative("Line item unit price must be 0 or greater"),
+  unitPrice: nonNegativeMoneySchema("Line item unit price must be 0 or greater"),
 });
 
-export const changeOrderInputSchema = z.object({
+// Amounts are parsed into integer cents; a change order is priced in a single currency.
+const changeOrderFieldsSchema = z.object({
   projectId: z.string().min(1, "Project is required"),
   contractorName: z.string().min(1, "Contractor name is required"),
   contractorEmail: strictEmailSchema,
@@ -24,29 +49,109 @@ export const changeOrderInputSchema = z.object({
   scope: z.string().min(1, "Scope of change is required"),
   quantity: z.coerce.number().positive("Quantity/area/amount must be greater than 0"),
   unitLabel: z.string().min(1, "Unit label is required"),
-  materialCost: z.coerce.number().nonnegative("Material cost must be 0 or greater"),
-  laborCost: z.coerce.number().nonnegative("Labor cost must be 0 or greater"),
-  additionalCharges: z.coerce.number().nonnegative("Additional charges must be 0 or greater"),
+  materialCost: nonNegativeMoneySchema("Material cost must be 0 or greater"),
+  laborCost: nonNegativeMoneySchema("Labor cost must be 0 or greater"),
+  additionalCharges: nonNegativeMoneySchema("Additional charges must be 0 or greater"),
   additionalChargesReason: z.string().optional().default(""),
   whyNeeded: z.string().min(1, "Explain why this change order is needed"),
-  whyNotInTurnKey: z.string().min(1, "Explain why this was not included in turn-key pricing"),
-  photos: z.array(z.string()).default([]),
+  // Required or not depending on the project's policy; enforced by the checklist.
+  whyNotInTurnKey: z.string().optional().default(""),
+  photos: z
+    .array(z.string().regex(ATTACHMENT_ID_PATTERN, "Photos must be uploaded before they are attached"))
+    .default([]),
   isMultiItem: z.boolean().default(false),
   lineItems: z.array(lineItemSchema).default([]),
 });
 
-export type ChangeOrderInput = z.infer<typeof changeOrderInputSchema>;
-export const changeOrderDraftInputSchema = changeOrderInputSchema.partial();
+function requireSingleCurrency(
+  input: Partial<Pick<ChangeOrderInput, "materialCost" | "laborCost" | "additionalCharges" | "lineItems">>,
+  context: z.RefinementCtx,
+) {
+  const amounts = [
+    input.materialCost,
+    input.laborCost,
+    input.additionalCharges,
+    ...(input.lineItems ?? []).map((lineItem) => lineItem.unitPrice),
+  ];
+  const currencies = new Set(amounts.filter((amount) => amount !== undefined).map((amount) => amount.currency));
+  if (currencies.size > 1) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "All amounts must use the same currency" });
+  }
+}
+
+export const changeOrderInputSchema = changeOrderFieldsSchema.superRefine(requireSingleCurrency);
+/** For schemas that add fields to the change order input, such as the revision payload. */
+export function extendChangeOrderInputSchema<T extends z.ZodRawShape>(shape: T) {
+  return changeOrderFieldsSchema.extend(shape).superRefine(requireSingleCurrency);
+}
+
+export type ChangeOrderInput = z.infer<typeof changeOrderFieldsSchema>;
+export const changeOrderDraftInputSchema = changeOrderFieldsSchema.partial().superRefine(requireSingleCurrency);
 export type ChangeOrderDraftInput = z.infer<typeof changeOrderDraftInputSchema>;
 
+/** Header total: material, labor and additional charges. */
+export function getChangeOrderTotal(input: ChangeOrderInput): Money {
+  return addMoney(input.materialCost, input.laborCost, input.additionalCharges);
+}
+
+export function getLineItemTotal(lineItem: ChangeOrderInput["lineItems"][number]): Money {
+  return multiplyMoney(lineItem.unitPrice, lineItem.quantity);
+}
+
 export type ChecklistViolation = {
   code: string;
   message: string;
 };
 
-export function evaluateChecklist(input: ChangeOrderInput): ChecklistViolation[] {
+export type CostBreakdownRow = {
+  category: LineItemCategory;
+  lineItemTotal: Money;
+  headerAmount: Money;
+  difference: Money;
+};
+
+const categoryLabels: Record<LineItemCategory, string> = {
+  LABOR: "Labor",
+  MATERIAL: "Material",
+  OTHER: "Other",
+};
+
+/** Line item totals per cost category next to the header amount each one should add up to. */
+export function getCostBreakdown(input: ChangeOrderInput): CostBreakdownRow[] {
+  const headerAmounts: Record<LineItemCategory, Money> = {
+    LABOR: input.laborCost,
+    MATERIAL: input.materialCost,
+    OTHER: input.additionalCharges,
+  };
+  return LINE_ITEM_CATEGORIES.map((category) => {
+    const headerAmount = headerAmounts[category];
+    const lineItemTotal = addMoney(
+      zeroMoney(headerAmount.currency),
+      ...input.lineItems.filter((lineItem) => lineItem.category === category).map(getLineItemTotal),
+    );
+    return { category, lineItemTotal, headerAmount, difference: subtractMoney(lineItemTotal, headerAmount) };
+  });
+}
+
+// A policy amount only compares with a change order priced in its currency; zero is the same in any currency.
+function isComparable(policyAmount: Money, currency: string): boolean {
+  return policyAmount.amountCents === 0 || policyAmount.currency === currency;
+}
+
+function currencyMismatch(code: string, rule: string, policyAmount: Money, currency: string): ChecklistViolation {
+  return {
+    code,
+    message: `The ${rule} is set in ${policyAmount.currency} but this change order is priced in ${currency}; price it in ${policyAmount.currency}.`,
+  };
+}
+
+/** Checks that apply to every project regardless of policy, plus the ones the project's policy requires. */
+export function evaluateChecklist(
+  input: ChangeOrderInput,
+  policy: SubmissionPolicyRules = DEFAULT_SUBMISSION_POLICY_RULES,
+): ChecklistViolation[] {
   const violations: ChecklistViolation[] = [];
-  const totalCost = input.materialCost + input.laborCost + input.additionalCharges;
+  const totalCost = getChangeOrderTotal(input);
 
   if (!input.scope.trim()) {
     violations.push({ code: "scope_missing", message: "Scope of change order is required." });
@@ -56,21 +161,21 @@ export function evaluateChecklist(input: ChangeOrderInput): ChecklistViolation[]
     violations.push({ code: "quantity_missing", message: "Quantity/area/amount must be greater than 0." });
   }
 
-  if (input.materialCost < 0 || input.laborCost < 0) {
+  if (input.materialCost.amountCents < 0 || input.laborCost.amountCents < 0) {
     violations.push({
       code: "pricing_invalid",
       message: "Labor and material pricing must be included and non-negative.",
     });
   }
 
-  if (input.additionalCharges > 0 && !input.additionalChargesReason.trim()) {
+  if (input.additionalCharges.amountCents > 0 && !input.additionalChargesReason.trim()) {
     violations.push({
       code: "additional_charges_reason_missing",
       message: "Additional charges must include a clear explanation.",
     });
   }
 
-  if (input.quantity > 0 && totalCost / input.quantity <= 0) {
+  if (input.quantity > 0 && totalCost.amountCents <= 0) {
     violations.push({
       code: "unit_price_unclear",
       message: "Price per unit must be determinable and greater than 0.",
@@ -84,63 +189,117 @@ export function evaluateChecklist(input: ChangeOrderInput): ChecklistViolation[]
     });
   }
 
-  if (!input.whyNotInTurnKey.trim()) {
+  if (policy.requireTurnKeyJustification && !input.whyNotInTurnKey.trim()) {
     violations.push({
       code: "turnkey_justification_missing",
       message: "Include why this charge was not in turn-key pricing.",
     });
   }
 
-  if (input.photos.length === 0) {
+  if (policy.requirePhotos && !isComparable(policy.photosRequiredFromAmount, totalCost.currency)) {
+    violations.push(
+      currencyMismatch(
+        "photos_threshold_currency_mismatch",
+        "photo requirement",
+        policy.photosRequiredFromAmount,
+        totalCost.currency,
+      ),
+    );
+  } else if (
+    policy.requirePhotos &&
+    totalCost.amountCents >= policy.photosRequiredFromAmount.amountCents &&
+    input.photos.length === 0
+  ) {
     violations.push({
       code: "photos_missing",
-      message: "At least one supporting photo is required.",
+      message:
+        policy.photosRequiredFromAmount.amountCents > 0
+          ? `At least one supporting photo is required for change orders of ${formatMoney(policy.photosRequiredFromAmount)} or more.`
+          : "At least one supporting photo is required.",
     });
   }
 
-  if (input.isMultiItem) {
-    if (input.lineItems.length < 2) {
+  if (input.isMultiItem && policy.requireLineItemsForMultiItem) {
+    if (input.lineItems.length < policy.minLineItems) {
       violations.push({
         code: "line_items_missing",
-        message: "Multiple-item change orders require at least two line items.",
+        message: `Multiple-item change orders require at least ${policy.minLineItems} line items.`,
       });
     }
 
     for (const [index, lineItem] of input.lineItems.entries()) {
-      if (!lineItem.description.trim() || lineItem.quantity <= 0 || lineItem.unitPrice < 0) {
+      if (
+        !lineItem.description.trim() ||
+        !lineItem.unitLabel.trim() ||
+        lineItem.quantity <= 0 ||
+        lineItem.unitPrice.amountCents < 0
+      ) {
         violations.push({
           code: `line_item_${index + 1}_invalid`,
-          message: `Line item ${index + 1} needs description, quantity, and unit price.`,
+          message: `Line item ${index + 1} needs description, quantity, unit label, and unit price.`,
         });
       }
     }
   }
 
+  if (input.isMultiItem && input.lineItems.length > 0 && !isComparable(policy.lineItemTolerance, totalCost.currency)) {
+    violations.push(
+      currencyMismatch(
+        "line_item_tolerance_currency_mismatch",
+        "line item tolerance",
+        policy.lineItemTolerance,
+        totalCost.currency,
+      ),
+    );
+  } else if (input.isMultiItem && input.lineItems.length > 0) {
+    const mismatches = getCostBreakdown(input).filter(
+      (row) => Math.abs(row.difference.amountCents) > policy.lineItemTolerance.amountCents,
+    );
+    if (mismatches.length > 0) {
+      const details = mismatches
+        .map(
+          (row) =>
+            `${categoryLabels[row.category]} line items total ${formatMoney(row.lineItemTotal)} ` +
+            `but the header amount is ${formatMoney(row.headerAmount)}`,
+        )
+        .join("; ");
+      violations.push({
+        code: "line_items_unreconciled",
+        message: `Line items must add up to the header pricing within ${formatMoney(policy.lineItemTolerance)}: ${details}.`,
+      });
+    }
+  }
+
   return violations;
 }
 
-export function isPast24Hours(workPerformedAtIso: string): boolean {
-  const workPerformedAt = new Date(workPerformedAtIso);
-  if (Number.isNaN(workPerformedAt.getTime())) {
+/** Whether a submission at `submittedAtIso` fell outside the policy's window after the work was performed. */
+export function isLateSubmission(
+  workPerformedAtIso: string,
+  submittedAtIso: string,
+  policy: SubmissionPolicyRules = DEFAULT_SUBMISSION_POLICY_RULES,
+): boolean {
+  const deadline = getSubmissionDeadline(workPerformedAtIso, policy);
+  const submittedAt = new Date(submittedAtIso);
+  if (!deadline || Number.isNaN(submittedAt.getTime())) {
     return true;
   }
 
-  const elapsedMs = Date.now() - workPerformedAt.getTime();
-  return elapsedMs > 24 * 60 * 60 * 1000;
+  return submittedAt.getTime() > deadline.getTime();
 }
 
 export function normalizeDraftInput(input: ChangeOrderDraftInput): ChangeOrderInput {
   return {
-    projectId: input.projectId ?? "POC-DEMO-001",
+    projectId: input.projectId ?? "",
     contractorName: input.contractorName ?? "",
     contractorEmail: input.contractorEmail ?? "",
     workPerformedAt: input.workPerformedAt ?? "",
     scope: input.scope ?? "",
     quantity: input.quantity ?? 0,
     unitLabel: input.unitLabel ?? "sq ft",
-    materialCost: input.materialCost ?? 0,
-    laborCost: input.laborCost ?? 0,
-    additionalCharges: input.additionalCharges ?? 0,
+    materialCost: input.materialCost ?? zeroMoney(),
+    laborCost: input.laborCost ?? zeroMoney(),
+    additionalCharges: input.additionalCharges ?? zeroMoney(),
     additionalChargesReason: input.additionalChargesReason ?? "",
     whyNeeded: input.whyNeeded ?? "",
     whyNotInTurnKey: input.whyNotInTurnKey ?? "",
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeDraftInput } from "./change-order-schema";
+import { searchChangeOrders, syncChangeOrderSearchIndex } from "./change-order-search";
+import type { StoredChangeOrder } from "./change-order-store";
+
+function changeOrder(id: string, scope: string, overrides: Partial<StoredChangeOrder> = {}): StoredChangeOrder {
+  return {
+    id,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    status: "SUBMITTED",
+    input: normalizeDraftInput({ projectId: "P1", scope }),
+    isLate: false,
+    photoEvidence: [],
+    duplicateMatches: [],
+    teamStatus: "NEW",
+    reviewerNotes: "",
+    decisionStatus: "PENDING",
+    needsInfoChecklist: [],
+    revisions: [],
+    history: [],
+    isFinalized: false,
+    decisionEmailStatus: "PENDING",
+    ...overrides,
+  };
+}
+
+function scores(records: StoredChangeOrder[], query: string, includeStaffFields: boolean) {
+  return searchChangeOrders(records, query, { includeStaffFields }).map((hit) => [hit.record.id, hit.score]);
+}
+
+describe("searchChangeOrders", () => {
+  it("ranks a contractor's results the same whatever hidden notes and change orders contain", () => {
+    const own = [changeOrder("co_a", "New tile in the lobby"), changeOrder("co_b", "Paint the lobby")];
+    syncChangeOrderSearchIndex(own);
+    const before = scores(own, "lobby tile", false);
+    expect(before.map(([id]) => id)).toEqual(["co_a"]);
+
+    const noted = changeOrder("co_b", "Paint the lobby", {
+      reviewerNotes: "Check the tile invoice",
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+    const someoneElses = changeOrder("co_c", "Tile the kitchen", { createdBy: "usr_other" });
+    syncChangeOrderSearchIndex([own[0], noted, someoneElses]);
+
+    expect(scores([own[0], noted], "lobby tile", false)).toEqual(before);
+  });
+
+  it("matches and counts reviewer notes for staff", () => {
+    const records = [
+      changeOrder("co_d", "Replace the door", { reviewerNotes: "Hinge quote looks high" }),
+      changeOrder("co_e", "Replace the window"),
+    ];
+    syncChangeOrderSearchIndex(records);
+
+    expect(scores(records, "hinge", false)).toEqual([]);
+    expect(scores(records, "hinge", true).map(([id]) => id)).toEqual(["co_d"]);
+  });
+});
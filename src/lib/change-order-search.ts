@@ -0,0 +1,272 @@
+import type { StoredChangeOrder } from "./change-order-store";
+
+// Relative weight of a match in each field; a scope match counts three times one in a justification.
+const fieldWeights = {
+  scope: 3,
+  contractor: 2.5,
+  lineItems: 2,
+  whyNeeded: 1.5,
+  whyNotInTurnKey: 1,
+  additionalChargesReason: 1,
+  reviewerNotes: 1,
+} as const;
+
+export type SearchField = keyof typeof fieldWeights;
+
+// Internal notes are never matched or quoted for contractors.
+const staffOnlyFields: SearchField[] = ["reviewerNotes"];
+
+export type SearchSnippet = {
+  field: SearchField;
+  text: string;
+  /** [start, end) offsets into `text` of the matched words. */
+  highlights: [number, number][];
+};
+
+export type ChangeOrderSearchHit = {
+  record: StoredChangeOrder;
+  score: number;
+  snippets: SearchSnippet[];
+};
+
+type IndexedDocument = {
+  updatedAt: string;
+  fields: Record<SearchField, string>;
+  /** Term frequency per field. */
+  terms: Map<string, Partial<Record<SearchField, number>>>;
+};
+
+type SearchIndex = {
+  documents: Map<string, IndexedDocument>;
+  /** Term to the ids of documents containing it. */
+  postings: Map<string, Set<string>>;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __changeOrderSearchIndex: SearchIndex | undefined;
+}
+
+const SNIPPET_RADIUS = 70;
+const MAX_SNIPPETS = 3;
+// Words that only start with a query word (e.g. "tiling" for "til") rank below exact matches.
+const PREFIX_MATCH_FACTOR = 0.7;
+
+// Lower-cased, accents removed and a plural "s" dropped, so "Tiles" and "tile" index the same.
+function normalizeTerm(word: string): string {
+  const term = word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+  return term.length > 3 && term.endsWith("s") && !term.endsWith("ss") ? term.slice(0, -1) : term;
+}
+
+function wordMatches(text: string): { term: string; start: number; end: number }[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+export function parseSearchTerms(query: string): string[] {
+  return [...new Set(wordMatches(query).map((word) => word.term))];
+}
+
+function fieldTexts(record: StoredChangeOrder): Record<SearchField, string> {
+  const input = record.input;
+  return {
+    scope: input.scope,
+    contractor: `${input.contractorName} ${input.contractorEmail}`,
+    lineItems: (input.lineItems ?? []).map((lineItem) => lineItem.description).join("\n"),
+    whyNeeded: input.whyNeeded ?? "",
+    whyNotInTurnKey: input.whyNotInTurnKey ?? "",
+    additionalChargesReason: input.additionalChargesReason ?? "",
+    reviewerNotes: record.reviewerNotes ?? "",
+  };
+}
+
+function getSearchIndex(): SearchIndex {
+  return (globalThis.__changeOrderSearchIndex ??= { documents: new Map(), postings: new Map() });
+}
+
+function removeDocument(index: SearchIndex, id: string) {
+  const existing = index.documents.get(id);
+  for (const term of existing?.terms.keys() ?? []) {
+    index.postings.get(term)?.delete(id);
+  }
+  index.documents.delete(id);
+}
+
+// Re-indexes only records written since they were last indexed, so a search does not re-read every text field.
+function indexRecords(index: SearchIndex, records: StoredChangeOrder[]) {
+  for (const record of records) {
+    if (index.documents.get(record.id)?.updatedAt === record.updatedAt) {
+      continue;
+    }
+    removeDocument(index, record.id);
+
+    const fields = fieldTexts(record);
+    const terms: IndexedDocument["terms"] = new Map();
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const { term } of wordMatches(fields[field])) {
+        const counts = terms.get(term) ?? {};
+        counts[field] = (counts[field] ?? 0) + 1;
+        terms.set(term, counts);
+      }
+    }
+    for (const term of terms.keys()) {
+      const ids = index.postings.get(term) ?? new Set<string>();
+      ids.add(record.id);
+      index.postings.set(term, ids);
+    }
+    index.documents.set(record.id, { updatedAt: record.updatedAt, fields, terms });
+  }
+}
+
+/**
+ * Brings the index in line with the repository: `records` must be every stored change order, and documents
+ * for any other id are dropped so deleted change orders stop matching.
+ */
+export function syncChangeOrderSearchIndex(records: StoredChangeOrder[]): void {
+  const index = getSearchIndex();
+  const ids = new Set(records.map((record) => record.id));
+  for (const id of [...index.documents.keys()]) {
+    if (!ids.has(id)) {
+      removeDocument(index, id);
+    }
+  }
+  for (const [term, postingIds] of index.postings) {
+    if (postingIds.size === 0) {
+      index.postings.delete(term);
+    }
+  }
+  indexRecords(index, records);
+}
+
+// Indexed words that a query term matches: the term itself, or longer words starting with it.
+function expandTerm(index: SearchIndex, queryTerm: string): { term: string; factor: number }[] {
+  const expanded: { term: string; factor: number }[] = [];
+  for (const term of index.postings.keys()) {
+    if (term === queryTerm) {
+      expanded.push({ term, factor: 1 });
+    } else if (term.startsWith(queryTerm)) {
+      expanded.push({ term, factor: PREFIX_MATCH_FACTOR });
+    }
+  }
+  return expanded;
+}
+
+function buildSnippet(field: SearchField, text: string, queryTerms: string[]): SearchSnippet | null {
+  const words = wordMatches(text).filter((word) => queryTerms.some((term) => word.term.startsWith(term)));
+  if (words.length === 0) {
+    return null;
+  }
+  let start = Math.max(0, words[0].start - SNIPPET_RADIUS);
+  let end = Math.min(text.length, words[0].end + SNIPPET_RADIUS);
+  // Widen to whole words so the snippet does not start or end mid-word.
+  while (start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) {
+    start -= 1;
+  }
+  while (end < text.length && /[\p{L}\p{N}]/u.test(text[end])) {
+    end += 1;
+  }
+  const prefix = start > 0 ? "…" : "";
+  const body = text.slice(start, end).replace(/\s+/g, " ");
+  // Collapsing whitespace shifts offsets, so highlights are found again in the collapsed text.
+  const highlights = wordMatches(body)
+    .filter((word) => queryTerms.some((term) => word.term.startsWith(term)))
+    .map((word): [number, number] => [word.start + prefix.length, word.end + prefix.length]);
+  return { field, text: `${prefix}${body}${end < text.length ? "…" : ""}`, highlights };
+}
+
+/**
+ * Ranks `records` against `query`. Every word in the query must match a word in one of the searched fields,
+ * either exactly or as a prefix; scores weigh each field, damp repeated words and favour rarer words.
+ * `records` should already be limited to what the caller may see; staff-only fields are skipped unless
+ * `includeStaffFields` is set. Word rarity is counted over those same records and fields, so text the caller
+ * cannot see never moves a score. Call `syncChangeOrderSearchIndex` with the full listing first.
+ */
+export function searchChangeOrders(
+  records: StoredChangeOrder[],
+  query: string,
+  options: { includeStaffFields: boolean },
+): ChangeOrderSearchHit[] {
+  const queryTerms = parseSearchTerms(query);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const index = getSearchIndex();
+  indexRecords(index, records);
+  const fields = (Object.keys(fieldWeights) as SearchField[]).filter(
+    (field) => options.includeStaffFields || !staffOnlyFields.includes(field),
+  );
+  const expansions = queryTerms.map((term) => expandTerm(index, term));
+
+  const searched = records.flatMap((record) => index.documents.get(record.id) ?? []);
+  const documentCount = Math.max(searched.length, 1);
+  const frequencies = new Map<string, number>();
+  const frequencyOf = (term: string): number => {
+    let frequency = frequencies.get(term);
+    if (frequency === undefined) {
+      frequency = searched.filter((document) => {
+        const counts = document.terms.get(term);
+        return !!counts && fields.some((field) => (counts[field] ?? 0) > 0);
+      }).length;
+      frequencies.set(term, frequency);
+    }
+    return frequency;
+  };
+
+  const hits: ChangeOrderSearchHit[] = [];
+  for (const record of records) {
+    const document = index.documents.get(record.id);
+    if (!document) {
+      continue;
+    }
+    const fieldScores = new Map<SearchField, number>();
+    let score = 0;
+    let matchedAll = true;
+    for (const candidates of expansions) {
+      let best = 0;
+      const bestFields = new Map<SearchField, number>();
+      for (const { term, factor } of candidates) {
+        const counts = document.terms.get(term);
+        if (!counts) {
+          continue;
+        }
+        const frequency = frequencyOf(term);
+        const idf = Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+        const perField = new Map<SearchField, number>();
+        for (const field of fields) {
+          const count = counts[field] ?? 0;
+          if (count > 0) {
+            perField.set(field, fieldWeights[field] * (count / (count + 1.2)) * idf * factor);
+          }
+        }
+        const termScore = [...perField.values()].reduce((sum, value) => sum + value, 0);
+        if (termScore > best) {
+          best = termScore;
+          bestFields.clear();
+          perField.forEach((value, field) => bestFields.set(field, value));
+        }
+      }
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+      bestFields.forEach((value, field) => fieldScores.set(field, (fieldScores.get(field) ?? 0) + value));
+    }
+    if (!matchedAll) {
+      continue;
+    }
+
+    const snippets = [...fieldScores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([field]) => buildSnippet(field, document.fields[field], queryTerms))
+      .filter((snippet): snippet is SearchSnippet => snippet !== null)
+      .slice(0, MAX_SNIPPETS);
+    hits.push({ record, score: Math.round(score * 1000) / 1000, snippets });
+  }
+
+  return hits.sort((a, b) => b.score - a.score || b.record.updatedAt.localeCompare(a.record.updatedAt));
+}
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+
+import type { ApprovalSignoff, ApprovalStep } from "./approval-chain";
+import { normalizeDraftInput } from "./change-order-schema";
+import { applyTeamDecision, type DecisionInput, resubmitWithRevision, saveSubmission } from "./change-order-store";
+import type { DenialReasonSnapshot } from "./denial-reasons";
+import { money } from "./money";
+
+const twoSteps: ApprovalStep[] = [
+  { name: "Approval", role: "APPROVER" },
+  { name: "Director", role: "DIRECTOR" },
+];
+
+const denialReason: DenialReasonSnapshot = {
+  code: "OUT_OF_SCOPE",
+  title: "Outside the change order scope",
+  explanation: "This work is part of the original contract.",
+  nextSteps: "No further action is needed.",
+};
+
+function signoff(step: string, userId: string): ApprovalSignoff {
+  return { step, userId, signedBy: userId, signedAt: new Date().toISOString() };
+}
+
+async function submitChangeOrder() {
+  const record = await saveSubmission(
+    normalizeDraftInput({
+      projectId: "P1",
+      contractorName: "Pat Contractor",
+      contractorEmail: "pat@example.com",
+      workPerformedAt: new Date().toISOString(),
+      scope: "Retile the lobby",
+      quantity: 3,
+      materialCost: money(50000),
+      whyNeeded: "Damaged tiles",
+    }),
+  );
+  if (!record) {
+    throw new Error("Submission was not saved");
+  }
+  return record;
+}
+
+function approve(steps: ApprovalStep[]): DecisionInput {
+  return {
+    action: "APPROVE",
+    decidedBy: "approver@example.com",
+    approvedAmount: money(50000),
+    decisionExplanation: "Looks right",
+    approvalSteps: steps,
+    signoff: signoff("Approval", "usr_approver"),
+  };
+}
+
+async function pendingApproval() {
+  const record = await submitChangeOrder();
+  const result = await applyTeamDecision(record.id, approve(twoSteps));
+  expect(result?.changeOrder.decisionStatus).toBe("PENDING_SECOND_APPROVAL");
+  return record.id;
+}
+
+describe("applyTeamDecision", () => {
+  it("finalizes a single-step approval right away", async () => {
+    const record = await submitChangeOrder();
+    const result = await applyTeamDecision(record.id, approve([twoSteps[0]]));
+
+    expect(result?.conflict).toBe(false);
+    expect(result?.changeOrder).toMatchObject({
+      decisionStatus: "APPROVED",
+      teamStatus: "APPROVED",
+      isFinalized: true,
+    });
+    expect(result?.changeOrder.decisionEmailSubject).toBeTruthy();
+  });
+
+  it("waits for every step of the chain before finalizing", async () => {
+    const record = await submitChangeOrder();
+    const first = await applyTeamDecision(record.id, approve(twoSteps));
+
+    expect(first?.changeOrder).toMatchObject({
+      decisionStatus: "PENDING_SECOND_APPROVAL",
+      teamStatus: "PENDING_SECOND_APPROVAL",
+      isFinalized: false,
+    });
+    expect(first?.changeOrder.approvalChain?.signoffs).toHaveLength(1);
+    expect(first?.changeOrder.decisionEmailSubject).toBeUndefined();
+
+    const second = await applyTeamDecision(record.id, {
+      action: "SIGN_OFF",
+      decidedBy: "director@example.com",
+      signoff: signoff("Director", "usr_director"),
+    });
+    expect(second?.conflict).toBe(false);
+    expect(second?.changeOrder).toMatchObject({ decisionStatus: "APPROVED", isFinalized: true });
+    expect(second?.changeOrder.approvalChain?.signoffs.map((entry) => entry.step)).toEqual(["Approval", "Director"]);
+    expect(second?.changeOrder.approvedAmount).toEqual(money(50000));
+  });
+
+  it("lets a pending approval be denied", async () => {
+    const id = await pendingApproval();
+    const result = await applyTeamDecision(id, {
+      action: "DENY",
+      decidedBy: "director@example.com",
+      deciderRoles: ["DIRECTOR"],
+      denialReason,
+      decisionExplanation: "Already in the contract",
+    });
+
+    expect(result?.conflict).toBe(false);
+    expect(result?.changeOrder).toMatchObject({ decisionStatus: "DENIED", isFinalized: true });
+    expect(result?.changeOrder.approvalChain).toBeUndefined();
+    expect(result?.changeOrder.approvedAmount).toBeUndefined();
+  });
+
+  it("lets a pending approval be sent back for more information", async () => {
+    const id = await pendingApproval();
+    const result = await applyTeamDecision(id, {
+      action: "NEEDS_INFO",
+      decidedBy: "director@example.com",
+      deciderRoles: ["DIRECTOR"],
+      decisionExplanation: "Need receipts",
+      needsInfoChecklist: ["Tile receipts"],
+    });
+
+    expect(result?.conflict).toBe(false);
+    expect(result?.changeOrder).toMatchObject({
+      decisionStatus: "NEEDS_INFO",
+      isFinalized: false,
+      needsInfoChecklist: ["Tile receipts"],
+    });
+    expect(result?.changeOrder.approvalChain).toBeUndefined();
+    expect(result?.changeOrder.revisionToken).toBeTruthy();
+  });
+
+  it("only lets someone who can act on the chain deny or send back a pending approval", async () => {
+    const id = await pendingApproval();
+    const denied = await applyTeamDecision(id, {
+      action: "DENY",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      denialReason,
+      decisionExplanation: "Already in the contract",
+    });
+    const sentBack = await applyTeamDecision(id, {
+      action: "NEEDS_INFO",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      decisionExplanation: "Need receipts",
+      needsInfoChecklist: ["Tile receipts"],
+    });
+
+    expect(denied?.conflict).toBe(true);
+    expect(sentBack?.conflict).toBe(true);
+    expect(sentBack?.changeOrder.decisionStatus).toBe("PENDING_SECOND_APPROVAL");
+    expect(sentBack?.changeOrder.approvalChain?.signoffs).toHaveLength(1);
+
+    // Approvers can stop a chain even when its next step is a director's.
+    const byApprover = await applyTeamDecision(id, {
+      action: "DENY",
+      decidedBy: "approver2@example.com",
+      deciderRoles: ["APPROVER"],
+      denialReason,
+      decisionExplanation: "Already in the contract",
+    });
+    expect(byApprover?.changeOrder.decisionStatus).toBe("DENIED");
+  });
+
+  it("does not start a second chain while one is pending", async () => {
+    const id = await pendingApproval();
+    const result = await applyTeamDecision(id, approve(twoSteps));
+
+    expect(result?.conflict).toBe(true);
+    expect(result?.changeOrder.approvalChain?.signoffs).toHaveLength(1);
+  });
+
+  it("rejects a signoff when no approval is pending", async () => {
+    const record = await submitChangeOrder();
+    const result = await applyTeamDecision(record.id, {
+      action: "SIGN_OFF",
+      decidedBy: "director@example.com",
+      signoff: signoff("Director", "usr_director"),
+    });
+
+    expect(result?.conflict).toBe(true);
+    expect(result?.changeOrder.decisionStatus).toBe("PENDING");
+  });
+
+  it("leaves finalized decisions alone", async () => {
+    const record = await submitChangeOrder();
+    await applyTeamDecision(record.id, approve([twoSteps[0]]));
+    const result = await applyTeamDecision(record.id, {
+      action: "DENY",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      denialReason,
+      decisionExplanation: "Changed my mind",
+    });
+
+    expect(result?.conflict).toBe(true);
+    expect(result?.changeOrder.decisionStatus).toBe("APPROVED");
+  });
+
+  it("finalizes a line-by-line denial without signoffs", async () => {
+    const record = await submitChangeOrder();
+    const result = await applyTeamDecision(record.id, {
+      action: "DECIDE_LINE_ITEMS",
+      decidedBy: "reviewer@example.com",
+      lineItemDecisions: [],
+      outcome: "DENIED",
+      approvedAmount: money(0),
+      denialReason,
+      decisionExplanation: "None of it is extra",
+      approvalSteps: twoSteps,
+      signoff: signoff("Approval", "usr_reviewer"),
+    });
+
+    expect(result?.changeOrder).toMatchObject({ decisionStatus: "DENIED", isFinalized: true });
+    expect(result?.changeOrder.approvalChain).toBeUndefined();
+  });
+
+  it("returns null for an unknown change order", async () => {
+    expect(await applyTeamDecision("co_missing", approve(twoSteps))).toBeNull();
+  });
+});
+
+describe("resubmitWithRevision", () => {
+  async function awaitingRevision() {
+    const record = await submitChangeOrder();
+    const result = await applyTeamDecision(record.id, {
+      action: "NEEDS_INFO",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      decisionExplanation: "Need receipts",
+      needsInfoChecklist: ["Tile receipts"],
+    });
+    return result!.changeOrder;
+  }
+
+  it("sends the answer back for review once", async () => {
+    const record = await awaitingRevision();
+    const responses = [{ item: "Tile receipts", response: "Attached" }];
+    const first = await resubmitWithRevision(record.id, record.revisionToken!, record.input, responses);
+
+    expect(first?.conflict).toBe(false);
+    expect(first?.changeOrder).toMatchObject({ decisionStatus: "PENDING", teamStatus: "IN_REVIEW" });
+    expect(first?.changeOrder.resubmittedAt).toBeDefined();
+
+    const second = await resubmitWithRevision(record.id, record.revisionToken!, record.input, responses);
+    expect(second?.conflict).toBe(true);
+    expect(second?.changeOrder.revisions).toHaveLength(1);
+  });
+
+  it("rejects a link replaced by a newer request for info", async () => {
+    const record = await awaitingRevision();
+    const asked = await applyTeamDecision(record.id, {
+      action: "NEEDS_INFO",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      decisionExplanation: "Need the invoice too",
+      needsInfoChecklist: ["Tile receipts", "Invoice"],
+    });
+    const result = await resubmitWithRevision(record.id, record.revisionToken!, record.input, []);
+
+    expect(result?.conflict).toBe(true);
+    expect(result?.changeOrder.revisionToken).toBe(asked?.changeOrder.revisionToken);
+  });
+});
@@ -1,37 +1,180 @@
-import type { ChangeOrderInput } from "./change-order-schema";
-
-export type TeamQueueStatus = "NEW" | "IN_REVIEW" | "NEEDS_INFO" | "APPROVED" | "DENIED";
-export type DecisionStatus = "PENDING" | "NEEDS_INFO" | "APPROVED" | "DENIED";
-export type DenialReasonCode =
-  | "MISSING_REQUIRED_INFO"
-  | "INSUFFICIENT_PHOTO_EVIDENCE"
-  | "OUTSIDE_24_HOUR_WINDOW"
-  | "DUPLICATE_REQUEST"
-  | "PRICING_NOT_JUSTIFIED"
-  | "IN_SCOPE_OF_TURNKEY"
-  | "OTHER";
-export type DecisionEmailStatus = "PENDING" | "SENT" | "FAILED";
+import { randomBytes } from "node:crypto";
+
+import { isLateSubmission, type ChangeOrderInput } from "./change-order-schema";
+import { changeOrderRecordMigrations } from "./change-order-migrations";
+import { latestRecordVersion } from "./migrations";
+import { type DenialReasonSnapshot, describeDenialReasonCode } from "./denial-reasons";
+import type { UserRole } from "./auth";
+import type { DuplicateMatch } from "./duplicate-detection";
+import { type RenderedEmail, renderEmailTemplate } from "./email-templates";
+import {
+  type ApprovalChain,
+  type ApprovalSignoff,
+  type ApprovalStep,
+  canActOnApprovalChain,
+  getNextApprovalStep,
+  isApprovalChainComplete,
+} from "./approval-chain";
+import { describeLineItemDecision, type LineItemDecision } from "./line-item-decisions";
+import { formatMoney, type Money } from "./money";
+import type { PhotoEvidence } from "./photo-evidence";
+import { defineRepository } from "./repository";
+import { type ReviewSla, toReviewSlaRules, trackReviewSla } from "./review-sla";
+import type { SubmissionPolicyRules } from "./submission-policy";
+
+export type TeamQueueStatus =
+  "NEW" | "IN_REVIEW" | "NEEDS_INFO" | "PENDING_SECOND_APPROVAL" | "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+/** Team statuses staff can set by hand while triaging; every other status comes from a decision. */
+export const TRIAGE_STATUSES = ["NEW", "IN_REVIEW"] as const satisfies readonly TeamQueueStatus[];
+export type TriageStatus = (typeof TRIAGE_STATUSES)[number];
+export type DecisionStatus =
+  "PENDING" | "NEEDS_INFO" | "PENDING_SECOND_APPROVAL" | "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+// A code from the denial reason catalog (`denial-reasons.ts`); admins can add codes, so this is not a closed set.
+export type DenialReasonCode = string;
+// DELIVERED, BOUNCED and COMPLAINED come from the provider's webhook after the message was sent.
+export type DecisionEmailStatus = "PENDING" | "SENT" | "FAILED" | "DELIVERED" | "BOUNCED" | "COMPLAINED";
 // Keep legacy values for older records while moving forward with Resend.
 export type DecisionEmailMode = "resend" | "smtp" | "preview";
 
+export type ChecklistResponse = {
+  item: string;
+  response: string;
+};
+
+// Snapshot of a version the contractor replaced when answering a NEEDS_INFO request.
+export type ChangeOrderRevision = {
+  version: number;
+  input: ChangeOrderInput;
+  submittedAt?: string;
+  needsInfoChecklist: string[];
+  requestedBy?: string;
+  requestedAt?: string;
+  contractorFacingMessage?: string;
+  replacedAt: string;
+  changedFields: string[];
+};
+
+export type ChangeOrderEventType =
+  | "CREATED"
+  | "DRAFT_SAVED"
+  | "SUBMITTED"
+  | "BLOCKED"
+  | "RESUBMITTED"
+  | "STATUS_CHANGED"
+  | "NOTES_EDITED"
+  | "ASSIGNED"
+  | "UNASSIGNED"
+  | "SLA_ESCALATED"
+  | "REMINDER_SENT"
+  | "EXPIRED"
+  | "DECISION_MADE"
+  | "DECISION_REOPENED"
+  | "EMAIL_SENT"
+  | "EMAIL_FAILED"
+  | "EMAIL_DELIVERED"
+  | "EMAIL_BOUNCED"
+  | "EMAIL_COMPLAINED";
+
+export type ChangeOrderEventDetails = Record<string, string | number | boolean | string[] | null>;
+
+// Append-only: events are never edited or removed once written.
+export type ChangeOrderEvent = {
+  type: ChangeOrderEventType;
+  at: string;
+  actor: string;
+  summary: string;
+  details?: ChangeOrderEventDetails;
+};
+
+export type LateAcknowledgment = {
+  acknowledgedBy: string;
+  acknowledgedAt: string;
+  reason: string;
+};
+
+/** The reviewer who owns the review of a change order. */
+export type Assignment = {
+  userId: string;
+  /** `actorLabel` of the assignee when assigned. */
+  name: string;
+  assignedAt: string;
+  /** Who made the assignment; `SYSTEM_ACTOR` for automatic assignment on submit. */
+  assignedBy: string;
+};
+
+export type ReminderKind = "DRAFT_DEADLINE" | "NEEDS_INFO";
+
+/** A reminder emailed to the contractor by the reminder job. */
+export type ContractorReminder = {
+  kind: ReminderKind;
+  /** What `hours` counts from: the submission deadline for drafts, the request time for NEEDS_INFO. */
+  anchor: string;
+  hours: number;
+  to: string;
+  sentAt: string;
+};
+
+/** A finalized decision that an approver withdrew; kept so the corrected decision can refer back to it. */
+export type DecisionReversal = {
+  reopenedAt: string;
+  reopenedBy: string;
+  reason: string;
+  previousDecisionStatus: DecisionStatus;
+  previousDecisionBy?: string;
+  previousDecisionAt?: string;
+  previousApprovedAmount?: Money;
+  previousDenialReasonCode?: DenialReasonCode;
+};
+
 export type StoredChangeOrder = {
   id: string;
+  schemaVersion?: number;
+  /** User id of the contractor account that created the record. */
+  createdBy?: string;
   createdAt: string;
   updatedAt: string;
   submittedAt?: string;
-  status: "DRAFT" | "SUBMITTED" | "BLOCKED";
+  /** EXPIRED is terminal: an abandoned draft or an unanswered NEEDS_INFO request closed by the reminder job. */
+  status: "DRAFT" | "SUBMITTED" | "BLOCKED" | "EXPIRED";
   input: ChangeOrderInput;
+  /** Computed on the server when the contractor submits; never taken from a client. */
+  isLate: boolean;
+  /** Name of the project policy the submission was checked against. */
+  policyName?: string;
+  lateAcknowledgment?: LateAcknowledgment;
+  /** EXIF and duplicate checks per photo, recomputed on every submit and resubmit. */
+  photoEvidence: PhotoEvidence[];
+  /** Earlier submissions this one resembles, most similar first. */
+  duplicateMatches: DuplicateMatch[];
   blockingReasons?: string[];
   teamStatus: TeamQueueStatus;
   reviewerNotes: string;
+  assignee?: Assignment;
+  /** Review clock for NEW and IN_REVIEW, with targets from the project policy at submission. */
+  sla?: ReviewSla;
   decisionStatus: DecisionStatus;
   decisionAt?: string;
   decisionBy?: string;
-  approvedAmount?: number;
+  approvedAmount?: Money;
+  /** Set when the decision was made line by line; `approvedAmount` is their sum. */
+  lineItemDecisions?: LineItemDecision[];
+  /** Signoffs behind an approval; the record stays `PENDING_SECOND_APPROVAL` until every step has signed. */
+  approvalChain?: ApprovalChain;
+  /** Finalized decisions that were reopened, oldest first. */
+  decisionReversals?: DecisionReversal[];
   denialReasonCode?: DenialReasonCode;
+  /** Catalog wording of `denialReasonCode` when the denial was made; absent on records denied before the catalog. */
+  denialReason?: DenialReasonSnapshot;
   decisionExplanation?: string;
   contractorFacingMessage?: string;
   needsInfoChecklist: string[];
+  revisionToken?: string;
+  checklistResponses?: ChecklistResponse[];
+  resubmittedAt?: string;
+  revisions: ChangeOrderRevision[];
+  reminders?: ContractorReminder[];
+  expiredAt?: string;
+  history: ChangeOrderEvent[];
   isFinalized: boolean;
   decisionEmailStatus: DecisionEmailStatus;
   decisionEmailSentAt?: string;
@@ -42,15 +185,23 @@ export type StoredChangeOrder = {
   decisionEmailError?: string;
   decisionEmailPreviewUrl?: string;
   decisionEmailMode?: DecisionEmailMode;
+  /** Outbox message carrying the current decision email; delivery updates for older messages are ignored. */
+  decisionEmailOutboxId?: string;
 };
 
 declare global {
+  // Pre-repository in-memory store; still read once so hot-reloaded dev sessions keep their records.
   // eslint-disable-next-line no-var
   var __changeOrderPocStore: StoredChangeOrder[] | undefined;
 }
 
-const store = globalThis.__changeOrderPocStore ?? [];
-globalThis.__changeOrderPocStore = store;
+export const CHANGE_ORDER_SCHEMA_VERSION = latestRecordVersion(changeOrderRecordMigrations);
+
+const changeOrders = defineRepository<StoredChangeOrder>({
+  table: "change_orders",
+  migrations: changeOrderRecordMigrations,
+  memorySeed: () => globalThis.__changeOrderPocStore ?? [],
+});
 
 const strictEmailRegex =
   /^(?!.*\.\.)([A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*)@([A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+)$/;
@@ -59,121 +210,542 @@ function isValidEmail(value: string): boolean {
   return strictEmailRegex.test(value.trim());
 }
 
-function normalizeRecord(record: StoredChangeOrder): StoredChangeOrder {
-  return {
-    ...record,
-    updatedAt: record.updatedAt ?? record.createdAt ?? new Date().toISOString(),
-    teamStatus:
-      record.teamStatus === "DENIED" || record.teamStatus === "APPROVED" || record.teamStatus === "NEEDS_INFO"
-        ? record.teamStatus
-        : record.teamStatus === "IN_REVIEW"
-          ? "IN_REVIEW"
-          : "NEW",
-    decisionStatus: record.decisionStatus ?? "PENDING",
-    needsInfoChecklist: record.needsInfoChecklist ?? [],
-    reviewerNotes: record.reviewerNotes ?? "",
-    isFinalized: record.isFinalized ?? false,
-    decisionEmailStatus: record.decisionEmailStatus ?? "PENDING",
-    decisionEmailError: record.decisionEmailError ?? undefined,
-    decisionEmailPreviewUrl: record.decisionEmailPreviewUrl ?? undefined,
-    decisionEmailMode: record.decisionEmailMode ?? undefined,
-    decisionEmailHtml: record.decisionEmailHtml ?? undefined,
-  };
+export const SYSTEM_ACTOR = "system";
+export const TEAM_ACTOR = "Remi team";
+
+function contractorActor(input: ChangeOrderInput): string {
+  return input.contractorEmail.trim() || input.contractorName.trim() || "contractor";
+}
+
+function createEvent(
+  type: ChangeOrderEventType,
+  actor: string,
+  summary: string,
+  details?: ChangeOrderEventDetails,
+): ChangeOrderEvent {
+  return { type, at: new Date().toISOString(), actor, summary, ...(details ? { details } : {}) };
+}
+
+function withEvents(record: StoredChangeOrder, ...events: ChangeOrderEvent[]): StoredChangeOrder {
+  return { ...record, history: [...record.history, ...events] };
+}
+
+// Every write goes through here so the review clock follows team status changes wherever they happen.
+async function updateChangeOrder(
+  id: string,
+  mutate: (current: StoredChangeOrder) => StoredChangeOrder,
+): Promise<StoredChangeOrder | null> {
+  const repository = await changeOrders();
+  return repository.update(id, (current) => {
+    const next = mutate(current);
+    return next === current ? current : trackReviewSla(next);
+  });
+}
+
+export async function listChangeOrders(): Promise<StoredChangeOrder[]> {
+  const repository = await changeOrders();
+  return (await repository.list()).reverse();
 }
 
-export function listChangeOrders(): StoredChangeOrder[] {
-  return [...store].map(normalizeRecord).reverse();
+export async function getChangeOrderById(id: string): Promise<StoredChangeOrder | null> {
+  const repository = await changeOrders();
+  return repository.get(id);
 }
 
-export function getChangeOrderById(id: string): StoredChangeOrder | null {
-  const record = store.find((item) => item.id === id);
-  return record ? normalizeRecord(record) : null;
+export async function getChangeOrderHistory(id: string): Promise<ChangeOrderEvent[] | null> {
+  const record = await getChangeOrderById(id);
+  return record ? record.history : null;
 }
 
-export function saveDraft(input: ChangeOrderInput): StoredChangeOrder {
+type SaveOptions = {
+  /** Promote this existing draft instead of creating a new record. */
+  draftId?: string;
+  createdBy?: string;
+  /** Project policy used for the lateness check; the default policy when omitted. */
+  policy?: SubmissionPolicyRules;
+} & SubmissionChecks;
+
+/** Advisory findings computed by the submit and revision routes and stored for reviewers. */
+export type SubmissionChecks = {
+  photoEvidence?: PhotoEvidence[];
+  duplicateMatches?: DuplicateMatch[];
+};
+
+export async function saveDraft(input: ChangeOrderInput, createdBy?: string): Promise<StoredChangeOrder> {
   const record: StoredChangeOrder = {
     id: `co_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    schemaVersion: CHANGE_ORDER_SCHEMA_VERSION,
+    createdBy,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     status: "DRAFT",
     input,
+    isLate: false,
+    photoEvidence: [],
+    duplicateMatches: [],
     teamStatus: "NEW",
     reviewerNotes: "",
     decisionStatus: "PENDING",
     needsInfoChecklist: [],
+    revisions: [],
+    history: [
+      createEvent("CREATED", contractorActor(input), "Change order created."),
+      createEvent("DRAFT_SAVED", contractorActor(input), "Draft saved."),
+    ],
     isFinalized: false,
     decisionEmailStatus: "PENDING",
   };
-  store.push(record);
-  return record;
+  const repository = await changeOrders();
+  return repository.insert(record);
+}
+
+/** Drafts and blocked attempts can still be edited and resubmitted by the contractor. */
+export function isEditableDraft(record: StoredChangeOrder): boolean {
+  return record.status === "DRAFT" || record.status === "BLOCKED";
 }
 
-export function saveSubmission(input: ChangeOrderInput): StoredChangeOrder {
+export async function updateDraft(id: string, input: ChangeOrderInput): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    if (!isEditableDraft(current)) {
+      return current;
+    }
+
+    const next: StoredChangeOrder = {
+      ...current,
+      status: "DRAFT",
+      input,
+      isLate: false,
+      blockingReasons: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    return withEvents(next, createEvent("DRAFT_SAVED", contractorActor(input), "Draft saved."));
+  });
+}
+
+export async function saveSubmission(
+  input: ChangeOrderInput,
+  { draftId, createdBy, policy, photoEvidence = [], duplicateMatches = [] }: SaveOptions = {},
+): Promise<StoredChangeOrder | null> {
+  if (draftId) {
+    return updateChangeOrder(draftId, (current) => {
+      if (!isEditableDraft(current)) {
+        return current;
+      }
+
+      const now = new Date().toISOString();
+      const next: StoredChangeOrder = {
+        ...current,
+        status: "SUBMITTED",
+        input,
+        isLate: isLateSubmission(input.workPerformedAt, now, policy),
+        policyName: policy?.name,
+        sla: { rules: toReviewSlaRules(policy) },
+        photoEvidence,
+        duplicateMatches,
+        blockingReasons: undefined,
+        submittedAt: now,
+        updatedAt: now,
+      };
+      return withEvents(next, createEvent("SUBMITTED", contractorActor(input), "Submitted for review."));
+    });
+  }
+
   const record: StoredChangeOrder = {
     id: `co_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    schemaVersion: CHANGE_ORDER_SCHEMA_VERSION,
+    createdBy,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     submittedAt: new Date().toISOString(),
     status: "SUBMITTED",
     input,
+    isLate: isLateSubmission(input.workPerformedAt, new Date().toISOString(), policy),
+    policyName: policy?.name,
+    sla: { rules: toReviewSlaRules(policy) },
+    photoEvidence,
+    duplicateMatches,
     teamStatus: "NEW",
     reviewerNotes: "",
     decisionStatus: "PENDING",
     needsInfoChecklist: [],
+    revisions: [],
+    history: [
+      createEvent("CREATED", contractorActor(input), "Change order created."),
+      createEvent("SUBMITTED", contractorActor(input), "Submitted for review."),
+    ],
     isFinalized: false,
     decisionEmailStatus: "PENDING",
   };
-  store.push(record);
-  return record;
+  const repository = await changeOrders();
+  return repository.insert(trackReviewSla(record));
 }
 
-export function saveBlocked(input: ChangeOrderInput, blockingReasons: string[]): StoredChangeOrder {
+export async function saveBlocked(
+  input: ChangeOrderInput,
+  blockingReasons: string[],
+  { draftId, createdBy, policy, photoEvidence = [], duplicateMatches = [] }: SaveOptions = {},
+): Promise<StoredChangeOrder | null> {
+  if (draftId) {
+    return updateChangeOrder(draftId, (current) => {
+      if (!isEditableDraft(current)) {
+        return current;
+      }
+
+      const next: StoredChangeOrder = {
+        ...current,
+        status: "BLOCKED",
+        input,
+        isLate: isLateSubmission(input.workPerformedAt, new Date().toISOString(), policy),
+        policyName: policy?.name,
+        photoEvidence,
+        duplicateMatches,
+        blockingReasons,
+        updatedAt: new Date().toISOString(),
+      };
+      return withEvents(
+        next,
+        createEvent("BLOCKED", contractorActor(input), "Submission blocked by checklist.", { blockingReasons }),
+      );
+    });
+  }
+
   const record: StoredChangeOrder = {
     id: `co_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    schemaVersion: CHANGE_ORDER_SCHEMA_VERSION,
+    createdBy,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     status: "BLOCKED",
     input,
+    isLate: isLateSubmission(input.workPerformedAt, new Date().toISOString(), policy),
+    policyName: policy?.name,
+    photoEvidence,
+    duplicateMatches,
     blockingReasons,
     teamStatus: "NEW",
     reviewerNotes: "",
     decisionStatus: "PENDING",
     needsInfoChecklist: [],
+    revisions: [],
+    history: [
+      createEvent("CREATED", contractorActor(input), "Change order created."),
+      createEvent("BLOCKED", contractorActor(input), "Submission blocked by checklist.", { blockingReasons }),
+    ],
     isFinalized: false,
     decisionEmailStatus: "PENDING",
   };
-  store.push(record);
-  return record;
+  const repository = await changeOrders();
+  return repository.insert(record);
 }
 
-export function updateTeamQueueItem(
-  id: string,
-  updates: { teamStatus?: TeamQueueStatus; reviewerNotes?: string },
-): StoredChangeOrder | null {
-  const index = store.findIndex((item) => item.id === id);
-  if (index === -1) {
+export async function getChangeOrderByRevisionToken(token: string): Promise<StoredChangeOrder | null> {
+  if (!token) {
     return null;
   }
+  const repository = await changeOrders();
+  return (await repository.list()).find((item) => item.revisionToken === token) ?? null;
+}
 
-  const current = store[index];
-  if (current.isFinalized) {
-    return current;
-  }
+export function canRevise(record: StoredChangeOrder): boolean {
+  return record.status === "SUBMITTED" && record.decisionStatus === "NEEDS_INFO" && !record.isFinalized;
+}
 
-  const next: StoredChangeOrder = {
-    ...current,
-    teamStatus: updates.teamStatus ?? current.teamStatus,
-    reviewerNotes: updates.reviewerNotes ?? current.reviewerNotes,
-    updatedAt: new Date().toISOString(),
-  };
-  store[index] = next;
-  return next;
+function listChangedFields(previous: ChangeOrderInput, next: ChangeOrderInput): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof ChangeOrderInput)[]);
+  return [...keys].filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+}
+
+export type RevisionResult = {
+  changeOrder: StoredChangeOrder;
+  /** Nothing was written because the request for info behind `revisionToken` is no longer open. */
+  conflict: boolean;
+};
+
+/**
+ * Contractor answer to a NEEDS_INFO request. The replaced version is kept in `revisions` so reviewers
+ * can compare, and the item goes back to the team for review.
+ */
+export async function resubmitWithRevision(
+  id: string,
+  revisionToken: string,
+  input: ChangeOrderInput,
+  checklistResponses: ChecklistResponse[],
+  { photoEvidence = [], duplicateMatches = [] }: SubmissionChecks = {},
+): Promise<RevisionResult | null> {
+  let conflict = false;
+  const updated = await updateChangeOrder(id, (current) => {
+    // Already answered, expired or decided, or asked again with a new link since the contractor loaded the form.
+    if (!canRevise(current) || current.revisionToken !== revisionToken) {
+      conflict = true;
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    const revision: ChangeOrderRevision = {
+      version: current.revisions.length + 1,
+      input: current.input,
+      submittedAt: current.resubmittedAt ?? current.submittedAt,
+      needsInfoChecklist: current.needsInfoChecklist,
+      requestedBy: current.decisionBy,
+      requestedAt: current.decisionAt,
+      contractorFacingMessage: current.contractorFacingMessage,
+      replacedAt: now,
+      changedFields: listChangedFields(current.input, input),
+    };
+
+    const next: StoredChangeOrder = {
+      ...current,
+      input,
+      checklistResponses,
+      photoEvidence,
+      duplicateMatches,
+      resubmittedAt: now,
+      revisions: [...current.revisions, revision],
+      revisionToken: undefined,
+      teamStatus: "IN_REVIEW",
+      decisionStatus: "PENDING",
+      needsInfoChecklist: [],
+      decisionAt: undefined,
+      decisionBy: undefined,
+      decisionExplanation: undefined,
+      contractorFacingMessage: undefined,
+      updatedAt: now,
+    };
+    return withEvents(
+      next,
+      createEvent("RESUBMITTED", contractorActor(input), `Resubmitted as version ${revision.version + 1}.`, {
+        changedFields: revision.changedFields,
+        respondedItems: checklistResponses.map((entry) => entry.item),
+      }),
+    );
+  });
+  return updated ? { changeOrder: updated, conflict } : null;
+}
+
+export async function updateTeamQueueItem(
+  id: string,
+  updates: { teamStatus?: TriageStatus; reviewerNotes?: string },
+  actor: string = TEAM_ACTOR,
+): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    if (current.isFinalized) {
+      return current;
+    }
+
+    // Only undecided submissions are triaged by hand; requests for info and pending approvals move on through
+    // decisions.
+    const triaging = current.status === "SUBMITTED" && current.decisionStatus === "PENDING";
+    const next: StoredChangeOrder = {
+      ...current,
+      teamStatus: triaging ? (updates.teamStatus ?? current.teamStatus) : current.teamStatus,
+      reviewerNotes: updates.reviewerNotes ?? current.reviewerNotes,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const events: ChangeOrderEvent[] = [];
+    if (next.teamStatus !== current.teamStatus) {
+      events.push(
+        createEvent("STATUS_CHANGED", actor, `Team status changed from ${current.teamStatus} to ${next.teamStatus}.`, {
+          from: current.teamStatus,
+          to: next.teamStatus,
+        }),
+      );
+    }
+    if (next.reviewerNotes !== current.reviewerNotes) {
+      events.push(
+        createEvent("NOTES_EDITED", actor, "Reviewer notes edited.", {
+          previous: current.reviewerNotes,
+          next: next.reviewerNotes,
+        }),
+      );
+    }
+    return withEvents(next, ...events);
+  });
+}
+
+export type AssignmentResult = {
+  changeOrder: StoredChangeOrder;
+  /** Nothing was written because the assignee was no longer `expectedAssigneeId`. */
+  conflict: boolean;
+};
+
+/**
+ * Sets (or with null clears) the assignee. `expectedAssigneeId` is the assignee the caller last saw, null
+ * for unassigned; when someone else has changed it since, nothing is written and `conflict` is set.
+ * Claiming a NEW item moves it to IN_REVIEW.
+ */
+export async function updateAssignment(
+  id: string,
+  assignee: Pick<Assignment, "userId" | "name"> | null,
+  options: { actor: string; expectedAssigneeId: string | null },
+): Promise<AssignmentResult | null> {
+  let conflict = false;
+  const updated = await updateChangeOrder(id, (current) => {
+    const currentId = current.assignee?.userId ?? null;
+    if (currentId === (assignee?.userId ?? null)) {
+      return current;
+    }
+    if (currentId !== options.expectedAssigneeId) {
+      conflict = true;
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    const actor = options.actor;
+    const next: StoredChangeOrder = {
+      ...current,
+      assignee: assignee ? { ...assignee, assignedAt: now, assignedBy: actor } : undefined,
+      teamStatus: assignee && current.teamStatus === "NEW" ? "IN_REVIEW" : current.teamStatus,
+      updatedAt: now,
+    };
+    const details = { from: current.assignee?.name ?? null, to: assignee?.name ?? null };
+    const events = [
+      assignee
+        ? createEvent(
+            "ASSIGNED",
+            actor,
+            current.assignee
+              ? `Reassigned from ${current.assignee.name} to ${assignee.name}.`
+              : actor === assignee.name
+                ? `Claimed by ${assignee.name}.`
+                : `Assigned to ${assignee.name}.`,
+            details,
+          )
+        : createEvent("UNASSIGNED", actor, `Unassigned from ${current.assignee?.name ?? "the assignee"}.`, details),
+    ];
+    if (next.teamStatus !== current.teamStatus) {
+      events.push(
+        createEvent("STATUS_CHANGED", actor, `Team status changed from ${current.teamStatus} to ${next.teamStatus}.`, {
+          from: current.teamStatus,
+          to: next.teamStatus,
+        }),
+      );
+    }
+    return withEvents(next, ...events);
+  });
+  return updated ? { changeOrder: updated, conflict } : null;
+}
+
+/**
+ * Records that the escalation job emailed about the clock due at `dueAt`. Does nothing when the clock has
+ * since restarted or stopped, or was already escalated.
+ */
+export async function markSlaEscalated(
+  id: string,
+  escalation: { dueAt: string; notified: string[] },
+): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    const sla = current.sla;
+    if (!sla?.status || sla.dueAt !== escalation.dueAt || sla.escalatedAt) {
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    const next: StoredChangeOrder = { ...current, sla: { ...sla, escalatedAt: now }, updatedAt: now };
+    const hours = sla.rules.reviewSlaHours[sla.status];
+    return withEvents(
+      next,
+      createEvent(
+        "SLA_ESCALATED",
+        SYSTEM_ACTOR,
+        `Review SLA missed: ${sla.status} for more than ${hours} hours. ` +
+          (escalation.notified.length > 0
+            ? `Escalated to ${escalation.notified.join(", ")}.`
+            : "Nobody was configured to be notified."),
+        { status: sla.status, dueAt: escalation.dueAt, notified: escalation.notified },
+      ),
+    );
+  });
+}
+
+export function hasSentReminder(
+  record: StoredChangeOrder,
+  reminder: Omit<ContractorReminder, "to" | "sentAt">,
+): boolean {
+  return (record.reminders ?? []).some(
+    (sent) => sent.kind === reminder.kind && sent.anchor === reminder.anchor && sent.hours === reminder.hours,
+  );
+}
+
+/** Draft or blocked attempt not yet submitted, or a NEEDS_INFO request from `anchor` still unanswered. */
+function isAwaitingContractor(record: StoredChangeOrder, kind: ReminderKind, anchor: string): boolean {
+  return kind === "DRAFT_DEADLINE" ? isEditableDraft(record) : canRevise(record) && record.decisionAt === anchor;
+}
+
+/**
+ * Records a reminder the job emailed. Returns null without writing when the item no longer waits on the
+ * contractor or the same reminder was already recorded, so the job knows not to send it.
+ */
+export async function recordReminder(
+  id: string,
+  reminder: Omit<ContractorReminder, "sentAt">,
+): Promise<StoredChangeOrder | null> {
+  let recorded = false;
+  const updated = await updateChangeOrder(id, (current) => {
+    if (!isAwaitingContractor(current, reminder.kind, reminder.anchor) || hasSentReminder(current, reminder)) {
+      return current;
+    }
+
+    recorded = true;
+    const now = new Date().toISOString();
+    const next: StoredChangeOrder = {
+      ...current,
+      reminders: [...(current.reminders ?? []), { ...reminder, sentAt: now }],
+      updatedAt: now,
+    };
+    return withEvents(
+      next,
+      createEvent(
+        "REMINDER_SENT",
+        SYSTEM_ACTOR,
+        reminder.kind === "DRAFT_DEADLINE"
+          ? `Reminder sent to ${reminder.to}: draft not submitted, window closes ${reminder.anchor}.`
+          : `Reminder sent to ${reminder.to}: requested information still outstanding after ${reminder.hours} hours.`,
+        { kind: reminder.kind, anchor: reminder.anchor, hours: reminder.hours },
+      ),
+    );
+  });
+  return recorded ? updated : null;
+}
+
+/** Closes a draft or unanswered NEEDS_INFO request for good; the revision link stops working. */
+export async function expireChangeOrder(
+  id: string,
+  expiry: { kind: ReminderKind; anchor: string; hours: number },
+): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    if (!isAwaitingContractor(current, expiry.kind, expiry.anchor)) {
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    const next: StoredChangeOrder = {
+      ...current,
+      status: "EXPIRED",
+      expiredAt: now,
+      revisionToken: undefined,
+      updatedAt: now,
+    };
+    return withEvents(
+      next,
+      createEvent(
+        "EXPIRED",
+        SYSTEM_ACTOR,
+        expiry.kind === "DRAFT_DEADLINE"
+          ? `Draft expired ${expiry.hours} hours after its submission window closed.`
+          : `Expired after the requested information went unanswered for ${expiry.hours} hours.`,
+        { kind: expiry.kind, anchor: expiry.anchor, hours: expiry.hours },
+      ),
+    );
+  });
 }
 
-type DecisionInput =
+export type DecisionInput =
   | {
       action: "NEEDS_INFO";
       decidedBy: string;
+      /** The decider's roles; a pending approval can only be sent back by someone entitled to act on it. */
+      deciderRoles: UserRole[];
       decisionExplanation: string;
       contractorFacingMessage?: string;
       needsInfoChecklist: string[];
@@ -181,248 +753,379 @@ type DecisionInput =
   | {
       action: "APPROVE";
       decidedBy: string;
-      approvedAmount: number;
+      approvedAmount: Money;
+      decisionExplanation: string;
+      contractorFacingMessage?: string;
+      /** Required by the decision route when the record is late. */
+      lateAcknowledgmentReason?: string;
+      /** Every step the approval needs, from the project's approval tiers; `signoff` signs the first. */
+      approvalSteps: ApprovalStep[];
+      signoff: ApprovalSignoff;
+    }
+  | {
+      // Resolved by `resolveLineItemDecisions`; the outcome and amount are derived from the lines.
+      action: "DECIDE_LINE_ITEMS";
+      decidedBy: string;
+      lineItemDecisions: LineItemDecision[];
+      outcome: "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+      approvedAmount: Money;
+      /** The first line's reason, which stands for the whole order when every line is denied. */
+      denialReason?: DenialReasonSnapshot;
       decisionExplanation: string;
       contractorFacingMessage?: string;
+      lateAcknowledgmentReason?: string;
+      approvalSteps: ApprovalStep[];
+      signoff: ApprovalSignoff;
+    }
+  | {
+      // Signs the next step of a pending approval chain; the amount and messages stay as first approved.
+      action: "SIGN_OFF";
+      decidedBy: string;
+      signoff: ApprovalSignoff;
     }
   | {
       action: "DENY";
       decidedBy: string;
-      denialReasonCode: DenialReasonCode;
+      deciderRoles: UserRole[];
+      denialReason: DenialReasonSnapshot;
       decisionExplanation: string;
       contractorFacingMessage?: string;
     };
 
-function escapeHtml(value: string): string {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
-}
-
-function buildDecisionEmailContent(record: StoredChangeOrder): { subject: string; body: string; html: string } {
-  const projectLabel = record.input.projectId || "your project";
-  const contractorName = record.input.contractorName || "Contractor";
-  const decisionLabel = record.decisionStatus === "DENIED" ? "Denied" : record.decisionStatus === "APPROVED" ? "Approved" : "Needs Info";
-  const accentColor = record.decisionStatus === "DENIED" ? "#be123c" : record.decisionStatus === "APPROVED" ? "#166534" : "#0f4f8b";
-  const messageBlock = escapeHtml(record.contractorFacingMessage || "");
-  const baseHeader = `
-    <div style="padding:16px 20px;background:#ffffff;border-bottom:1px solid #dbeafe;">
-      <img src="cid:remi-logo@change-order" alt="Remi" style="height:24px;display:block;" />
-    </div>
-  `;
-
-  const baseFooter = `
-    <div style="padding:14px 20px;border-top:1px solid #dbeafe;background:#f8fbff;color:#64748b;font-size:12px;line-height:1.5;">
-      Remi Change Orders Team<br/>
-      This message was sent for project ${escapeHtml(projectLabel)}.
-    </div>
-  `;
-
-  const wrapHtml = (inner: string) => `
-    <div style="background:#f2f7ff;padding:20px;font-family:Inter,Segoe UI,Arial,sans-serif;">
-      <div style="max-width:640px;margin:0 auto;border:1px solid #dbeafe;border-radius:12px;overflow:hidden;background:#ffffff;">
-        ${baseHeader}
-        <div style="padding:20px;">
-          ${inner}
-        </div>
-        ${baseFooter}
-      </div>
-    </div>
-  `;
-
-  if (record.decisionStatus === "APPROVED") {
-    const subject = `Change order approved - ${projectLabel}`;
-    const body =
-      `Hello ${contractorName},` +
-      `\n\nYour change order has been approved.` +
-      `\nProject: ${projectLabel}` +
-      `\nApproved amount: $${record.approvedAmount?.toFixed(2) ?? "0.00"}` +
-      (record.contractorFacingMessage ? `\n\nMessage from Remi:\n${record.contractorFacingMessage}` : "") +
-      `\n\nThank you,\nRemi Change Orders Team`;
-
-    const html = wrapHtml(`
-      <p style="margin:0 0 12px;color:#0f172a;font-size:16px;">Hello ${escapeHtml(contractorName)},</p>
-      <p style="margin:0 0 14px;color:#0f172a;font-size:15px;">
-        Your change order has been <strong style="color:${accentColor};">approved</strong>.
-      </p>
-      <div style="border:1px solid #dcfce7;background:#f0fdf4;border-radius:8px;padding:12px 14px;margin:0 0 14px;">
-        <p style="margin:0;color:#14532d;font-size:14px;"><strong>Project:</strong> ${escapeHtml(projectLabel)}</p>
-        <p style="margin:8px 0 0;color:#14532d;font-size:14px;"><strong>Approved amount:</strong> $${record.approvedAmount?.toFixed(2) ?? "0.00"}</p>
-      </div>
-      ${
-        messageBlock
-          ? `<p style="margin:0;color:#0f172a;font-size:14px;white-space:pre-wrap;"><strong>Message from Remi:</strong><br/>${messageBlock}</p>`
-          : ""
-      }
-    `);
+function appUrl(path: string): string {
+  return `${(process.env.APP_BASE_URL || "http://localhost:3011").replace(/\/+$/, "")}${path}`;
+}
 
-    return {
-      subject,
-      body,
-      html,
-    };
-  }
-  if (record.decisionStatus === "DENIED") {
-    const subject = `Change order denied - ${projectLabel}`;
-    const body =
-      `Hello ${contractorName},` +
-      `\n\nYour change order has been denied.` +
-      `\nProject: ${projectLabel}` +
-      `\nReason: ${record.denialReasonCode || "N/A"}` +
-      (record.contractorFacingMessage ? `\n\nMessage from Remi:\n${record.contractorFacingMessage}` : "") +
-      `\n\nThank you,\nRemi Change Orders Team`;
-
-    const html = wrapHtml(`
-      <p style="margin:0 0 12px;color:#0f172a;font-size:16px;">Hello ${escapeHtml(contractorName)},</p>
-      <p style="margin:0 0 14px;color:#0f172a;font-size:15px;">
-        Your change order has been <strong style="color:${accentColor};">denied</strong>.
-      </p>
-      <div style="border:1px solid #fecdd3;background:#fff1f2;border-radius:8px;padding:12px 14px;margin:0 0 14px;">
-        <p style="margin:0;color:#9f1239;font-size:14px;"><strong>Project:</strong> ${escapeHtml(projectLabel)}</p>
-        <p style="margin:8px 0 0;color:#9f1239;font-size:14px;"><strong>Reason code:</strong> ${escapeHtml(record.denialReasonCode || "N/A")}</p>
-      </div>
-      ${
-        messageBlock
-          ? `<p style="margin:0;color:#0f172a;font-size:14px;white-space:pre-wrap;"><strong>Message from Remi:</strong><br/>${messageBlock}</p>`
-          : ""
-      }
-    `);
+export function getRevisionUrl(record: StoredChangeOrder): string | null {
+  return record.revisionToken ? appUrl(`/change-order-poc?revise=${encodeURIComponent(record.revisionToken)}`) : null;
+}
 
-    return {
-      subject,
-      body,
-      html,
-    };
+/** Opens the wizard on the draft; the contractor still has to sign in. */
+export function getDraftUrl(record: StoredChangeOrder): string {
+  return appUrl(`/change-order-poc?draft=${encodeURIComponent(record.id)}`);
+}
+
+const decisionStatusLabels: Record<DecisionStatus, string> = {
+  PENDING: "Pending",
+  NEEDS_INFO: "Needs Info",
+  PENDING_SECOND_APPROVAL: "Pending Second Approval",
+  APPROVED: "Approved",
+  PARTIALLY_APPROVED: "Partially Approved",
+  DENIED: "Denied",
+};
+
+// After a reopen, the next decision email says it replaces the withdrawn one.
+function getCorrectionNotice(record: StoredChangeOrder): string | undefined {
+  const reversal = record.decisionReversals?.at(-1);
+  if (!reversal || record.decisionStatus === "PENDING") {
+    return undefined;
   }
-  const requestedItems =
-    record.needsInfoChecklist.length > 0
-      ? record.needsInfoChecklist.map((line) => `- ${line}`).join("\n")
-      : "- Additional details requested.";
-  const subject = `More information needed - ${projectLabel}`;
-  const body =
-    `Hello ${contractorName},` +
-    `\n\nWe need more information to review your change order.` +
-    `\nProject: ${projectLabel}` +
-    `\n\nRequested items:\n${requestedItems}` +
-    (record.contractorFacingMessage ? `\n\nMessage from Remi:\n${record.contractorFacingMessage}` : "") +
-    `\n\nThank you,\nRemi Change Orders Team`;
-
-  const listHtml =
-    record.needsInfoChecklist.length > 0
-      ? `<ul style="margin:8px 0 0 18px;padding:0;color:#0f4f8b;font-size:14px;">${record.needsInfoChecklist
-          .map((line) => `<li style="margin:0 0 6px;">${escapeHtml(line)}</li>`)
-          .join("")}</ul>`
-      : `<p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;">Additional details requested.</p>`;
-
-  const html = wrapHtml(`
-    <p style="margin:0 0 12px;color:#0f172a;font-size:16px;">Hello ${escapeHtml(contractorName)},</p>
-    <p style="margin:0 0 14px;color:#0f172a;font-size:15px;">
-      We need <strong style="color:${accentColor};">more information</strong> to review your change order.
-    </p>
-    <div style="border:1px solid #bfdbfe;background:#eff6ff;border-radius:8px;padding:12px 14px;margin:0 0 14px;">
-      <p style="margin:0;color:#0f4f8b;font-size:14px;"><strong>Project:</strong> ${escapeHtml(projectLabel)}</p>
-      <p style="margin:8px 0 0;color:#0f4f8b;font-size:14px;"><strong>Requested items:</strong></p>
-      ${listHtml}
-    </div>
-    ${
-      messageBlock
-        ? `<p style="margin:0;color:#0f172a;font-size:14px;white-space:pre-wrap;"><strong>Message from Remi:</strong><br/>${messageBlock}</p>`
-        : ""
-    }
-  `);
+  return (
+    `This corrects the earlier decision on this change order ` +
+    `(${decisionStatusLabels[reversal.previousDecisionStatus].toLowerCase()}), which was withdrawn.`
+  );
+}
 
-  return {
-    subject,
-    body,
-    html,
+function buildDecisionEmailContent(record: StoredChangeOrder): RenderedEmail {
+  const base = {
+    contractorName: record.input.contractorName || "Contractor",
+    projectLabel: record.input.projectId || "your project",
+    message: record.contractorFacingMessage || undefined,
+    correctionNotice: getCorrectionNotice(record),
   };
+
+  const reversal = record.decisionReversals?.at(-1);
+  if (record.decisionStatus === "PENDING" && reversal) {
+    return renderEmailTemplate("reopened", {
+      ...base,
+      previousDecision: decisionStatusLabels[reversal.previousDecisionStatus].toLowerCase(),
+      reason: reversal.reason,
+    });
+  }
+
+  // Line-by-line outcomes, listed in approval, partial approval and denial emails when they were recorded.
+  const lineOutcomes = (record.lineItemDecisions ?? []).map(describeLineItemDecision);
+  if (record.decisionStatus === "APPROVED" || record.decisionStatus === "PARTIALLY_APPROVED") {
+    return renderEmailTemplate("approved", {
+      ...base,
+      partial: record.decisionStatus === "PARTIALLY_APPROVED",
+      approvedAmount: record.approvedAmount ? formatMoney(record.approvedAmount) : "$0.00",
+      lineOutcomes,
+    });
+  }
+  if (record.decisionStatus === "DENIED") {
+    return renderEmailTemplate("denied", {
+      ...base,
+      reason: record.denialReason ?? describeDenialReasonCode(record.denialReasonCode || "OTHER"),
+      photoIssues:
+        record.denialReasonCode === "INSUFFICIENT_PHOTO_EVIDENCE"
+          ? record.photoEvidence.flatMap((photo) => photo.flags.map((flag) => flag.message))
+          : [],
+      lineOutcomes,
+    });
+  }
+  return renderEmailTemplate("needs-info", {
+    ...base,
+    requestedItems: record.needsInfoChecklist,
+    revisionUrl: getRevisionUrl(record) ?? undefined,
+  });
 }
 
 function prepareDecisionEmail(record: StoredChangeOrder): StoredChangeOrder {
   const to = record.input.contractorEmail?.trim() ?? "";
-  const { subject, body, html } = buildDecisionEmailContent(record);
+  const { subject, text, html } = buildDecisionEmailContent(record);
   return {
     ...record,
     decisionEmailStatus: "PENDING",
     decisionEmailSentAt: undefined,
     decisionEmailTo: to,
     decisionEmailSubject: subject,
-    decisionEmailBody: body,
+    decisionEmailBody: text,
     decisionEmailHtml: html,
     decisionEmailError: undefined,
     decisionEmailPreviewUrl: undefined,
   };
 }
 
-export function applyTeamDecision(id: string, decision: DecisionInput): StoredChangeOrder | null {
-  const index = store.findIndex((item) => item.id === id);
-  if (index === -1) {
-    return null;
+// Adds a signoff to the chain; the approval only becomes final, and its email is prepared, after the last step.
+function recordSignoff(record: StoredChangeOrder, chain: ApprovalChain): StoredChangeOrder {
+  if (!isApprovalChainComplete(chain)) {
+    return {
+      ...record,
+      teamStatus: "PENDING_SECOND_APPROVAL",
+      decisionStatus: "PENDING_SECOND_APPROVAL",
+      approvalChain: chain,
+      isFinalized: false,
+    };
   }
+  return prepareDecisionEmail({
+    ...record,
+    teamStatus: chain.outcome,
+    decisionStatus: chain.outcome,
+    approvalChain: chain,
+    isFinalized: true,
+  });
+}
 
-  const current = store[index];
-  if (current.isFinalized) {
-    return current;
-  }
+export type DecisionResult = {
+  changeOrder: StoredChangeOrder;
+  /** Nothing was written because the record's decision state no longer allows the action. */
+  conflict: boolean;
+};
 
-  const now = new Date().toISOString();
-  let next: StoredChangeOrder = {
-    ...current,
-    teamStatus: "IN_REVIEW",
-    updatedAt: now,
-    decisionAt: now,
-    decisionBy: decision.decidedBy,
-    decisionExplanation: decision.decisionExplanation,
-    contractorFacingMessage: decision.contractorFacingMessage ?? "",
-  };
+/**
+ * Records a decision. While an approval waits for another signoff it can be signed off, or denied or sent back for
+ * information by someone who may act on the chain, but not approved again; a signoff needs such a pending approval.
+ */
+export async function applyTeamDecision(id: string, decision: DecisionInput): Promise<DecisionResult | null> {
+  let conflict = false;
+  const updated = await updateChangeOrder(id, (current) => {
+    const pendingChain = current.decisionStatus === "PENDING_SECOND_APPROVAL" ? current.approvalChain : undefined;
+    const approves = decision.action === "APPROVE" || decision.action === "DECIDE_LINE_ITEMS";
+    if (
+      current.isFinalized ||
+      current.status !== "SUBMITTED" ||
+      (decision.action === "SIGN_OFF" && !pendingChain) ||
+      (approves && pendingChain) ||
+      ((decision.action === "DENY" || decision.action === "NEEDS_INFO") &&
+        pendingChain &&
+        !canActOnApprovalChain(decision.deciderRoles, pendingChain))
+    ) {
+      conflict = true;
+      return current;
+    }
 
-  if (decision.action === "NEEDS_INFO") {
-    next = {
-      ...next,
-      teamStatus: "NEEDS_INFO",
-      decisionStatus: "NEEDS_INFO",
-      needsInfoChecklist: decision.needsInfoChecklist,
-      approvedAmount: undefined,
-      denialReasonCode: undefined,
-      isFinalized: false,
+    const now = new Date().toISOString();
+    let next: StoredChangeOrder = {
+      ...current,
+      teamStatus: "IN_REVIEW",
+      updatedAt: now,
+      decisionAt: now,
+      decisionBy: decision.decidedBy,
+      ...(decision.action !== "SIGN_OFF" && {
+        decisionExplanation: decision.decisionExplanation,
+        contractorFacingMessage: decision.contractorFacingMessage ?? "",
+      }),
     };
-    next = prepareDecisionEmail(next);
-  }
 
-  if (decision.action === "APPROVE") {
-    next = {
-      ...next,
-      teamStatus: "APPROVED",
-      decisionStatus: "APPROVED",
-      approvedAmount: decision.approvedAmount,
-      denialReasonCode: undefined,
-      needsInfoChecklist: [],
-      isFinalized: true,
-    };
-    next = prepareDecisionEmail(next);
-  }
+    if (decision.action === "NEEDS_INFO") {
+      next = {
+        ...next,
+        teamStatus: "NEEDS_INFO",
+        decisionStatus: "NEEDS_INFO",
+        needsInfoChecklist: decision.needsInfoChecklist,
+        approvedAmount: undefined,
+        lineItemDecisions: undefined,
+        approvalChain: undefined,
+        denialReasonCode: undefined,
+        denialReason: undefined,
+        isFinalized: false,
+        // Bearer link for the contractor; rotated on every request so older emails stop working.
+        revisionToken: randomBytes(24).toString("base64url"),
+      };
+      next = prepareDecisionEmail(next);
+    }
 
-  if (decision.action === "DENY") {
-    next = {
-      ...next,
-      teamStatus: "DENIED",
-      decisionStatus: "DENIED",
-      denialReasonCode: decision.denialReasonCode,
-      approvedAmount: undefined,
-      needsInfoChecklist: [],
-      isFinalized: true,
+    if (decision.action === "APPROVE") {
+      next = {
+        ...next,
+        approvedAmount: decision.approvedAmount,
+        lineItemDecisions: undefined,
+        denialReasonCode: undefined,
+        denialReason: undefined,
+        needsInfoChecklist: [],
+        revisionToken: undefined,
+        lateAcknowledgment: decision.lateAcknowledgmentReason
+          ? { acknowledgedBy: decision.decidedBy, acknowledgedAt: now, reason: decision.lateAcknowledgmentReason }
+          : undefined,
+      };
+      next = recordSignoff(next, { outcome: "APPROVED", steps: decision.approvalSteps, signoffs: [decision.signoff] });
+    }
+
+    if (decision.action === "SIGN_OFF" && pendingChain) {
+      next = recordSignoff(next, { ...pendingChain, signoffs: [...pendingChain.signoffs, decision.signoff] });
+    }
+
+    if (decision.action === "DENY") {
+      next = {
+        ...next,
+        teamStatus: "DENIED",
+        decisionStatus: "DENIED",
+        denialReasonCode: decision.denialReason.code,
+        denialReason: decision.denialReason,
+        approvedAmount: undefined,
+        lineItemDecisions: undefined,
+        approvalChain: undefined,
+        needsInfoChecklist: [],
+        revisionToken: undefined,
+        isFinalized: true,
+      };
+      next = prepareDecisionEmail(next);
+    }
+
+    if (decision.action === "DECIDE_LINE_ITEMS") {
+      const allDenied = decision.outcome === "DENIED";
+      next = {
+        ...next,
+        lineItemDecisions: decision.lineItemDecisions,
+        approvedAmount: allDenied ? undefined : decision.approvedAmount,
+        // With every line denied, the first line's reason stands for the order as a whole.
+        denialReasonCode: allDenied ? decision.denialReason?.code : undefined,
+        denialReason: allDenied ? decision.denialReason : undefined,
+        needsInfoChecklist: [],
+        revisionToken: undefined,
+        lateAcknowledgment:
+          !allDenied && decision.lateAcknowledgmentReason
+            ? { acknowledgedBy: decision.decidedBy, acknowledgedAt: now, reason: decision.lateAcknowledgmentReason }
+            : undefined,
+      };
+      // A full denial approves no money, so it needs no signoffs.
+      next =
+        decision.outcome === "DENIED"
+          ? prepareDecisionEmail({
+              ...next,
+              teamStatus: "DENIED",
+              decisionStatus: "DENIED",
+              approvalChain: undefined,
+              isFinalized: true,
+            })
+          : recordSignoff(next, {
+              outcome: decision.outcome,
+              steps: decision.approvalSteps,
+              signoffs: [decision.signoff],
+            });
+    }
+
+    return withEvents(
+      next,
+      createEvent(
+        "DECISION_MADE",
+        decision.decidedBy,
+        decision.action === "SIGN_OFF"
+          ? `Approval signed off (${decision.signoff.step}): ${next.decisionStatus}.`
+          : `Decision recorded: ${next.decisionStatus}.`,
+        {
+          action: decision.action,
+          fromTeamStatus: current.teamStatus,
+          toTeamStatus: next.teamStatus,
+          explanation: decision.action === "SIGN_OFF" ? (decision.signoff.note ?? null) : decision.decisionExplanation,
+          approvedAmount: next.approvedAmount ? formatMoney(next.approvedAmount) : null,
+          lateAcknowledgmentReason: next.lateAcknowledgment?.reason ?? null,
+          denialReasonCode: next.denialReasonCode ?? null,
+          denialReason: next.denialReason?.title ?? null,
+          needsInfoChecklist: next.needsInfoChecklist,
+          lineItemDecisions: (next.lineItemDecisions ?? []).map(describeLineItemDecision),
+          approvalSignoffs: (next.approvalChain?.signoffs ?? []).map(
+            (signoff) => `${signoff.step}: ${signoff.signedBy}`,
+          ),
+          pendingApprovalStep:
+            next.approvalChain && next.decisionStatus === "PENDING_SECOND_APPROVAL"
+              ? (getNextApprovalStep(next.approvalChain)?.name ?? null)
+              : null,
+        },
+      ),
+    );
+  });
+  return updated ? { changeOrder: updated, conflict } : null;
+}
+
+/**
+ * Withdraws a finalized decision so it can be decided again: the record returns to `IN_REVIEW`, the
+ * withdrawn decision is kept in `decisionReversals`, and a notice to the contractor is prepared.
+ */
+export async function reopenDecision(
+  id: string,
+  reopen: { reopenedBy: string; reason: string },
+): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    if (!current.isFinalized) {
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    const reversal: DecisionReversal = {
+      reopenedAt: now,
+      reopenedBy: reopen.reopenedBy,
+      reason: reopen.reason,
+      previousDecisionStatus: current.decisionStatus,
+      previousDecisionBy: current.decisionBy,
+      previousDecisionAt: current.decisionAt,
+      previousApprovedAmount: current.approvedAmount,
+      previousDenialReasonCode: current.denialReasonCode,
     };
-    next = prepareDecisionEmail(next);
-  }
+    const next = prepareDecisionEmail({
+      ...current,
+      teamStatus: "IN_REVIEW",
+      decisionStatus: "PENDING",
+      updatedAt: now,
+      decisionAt: undefined,
+      decisionBy: undefined,
+      approvedAmount: undefined,
+      lineItemDecisions: undefined,
+      approvalChain: undefined,
+      denialReasonCode: undefined,
+      denialReason: undefined,
+      decisionExplanation: undefined,
+      contractorFacingMessage: undefined,
+      lateAcknowledgment: undefined,
+      decisionReversals: [...(current.decisionReversals ?? []), reversal],
+      isFinalized: false,
+    });
 
-  store[index] = next;
-  return next;
+    return withEvents(
+      next,
+      createEvent("DECISION_REOPENED", reopen.reopenedBy, `Decision reopened: ${current.decisionStatus} withdrawn.`, {
+        previousDecisionStatus: current.decisionStatus,
+        previousDecisionBy: current.decisionBy ?? null,
+        previousApprovedAmount: current.approvedAmount ? formatMoney(current.approvedAmount) : null,
+        previousDenialReasonCode: current.denialReasonCode ?? null,
+        reason: reopen.reason,
+      }),
+    );
+  });
 }
 
-export function updateDecisionEmailDelivery(
+export async function updateDecisionEmailDelivery(
   id: string,
   delivery: {
     status: DecisionEmailStatus;
@@ -430,24 +1133,59 @@ export function updateDecisionEmailDelivery(
     previewUrl?: string;
     sentAt?: string;
     mode?: DecisionEmailMode;
+    /** Outbox message the update is about; updates about a message the record no longer points to are dropped. */
+    outboxMessageId?: string;
+    /** Points the record at `outboxMessageId`, for a newly queued decision email. */
+    linkOutboxMessage?: boolean;
   },
-): StoredChangeOrder | null {
-  const index = store.findIndex((item) => item.id === id);
-  if (index === -1) {
-    return null;
-  }
-  const current = normalizeRecord(store[index]);
-  const next: StoredChangeOrder = {
-    ...current,
-    decisionEmailStatus: delivery.status,
-    decisionEmailSentAt: delivery.sentAt ?? new Date().toISOString(),
-    decisionEmailError: delivery.error,
-    decisionEmailPreviewUrl: delivery.previewUrl,
-    decisionEmailMode: delivery.mode,
-    updatedAt: new Date().toISOString(),
-  };
-  store[index] = next;
-  return next;
+): Promise<StoredChangeOrder | null> {
+  return updateChangeOrder(id, (current) => {
+    const isLinking = delivery.linkOutboxMessage && delivery.outboxMessageId;
+    if (
+      !isLinking &&
+      delivery.outboxMessageId &&
+      current.decisionEmailOutboxId &&
+      current.decisionEmailOutboxId !== delivery.outboxMessageId
+    ) {
+      // A later decision has its own email; news about an earlier one no longer describes the record.
+      return current;
+    }
+
+    const next: StoredChangeOrder = {
+      ...current,
+      decisionEmailStatus: delivery.status,
+      decisionEmailSentAt: delivery.sentAt ?? new Date().toISOString(),
+      decisionEmailError: delivery.error,
+      decisionEmailPreviewUrl: delivery.previewUrl ?? (isLinking ? undefined : current.decisionEmailPreviewUrl),
+      decisionEmailMode: delivery.mode ?? current.decisionEmailMode,
+      decisionEmailOutboxId: isLinking ? delivery.outboxMessageId : current.decisionEmailOutboxId,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (delivery.status === "PENDING") {
+      return next;
+    }
+    const recipient = current.decisionEmailTo || "contractor";
+    const event =
+      delivery.status === "SENT"
+        ? createEvent("EMAIL_SENT", SYSTEM_ACTOR, `Decision email sent to ${recipient}.`, {
+            subject: current.decisionEmailSubject ?? null,
+            mode: delivery.mode ?? null,
+          })
+        : delivery.status === "DELIVERED"
+          ? createEvent("EMAIL_DELIVERED", SYSTEM_ACTOR, `Decision email delivered to ${recipient}.`)
+          : delivery.status === "BOUNCED"
+            ? createEvent("EMAIL_BOUNCED", SYSTEM_ACTOR, `Decision email to ${recipient} bounced.`, {
+                error: delivery.error ?? null,
+              })
+            : delivery.status === "COMPLAINED"
+              ? createEvent("EMAIL_COMPLAINED", SYSTEM_ACTOR, `${recipient} marked the decision email as spam.`)
+              : createEvent("EMAIL_FAILED", SYSTEM_ACTOR, "Decision email failed to send.", {
+                  error: delivery.error ?? null,
+                  mode: delivery.mode ?? null,
+                });
+    return withEvents(next, event);
+  });
 }
 
 export function hasValidContractorEmail(record: StoredChangeOrder): boolean {
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { normalizeDraftInput } from "./change-order-schema";
+import { getChangeOrderById, saveBlocked } from "./change-order-store";
+import { processContractorReminders } from "./contractor-reminders";
+import type { EmailMessage } from "./email";
+import { getSubmissionDeadline } from "./submission-policy";
+import { getSubmissionPolicy } from "./submission-policy-store";
+
+const HOUR_MS = 60 * 60 * 1000;
+const sent: EmailMessage[] = [];
+
+beforeEach(() => {
+  sent.length = 0;
+  globalThis.__changeOrderEmailTransport = {
+    mode: "preview",
+    async send(message) {
+      sent.push(message);
+      return { sent: true, mode: "preview", messageId: `msg_${sent.length}` };
+    },
+  };
+});
+
+afterEach(() => {
+  globalThis.__changeOrderEmailTransport = undefined;
+});
+
+// A submission the checklist blocked, with the submission window it still has to meet.
+async function blockedSubmission() {
+  const record = await saveBlocked(
+    normalizeDraftInput({
+      projectId: "P1",
+      contractorName: "Pat Contractor",
+      contractorEmail: "pat@example.com",
+      workPerformedAt: new Date().toISOString(),
+      scope: "Patch drywall",
+      quantity: 1,
+      whyNeeded: "Water damage",
+    }),
+    ["Photos are required for this amount."],
+  );
+  const deadline = getSubmissionDeadline(record!.input.workPerformedAt, await getSubmissionPolicy("P1"));
+  return { id: record!.id, deadline: deadline! };
+}
+
+describe("processContractorReminders", () => {
+  it("reminds the contractor about a blocked submission before its window closes", async () => {
+    const { id, deadline } = await blockedSubmission();
+    await processContractorReminders(new Date(deadline.getTime() - HOUR_MS));
+
+    const record = await getChangeOrderById(id);
+    expect(record?.status).toBe("BLOCKED");
+    expect(record?.reminders).toMatchObject([{ kind: "DRAFT_DEADLINE", hours: 6, to: "pat@example.com" }]);
+    expect(sent.map((message) => message.to)).toContain("pat@example.com");
+  });
+
+  it("expires a blocked submission left past the draft cutoff", async () => {
+    const { id, deadline } = await blockedSubmission();
+    const policy = await getSubmissionPolicy("P1");
+    await processContractorReminders(new Date(deadline.getTime() + (policy.draftExpiryHours! + 1) * HOUR_MS));
+
+    const record = await getChangeOrderById(id);
+    expect(record?.status).toBe("EXPIRED");
+    expect(record?.history.at(-1)?.type).toBe("EXPIRED");
+  });
+});
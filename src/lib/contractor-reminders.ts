@@ -0,0 +1,171 @@
+import {
+  canRevise,
+  expireChangeOrder,
+  getDraftUrl,
+  getRevisionUrl,
+  hasSentReminder,
+  hasValidContractorEmail,
+  isEditableDraft,
+  listChangeOrders,
+  recordReminder,
+  type ReminderKind,
+  type StoredChangeOrder,
+} from "./change-order-store";
+import { deliverOutboxMessage, enqueueEmail } from "./email-outbox";
+import { renderEmailTemplate } from "./email-templates";
+import { startIntervalWorker } from "./interval-worker";
+import { getSubmissionDeadline, type SubmissionPolicy } from "./submission-policy";
+import { getSubmissionPolicy } from "./submission-policy-store";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.REMINDER_POLL_MS || 15 * 60 * 1000);
+
+// Where a record stands against its project's reminder settings at one moment.
+type ReminderPlan = {
+  kind: ReminderKind;
+  anchor: Date;
+  /** The reminder that is due now, if any; earlier ones missed while the job was down are skipped. */
+  reminderHours?: number;
+  /** When the item expires; null when the policy never expires it. */
+  expiresAt: Date | null;
+  expiryHours: number | null;
+  /** Shown to the contractor as the closing date. */
+  deadline: Date | null;
+};
+
+function formatDeadline(date: Date): string {
+  return `${date.toLocaleString("en-US", { dateStyle: "long", timeStyle: "short", timeZone: "UTC" })} UTC`;
+}
+
+function planReminders(record: StoredChangeOrder, policy: SubmissionPolicy, now: Date): ReminderPlan | null {
+  // A blocked submission is still a draft the contractor has to fix before the window closes.
+  if (isEditableDraft(record)) {
+    const deadline = getSubmissionDeadline(record.input.workPerformedAt, policy);
+    // Without a work date there is no window to warn about, but the draft still expires.
+    const anchor = deadline ?? getSubmissionDeadline(record.createdAt, policy);
+    if (!anchor) {
+      return null;
+    }
+    const due = deadline
+      ? policy.draftReminderHours.filter((hours) => now.getTime() >= deadline.getTime() - hours * HOUR_MS)
+      : [];
+    return {
+      kind: "DRAFT_DEADLINE",
+      anchor,
+      reminderHours: deadline && now < deadline && due.length > 0 ? Math.min(...due) : undefined,
+      expiresAt:
+        policy.draftExpiryHours === null ? null : new Date(anchor.getTime() + policy.draftExpiryHours * HOUR_MS),
+      expiryHours: policy.draftExpiryHours,
+      deadline,
+    };
+  }
+
+  if (canRevise(record) && record.decisionAt) {
+    const anchor = new Date(record.decisionAt);
+    const due = policy.needsInfoReminderHours.filter((hours) => now.getTime() >= anchor.getTime() + hours * HOUR_MS);
+    const expiresAt =
+      policy.needsInfoExpiryHours === null ? null : new Date(anchor.getTime() + policy.needsInfoExpiryHours * HOUR_MS);
+    return {
+      kind: "NEEDS_INFO",
+      anchor,
+      reminderHours: due.length > 0 ? Math.max(...due) : undefined,
+      expiresAt,
+      expiryHours: policy.needsInfoExpiryHours,
+      deadline: expiresAt,
+    };
+  }
+  return null;
+}
+
+async function sendReminder(record: StoredChangeOrder, plan: ReminderPlan, hours: number): Promise<boolean> {
+  const anchor = plan.anchor.toISOString();
+  if (hasSentReminder(record, { kind: plan.kind, anchor, hours }) || !hasValidContractorEmail(record)) {
+    return false;
+  }
+
+  const base = {
+    contractorName: record.input.contractorName || "Contractor",
+    projectLabel: record.input.projectId || "your project",
+    deadline: plan.deadline ? formatDeadline(plan.deadline) : undefined,
+  };
+  const { subject, text, html } =
+    plan.kind === "DRAFT_DEADLINE"
+      ? renderEmailTemplate("reminder", {
+          ...base,
+          waitingFor: "submission",
+          items: [],
+          message: "Change orders submitted after this time are late under the project's policy.",
+          actionUrl: getDraftUrl(record),
+          actionLabel: "Finish and submit",
+        })
+      : renderEmailTemplate("reminder", {
+          ...base,
+          waitingFor: "the information we requested",
+          items: record.needsInfoChecklist,
+          actionUrl: getRevisionUrl(record) ?? undefined,
+          actionLabel: "Respond and resubmit",
+        });
+
+  const to = record.input.contractorEmail.trim();
+  const message = await enqueueEmail({
+    kind: "REMINDER",
+    idempotencyKey: `reminder:${record.id}:${plan.kind}:${anchor}:${hours}`,
+    changeOrderId: record.id,
+    to,
+    subject,
+    text,
+    html,
+  });
+  await deliverOutboxMessage(message.id);
+  return (await recordReminder(record.id, { kind: plan.kind, anchor, hours, to })) !== null;
+}
+
+/**
+ * Emails contractors about drafts (blocked ones included) close to missing their submission window and NEEDS_INFO requests left
+ * unanswered, and expires the ones abandoned past the policy's cutoff. Each reminder is sent once and
+ * recorded in the change order's history.
+ */
+export async function processContractorReminders(
+  now: Date = new Date(),
+): Promise<{ reminded: number; expired: number }> {
+  const policies = new Map<string, SubmissionPolicy>();
+  let reminded = 0;
+  let expired = 0;
+
+  for (const record of await listChangeOrders()) {
+    if (!isEditableDraft(record) && !canRevise(record)) {
+      continue;
+    }
+    const projectId = record.input.projectId;
+    const policy = policies.get(projectId) ?? (await getSubmissionPolicy(projectId));
+    policies.set(projectId, policy);
+
+    const plan = planReminders(record, policy, now);
+    if (!plan) {
+      continue;
+    }
+    if (plan.expiresAt && plan.expiresAt <= now && plan.expiryHours !== null) {
+      const result = await expireChangeOrder(record.id, {
+        kind: plan.kind,
+        anchor: plan.anchor.toISOString(),
+        hours: plan.expiryHours,
+      });
+      if (result?.status === "EXPIRED") {
+        expired += 1;
+      }
+      continue;
+    }
+    if (plan.reminderHours !== undefined && (await sendReminder(record, plan, plan.reminderHours))) {
+      reminded += 1;
+    }
+  }
+  return { reminded, expired };
+}
+
+/** Sends due reminders in the background; started once per server process from `instrumentation.ts`. */
+export function startReminderWorker(): void {
+  if (process.env.REMINDER_WORKER === "off") {
+    return;
+  }
+  startIntervalWorker("Contractor reminder", WORKER_INTERVAL_MS, processContractorReminders);
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+
+import type { StoredChangeOrder } from "./change-order-store";
+import type { RecordMigration } from "./migrations";
+import { defineRepository } from "./repository";
+
+export const denialReasonSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(
+      /^[A-Z][A-Z0-9_]*$/,
+      "Code may only contain upper-case letters, digits and underscores, e.g. MISSING_PERMIT",
+    ),
+  /** What the contractor sees instead of the code. */
+  title: z.string().trim().min(1, "Title is required"),
+  explanation: z.string().trim().min(1, "Explanation is required"),
+  /** "What you can do next" guidance in the denial email. */
+  nextSteps: z.string().trim().min(1, "Next steps are required"),
+  // Retired reasons stay readable on old decisions but can no longer be picked.
+  active: z.boolean().default(true),
+});
+
+export const denialReasonUpdateSchema = denialReasonSchema.omit({ code: true }).partial();
+
+export type DenialReasonInput = z.infer<typeof denialReasonSchema>;
+export type DenialReasonUpdate = z.infer<typeof denialReasonUpdateSchema>;
+
+export type DenialReason = DenialReasonInput & {
+  id: string;
+  schemaVersion?: number;
+  /** Shipped with the app; editable, but never removed from the catalog. */
+  builtIn: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+/** The wording a decision was made with, kept on the change order so later catalog edits do not rewrite it. */
+export type DenialReasonSnapshot = Pick<DenialReason, "code" | "title" | "explanation" | "nextSteps">;
+
+const builtInDenialReasons: DenialReasonInput[] = [
+  {
+    code: "MISSING_REQUIRED_INFO",
+    title: "Required information is missing",
+    explanation:
+      "The change order is missing details we need to evaluate it, such as quantities, costs or a description of the work.",
+    nextSteps: "Submit a new change order with every required field completed and the supporting documents attached.",
+    active: true,
+  },
+  {
+    code: "INSUFFICIENT_PHOTO_EVIDENCE",
+    title: "Photos do not support the request",
+    explanation:
+      "The photos could not confirm the work: they were missing or unclear, taken at another time or place, or reused from another request.",
+    nextSteps: "Submit a new change order with clear photos taken on site on the day the work was performed.",
+    active: true,
+  },
+  {
+    code: "OUTSIDE_24_HOUR_WINDOW",
+    title: "Submitted outside the submission window",
+    explanation: "Change orders must be submitted within the project's submission window after the work is performed.",
+    nextSteps:
+      "Submit future change orders within the window. Contact the Remi team if you believe this one was on time.",
+    active: true,
+  },
+  {
+    code: "DUPLICATE_REQUEST",
+    title: "Duplicate request",
+    explanation: "This work was already requested in another change order.",
+    nextSteps:
+      "Check the status of the earlier change order. If this is new work, resubmit with details that set it apart.",
+    active: true,
+  },
+  {
+    code: "PRICING_NOT_JUSTIFIED",
+    title: "Pricing is not supported",
+    explanation: "The costs were higher than we could verify from the quantities, rates or receipts provided.",
+    nextSteps: "Resubmit with an itemized breakdown and receipts or quotes that support the price.",
+    active: true,
+  },
+  {
+    code: "IN_SCOPE_OF_TURNKEY",
+    title: "Already included in your contract",
+    explanation:
+      "This work is part of the turn-key scope covered by your contract price, so it cannot be billed as a change.",
+    nextSteps: "Review the project's turn-key scope. Contact the Remi team if you believe this work goes beyond it.",
+    active: true,
+  },
+  {
+    code: "OTHER",
+    title: "Other",
+    explanation: "See the message from the Remi team for details.",
+    nextSteps: "Reply to this email or contact the Remi team with any questions.",
+    active: true,
+  },
+];
+
+const denialReasonMigrations: RecordMigration<DenialReason>[] = [];
+
+// Only edited and added reasons are stored, keyed by code; built-in reasons without a document use the defaults.
+const denialReasons = defineRepository<DenialReason>({ table: "denial_reasons", migrations: denialReasonMigrations });
+
+function builtInReason(input: DenialReasonInput): DenialReason {
+  return { ...input, id: input.code, builtIn: true };
+}
+
+/** Wording for a code on a record, falling back to the built-in text or the bare code when it is unknown. */
+export function describeDenialReasonCode(code: string): DenialReasonSnapshot {
+  const builtIn = builtInDenialReasons.find((reason) => reason.code === code);
+  return builtIn
+    ? toDenialReasonSnapshot(builtInReason(builtIn))
+    : { code, title: code, explanation: "", nextSteps: "" };
+}
+
+export function toDenialReasonSnapshot(reason: DenialReasonSnapshot): DenialReasonSnapshot {
+  return { code: reason.code, title: reason.title, explanation: reason.explanation, nextSteps: reason.nextSteps };
+}
+
+/** Built-in reasons in their shipped order, then added reasons by title. */
+export async function listDenialReasons(options: { includeRetired?: boolean } = {}): Promise<DenialReason[]> {
+  const repository = await denialReasons();
+  const stored = new Map((await repository.list()).map((reason) => [reason.id, reason]));
+  const builtIns = builtInDenialReasons.map((input) => stored.get(input.code) ?? builtInReason(input));
+  const added = [...stored.values()].filter((reason) => !reason.builtIn).sort((a, b) => a.title.localeCompare(b.title));
+  return [...builtIns, ...added].filter((reason) => options.includeRetired || reason.active);
+}
+
+export async function getDenialReason(code: string): Promise<DenialReason | null> {
+  const repository = await denialReasons();
+  const stored = await repository.get(code);
+  if (stored) {
+    return stored;
+  }
+  const builtIn = builtInDenialReasons.find((reason) => reason.code === code);
+  return builtIn ? builtInReason(builtIn) : null;
+}
+
+/** Adds a reason code; returns null when the code is already in the catalog. */
+export async function createDenialReason(input: DenialReasonInput, updatedBy: string): Promise<DenialReason | null> {
+  if (await getDenialReason(input.code)) {
+    return null;
+  }
+  const repository = await denialReasons();
+  return repository.insert({
+    ...input,
+    id: input.code,
+    builtIn: false,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  });
+}
+
+export async function updateDenialReason(
+  code: string,
+  update: DenialReasonUpdate,
+  updatedBy: string,
+): Promise<DenialReason | null> {
+  const existing = await getDenialReason(code);
+  if (!existing) {
+    return null;
+  }
+  const next: DenialReason = { ...existing, ...update, updatedAt: new Date().toISOString(), updatedBy };
+
+  const repository = await denialReasons();
+  const updated = await repository.update(code, () => next);
+  return updated ?? repository.insert(next);
+}
+
+export type DenialReasonUsage = DenialReasonSnapshot & {
+  active: boolean;
+  /** Change orders whose decision is a denial with this reason. */
+  deniedChangeOrders: number;
+  /** Line items denied or adjusted with this reason, across all decided change orders. */
+  lineItems: number;
+};
+
+/**
+ * How often each reason is used by current decisions. Codes that are no longer in the catalog still get
+ * a row, titled with the code, so totals always add up.
+ */
+export function summarizeDenialReasons(records: StoredChangeOrder[], reasons: DenialReason[]): DenialReasonUsage[] {
+  const usage = new Map<string, DenialReasonUsage>(
+    reasons.map((reason) => [
+      reason.code,
+      { ...toDenialReasonSnapshot(reason), active: reason.active, deniedChangeOrders: 0, lineItems: 0 },
+    ]),
+  );
+  const rowFor = (code: string) => {
+    let row = usage.get(code);
+    if (!row) {
+      row = { ...describeDenialReasonCode(code), active: false, deniedChangeOrders: 0, lineItems: 0 };
+      usage.set(code, row);
+    }
+    return row;
+  };
+
+  for (const record of records) {
+    if (record.decisionStatus === "DENIED" && record.denialReasonCode) {
+      rowFor(record.denialReasonCode).deniedChangeOrders += 1;
+    }
+    for (const decision of record.lineItemDecisions ?? []) {
+      if (decision.reasonCode) {
+        rowFor(decision.reasonCode).lineItems += 1;
+      }
+    }
+  }
+  return [...usage.values()];
+}
@@ -0,0 +1,136 @@
+import { getChangeOrderTotal, type ChangeOrderInput } from "./change-order-schema";
+import { listChangeOrders, type StoredChangeOrder } from "./change-order-store";
+import { formatMoney } from "./money";
+import type { PhotoEvidence } from "./photo-evidence";
+
+// Matches below this score are noise and are not reported at all.
+const REPORT_THRESHOLD = 0.4;
+const WORK_OVERLAP_HOURS = 24;
+
+// How much each signal contributes to the 0-1 similarity score.
+const weights = {
+  scope: 0.35,
+  workPerformedAt: 0.2,
+  pricing: 0.2,
+  photos: 0.25,
+};
+
+export type DuplicateMatch = {
+  changeOrderId: string;
+  /** 0-1; 1 means every signal matched. */
+  score: number;
+  reasons: string[];
+  submittedAt?: string;
+};
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3),
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = [...a].filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function lineItemSignature(input: ChangeOrderInput): string {
+  return input.lineItems
+    .map(
+      (item) =>
+        `${item.description.trim().toLowerCase()}|${item.quantity}|${item.unitPrice.amountCents}|${item.unitPrice.currency}`,
+    )
+    .sort()
+    .join(";");
+}
+
+function isSameContractor(record: StoredChangeOrder, input: ChangeOrderInput, createdBy?: string): boolean {
+  if (createdBy && record.createdBy) {
+    return record.createdBy === createdBy;
+  }
+  return record.input.contractorEmail.trim().toLowerCase() === input.contractorEmail.trim().toLowerCase();
+}
+
+function compare(
+  input: ChangeOrderInput,
+  record: StoredChangeOrder,
+  photoEvidence: PhotoEvidence[],
+): DuplicateMatch | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const scopeSimilarity = jaccard(
+    tokenize(`${input.scope} ${input.whyNeeded}`),
+    tokenize(`${record.input.scope} ${record.input.whyNeeded}`),
+  );
+  if (scopeSimilarity >= 0.5) {
+    score += weights.scope * scopeSimilarity;
+    reasons.push(`Scope text is ${Math.round(scopeSimilarity * 100)}% similar.`);
+  }
+
+  const workGapHours =
+    Math.abs(new Date(input.workPerformedAt).getTime() - new Date(record.input.workPerformedAt).getTime()) /
+    (60 * 60 * 1000);
+  if (workGapHours <= WORK_OVERLAP_HOURS) {
+    score += weights.workPerformedAt;
+    reasons.push("Work was performed within a day of each other.");
+  }
+
+  const total = getChangeOrderTotal(input);
+  const otherTotal = getChangeOrderTotal(record.input);
+  const sameCurrency = total.currency === otherTotal.currency;
+  const gapCents = Math.abs(total.amountCents - otherTotal.amountCents);
+  const signature = lineItemSignature(input);
+  if (signature && signature === lineItemSignature(record.input)) {
+    score += weights.pricing;
+    reasons.push("Line items are identical.");
+  } else if (sameCurrency && total.amountCents > 0 && gapCents === 0) {
+    score += weights.pricing;
+    reasons.push(`Totals match (${formatMoney(total)}).`);
+  } else if (sameCurrency && total.amountCents > 0 && gapCents * 20 <= total.amountCents) {
+    score += weights.pricing / 2;
+    reasons.push("Totals are within 5%.");
+  }
+
+  const sharedPhotos = input.photos.filter(
+    (photo, index) =>
+      record.input.photos.includes(photo) ||
+      photoEvidence[index]?.duplicates.some((duplicate) => duplicate.changeOrderId === record.id),
+  ).length;
+  if (sharedPhotos > 0) {
+    score += weights.photos;
+    reasons.push(`${sharedPhotos} photo(s) reused.`);
+  }
+
+  return score >= REPORT_THRESHOLD
+    ? { changeOrderId: record.id, score: Math.round(score * 100) / 100, reasons, submittedAt: record.submittedAt }
+    : null;
+}
+
+/**
+ * Scores a submission against the same contractor's earlier submitted change orders on the same
+ * project. Pass the photo evidence computed for the submission so reused photos count as a signal.
+ */
+export async function findLikelyDuplicates(
+  input: ChangeOrderInput,
+  options: { createdBy?: string; excludeId?: string; photoEvidence?: PhotoEvidence[] } = {},
+): Promise<DuplicateMatch[]> {
+  const candidates = (await listChangeOrders()).filter(
+    (record) =>
+      record.id !== options.excludeId &&
+      record.status === "SUBMITTED" &&
+      record.input.projectId === input.projectId &&
+      isSameContractor(record, input, options.createdBy),
+  );
+
+  return candidates
+    .map((record) => compare(input, record, options.photoEvidence ?? []))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { EmailMessage, EmailSendResult } from "./email";
+import {
+  deliverOutboxMessage,
+  enqueueEmail,
+  getOutboxMessage,
+  processOutbox,
+  recordProviderEvent,
+  resendOutboxMessage,
+} from "./email-outbox";
+
+const START = new Date("2026-03-02T12:00:00.000Z");
+const sent: EmailMessage[] = [];
+let respond: () => EmailSendResult = () => ({ sent: true, mode: "preview", messageId: "msg_1" });
+
+function queue(key: string) {
+  return enqueueEmail({
+    kind: "TEAM_NOTIFICATION",
+    idempotencyKey: key,
+    to: "team@example.com",
+    subject: "New change order",
+    text: "A change order was submitted.",
+  });
+}
+
+function advance(ms: number) {
+  vi.setSystemTime(new Date(Date.now() + ms));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+  sent.length = 0;
+  respond = () => ({ sent: true, mode: "preview", messageId: "msg_1" });
+  globalThis.__changeOrderEmailTransport = {
+    mode: "preview",
+    async send(message) {
+      sent.push(message);
+      return respond();
+    },
+  };
+});
+
+afterEach(() => {
+  globalThis.__changeOrderEmailTransport = undefined;
+  vi.useRealTimers();
+});
+
+describe("email outbox", () => {
+  it("sends a due message once and dedupes by idempotency key", async () => {
+    const message = await queue("outbox-test:sent");
+    const delivered = await deliverOutboxMessage(message.id);
+
+    expect(delivered).toMatchObject({ status: "SENT", attempts: 1, providerMessageId: "msg_1" });
+    expect(delivered?.claimId).toBeUndefined();
+    expect((await queue("outbox-test:sent")).id).toBe(message.id);
+    expect((await deliverOutboxMessage(message.id))?.status).toBe("SENT");
+    expect(sent).toHaveLength(1);
+  });
+
+  it("retries failures with exponential backoff", async () => {
+    respond = () => ({ sent: false, mode: "preview", error: "Mailbox unavailable" });
+    const message = await queue("outbox-test:backoff");
+
+    const first = await deliverOutboxMessage(message.id);
+    expect(first).toMatchObject({ status: "PENDING", attempts: 1, lastError: "Mailbox unavailable" });
+    expect(first?.nextAttemptAt).toBe(new Date(START.getTime() + 30_000).toISOString());
+
+    // Not due yet, so nothing is sent.
+    advance(29_000);
+    expect((await deliverOutboxMessage(message.id))?.attempts).toBe(1);
+    expect(sent).toHaveLength(1);
+
+    advance(1_000);
+    const second = await deliverOutboxMessage(message.id);
+    expect(second?.attempts).toBe(2);
+    expect(second?.nextAttemptAt).toBe(new Date(Date.now() + 60_000).toISOString());
+
+    advance(60_000);
+    const third = await deliverOutboxMessage(message.id);
+    expect(third?.nextAttemptAt).toBe(new Date(Date.now() + 120_000).toISOString());
+  });
+
+  it("gives up after the last attempt until the message is resent", async () => {
+    respond = () => ({ sent: false, mode: "preview", error: "Rejected" });
+    const message = await queue("outbox-test:exhausted");
+
+    let current = await deliverOutboxMessage(message.id);
+    while (current?.status === "PENDING") {
+      vi.setSystemTime(new Date(current.nextAttemptAt));
+      current = await deliverOutboxMessage(message.id);
+    }
+    expect(current).toMatchObject({ status: "FAILED", attempts: current?.maxAttempts, lastError: "Rejected" });
+
+    advance(24 * 60 * 60 * 1000);
+    expect((await deliverOutboxMessage(message.id))?.status).toBe("FAILED");
+    expect(sent).toHaveLength(current?.maxAttempts ?? 0);
+
+    respond = () => ({ sent: true, mode: "preview", messageId: "msg_2" });
+    const resent = await resendOutboxMessage(message.id);
+    expect(resent).toMatchObject({ status: "SENT", attempts: 1, resendCount: 1 });
+    // A fresh key so the provider does not drop the resend as a duplicate.
+    expect(sent.at(-1)?.idempotencyKey).toBe(`${message.id}-1`);
+  });
+
+  it("records a throwing transport as a failed attempt instead of leaving the message claimed", async () => {
+    globalThis.__changeOrderEmailTransport = {
+      mode: "preview",
+      async send() {
+        throw new Error("EMAIL_TRANSPORT must be resend, smtp or preview");
+      },
+    };
+    const message = await queue("outbox-test:throws");
+    const delivered = await deliverOutboxMessage(message.id);
+
+    expect(delivered).toMatchObject({
+      status: "PENDING",
+      attempts: 1,
+      lastError: "EMAIL_TRANSPORT must be resend, smtp or preview",
+    });
+    expect(delivered?.claimId).toBeUndefined();
+    expect((await getOutboxMessage(message.id))?.nextAttemptAt).toBe(new Date(START.getTime() + 30_000).toISOString());
+  });
+
+  it("sends due messages from the worker and leaves the ones still backing off", async () => {
+    respond = () => ({ sent: false, mode: "preview", error: "Mailbox unavailable" });
+    const waiting = await queue("outbox-test:waiting");
+    await deliverOutboxMessage(waiting.id);
+    respond = () => ({ sent: true, mode: "preview", messageId: "msg_due" });
+    const due = await queue("outbox-test:due");
+
+    await processOutbox();
+
+    expect((await getOutboxMessage(due.id))?.status).toBe("SENT");
+    expect((await getOutboxMessage(waiting.id))?.attempts).toBe(1);
+    expect(sent.filter((message) => message.idempotencyKey === waiting.id)).toHaveLength(1);
+  });
+
+  it("applies provider events to the message with that provider id", async () => {
+    respond = () => ({ sent: true, mode: "preview", messageId: "msg_bounced" });
+    const message = await queue("outbox-test:bounced");
+    await deliverOutboxMessage(message.id);
+
+    const bounced = await recordProviderEvent("msg_bounced", { status: "BOUNCED", detail: "Mailbox does not exist" });
+    expect(bounced).toMatchObject({ id: message.id, status: "BOUNCED", lastError: "Mailbox does not exist" });
+    expect(await recordProviderEvent("msg_unknown", { status: "DELIVERED" })).toBeNull();
+  });
+});
@@ -0,0 +1,319 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import {
+  getChangeOrderById,
+  hasValidContractorEmail,
+  type StoredChangeOrder,
+  updateDecisionEmailDelivery,
+} from "./change-order-store";
+import { type EmailSendResult, type EmailTransportMode, sendEmail } from "./email";
+import { startIntervalWorker } from "./interval-worker";
+import type { RecordMigration } from "./migrations";
+import { defineRepository } from "./repository";
+
+export type OutboxMessageKind = "DECISION" | "TEAM_NOTIFICATION" | "SLA_ESCALATION" | "REMINDER";
+
+/**
+ * PENDING messages wait for `nextAttemptAt`; SENDING is claimed by one worker. SENT, FAILED (out of
+ * attempts) and the provider-reported DELIVERED, BOUNCED and COMPLAINED are final until a resend.
+ */
+export type OutboxMessageStatus = "PENDING" | "SENDING" | "SENT" | "FAILED" | "DELIVERED" | "BOUNCED" | "COMPLAINED";
+
+export type OutboxMessage = {
+  id: string;
+  schemaVersion?: number;
+  kind: OutboxMessageKind;
+  /** Identifies the logical email, e.g. one decision; enqueueing the same key twice returns the first message. */
+  idempotencyKey: string;
+  changeOrderId?: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  status: OutboxMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  /** Bumped by a manual resend so the provider does not dedupe it against the earlier send. */
+  resendCount: number;
+  claimId?: string;
+  lastError?: string;
+  providerMessageId?: string;
+  mode?: EmailTransportMode;
+  previewUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+};
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+// A worker that died mid-send leaves the message SENDING; it is picked up again after this long.
+const SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.EMAIL_OUTBOX_POLL_MS || 15 * 1000);
+
+const outboxMigrations: RecordMigration<OutboxMessage>[] = [];
+
+const outbox = defineRepository<OutboxMessage>({ table: "email_outbox", migrations: outboxMigrations });
+
+function messageIdFor(idempotencyKey: string): string {
+  return `eml_${createHash("sha256").update(idempotencyKey).digest("hex").slice(0, 24)}`;
+}
+
+/** 30s, 1m, 2m, 4m... capped at an hour. */
+function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+function isDue(message: OutboxMessage, now: number): boolean {
+  if (message.status === "PENDING") {
+    return new Date(message.nextAttemptAt).getTime() <= now;
+  }
+  return message.status === "SENDING" && new Date(message.updatedAt).getTime() + SENDING_TIMEOUT_MS <= now;
+}
+
+// The same test as `isDue`, asked of the repository so the worker only loads messages it will try.
+async function listDueMessages(now: number): Promise<OutboxMessage[]> {
+  const repository = await outbox();
+  const [pending, abandoned] = await Promise.all([
+    repository.find([
+      { field: "status", equals: "PENDING" },
+      { field: "nextAttemptAt", atMost: new Date(now).toISOString() },
+    ]),
+    repository.find([
+      { field: "status", equals: "SENDING" },
+      { field: "updatedAt", atMost: new Date(now - SENDING_TIMEOUT_MS).toISOString() },
+    ]),
+  ]);
+  return [...pending, ...abandoned];
+}
+
+export async function enqueueEmail(input: {
+  kind: OutboxMessageKind;
+  idempotencyKey: string;
+  changeOrderId?: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}): Promise<OutboxMessage> {
+  const repository = await outbox();
+  const id = messageIdFor(input.idempotencyKey);
+  const existing = await repository.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  return repository.insert({
+    id,
+    ...input,
+    status: "PENDING",
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    nextAttemptAt: now,
+    resendCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function getOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  const repository = await outbox();
+  return repository.get(id);
+}
+
+// Mirrors a decision email's outbox state onto the change order the team sees.
+async function syncDecisionEmail(message: OutboxMessage): Promise<void> {
+  if (message.kind !== "DECISION" || !message.changeOrderId) {
+    return;
+  }
+  await updateDecisionEmailDelivery(message.changeOrderId, {
+    status: message.status === "SENDING" ? "PENDING" : message.status,
+    error:
+      message.status === "PENDING" && message.lastError
+        ? `${message.lastError} Retrying at ${message.nextAttemptAt}.`
+        : message.lastError,
+    previewUrl: message.previewUrl,
+    sentAt: message.sentAt,
+    mode: message.mode,
+    outboxMessageId: message.id,
+  });
+}
+
+/**
+ * Sends one message if it is due and no other worker holds it. Failures go back to PENDING with
+ * exponential backoff until `maxAttempts`, then stay FAILED until someone resends them.
+ */
+export async function deliverOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  const repository = await outbox();
+  const claimId = randomBytes(8).toString("hex");
+  const claimed = await repository.update(id, (current) =>
+    isDue(current, Date.now())
+      ? {
+          ...current,
+          status: "SENDING",
+          claimId,
+          attempts: current.attempts + 1,
+          updatedAt: new Date().toISOString(),
+        }
+      : current,
+  );
+  if (!claimed || claimed.claimId !== claimId || claimed.status !== "SENDING") {
+    return claimed;
+  }
+
+  // A transport that throws (say, an invalid EMAIL_TRANSPORT) counts as a failed attempt and is retried with
+  // backoff, rather than leaving the message claimed until the claim times out.
+  let result: Omit<EmailSendResult, "mode"> & { mode?: EmailTransportMode };
+  try {
+    result = await sendEmail({
+      to: claimed.to,
+      subject: claimed.subject,
+      text: claimed.text,
+      html: claimed.html,
+      idempotencyKey: claimed.resendCount > 0 ? `${claimed.id}-${claimed.resendCount}` : claimed.id,
+    });
+  } catch (error) {
+    result = { sent: false, error: error instanceof Error ? error.message : "Unknown email error" };
+  }
+
+  const now = new Date();
+  const delivered = await repository.update(id, (current) => {
+    if (current.claimId !== claimId) {
+      return current;
+    }
+    if (result.sent) {
+      return {
+        ...current,
+        status: "SENT",
+        claimId: undefined,
+        lastError: undefined,
+        providerMessageId: result.messageId,
+        mode: result.mode,
+        previewUrl: result.previewUrl,
+        sentAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+    }
+    const outOfAttempts = current.attempts >= current.maxAttempts;
+    return {
+      ...current,
+      status: outOfAttempts ? "FAILED" : "PENDING",
+      claimId: undefined,
+      lastError: result.error ?? "Unknown email error",
+      mode: result.mode ?? current.mode,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs(current.attempts)).toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (delivered) {
+    await syncDecisionEmail(delivered);
+  }
+  return delivered;
+}
+
+/** Sends every due message once; the worker calls this on an interval. */
+export async function processOutbox(): Promise<{ attempted: number; sent: number }> {
+  const due = await listDueMessages(Date.now());
+
+  let sent = 0;
+  for (const message of due) {
+    const result = await deliverOutboxMessage(message.id);
+    if (result?.status === "SENT") {
+      sent += 1;
+    }
+  }
+  return { attempted: due.length, sent };
+}
+
+/** Puts a failed or bounced message back in the queue with a fresh set of attempts. */
+export async function resendOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  const repository = await outbox();
+  const requeued = await repository.update(id, (current) =>
+    current.status === "PENDING" || current.status === "SENDING"
+      ? current
+      : {
+          ...current,
+          status: "PENDING",
+          attempts: 0,
+          resendCount: current.resendCount + 1,
+          nextAttemptAt: new Date().toISOString(),
+          lastError: undefined,
+          updatedAt: new Date().toISOString(),
+        },
+  );
+  return requeued ? deliverOutboxMessage(requeued.id) : null;
+}
+
+/** Applies a provider webhook event to the message it sent, matched by the provider's message id. */
+export async function recordProviderEvent(
+  providerMessageId: string,
+  event: { status: "DELIVERED" | "BOUNCED" | "COMPLAINED"; detail?: string },
+): Promise<OutboxMessage | null> {
+  const repository = await outbox();
+  const [message] = await repository.find([{ field: "providerMessageId", equals: providerMessageId }]);
+  if (!message) {
+    return null;
+  }
+
+  const updated = await repository.update(message.id, (current) => ({
+    ...current,
+    status: event.status,
+    lastError: event.status === "DELIVERED" ? undefined : (event.detail ?? current.lastError),
+    updatedAt: new Date().toISOString(),
+  }));
+  if (updated) {
+    await syncDecisionEmail(updated);
+  }
+  return updated;
+}
+
+/**
+ * Queues the decision email prepared on the record and makes the first attempt right away, so the
+ * caller can report whether it went out. Later attempts are left to the worker.
+ */
+export async function queueDecisionEmail(
+  record: StoredChangeOrder,
+  idempotencyKey: string,
+): Promise<{ changeOrder: StoredChangeOrder; emailStatus: "SENT" | "FAILED" | "PENDING"; emailPreviewUrl?: string }> {
+  if (!hasValidContractorEmail(record)) {
+    const failed = await updateDecisionEmailDelivery(record.id, {
+      status: "FAILED",
+      error: "Invalid contractor email address.",
+    });
+    return { changeOrder: failed ?? record, emailStatus: "FAILED" };
+  }
+
+  const message = await enqueueEmail({
+    kind: "DECISION",
+    idempotencyKey,
+    changeOrderId: record.id,
+    to: record.input.contractorEmail,
+    subject: record.decisionEmailSubject ?? "Change order decision",
+    text: record.decisionEmailBody ?? "A decision has been made on your change order.",
+    html: record.decisionEmailHtml,
+  });
+  await updateDecisionEmailDelivery(record.id, {
+    status: "PENDING",
+    outboxMessageId: message.id,
+    linkOutboxMessage: true,
+  });
+  const delivered = await deliverOutboxMessage(message.id);
+
+  return {
+    changeOrder: (await getChangeOrderById(record.id)) ?? record,
+    emailStatus: delivered?.status === "SENT" ? "SENT" : delivered?.status === "FAILED" ? "FAILED" : "PENDING",
+    emailPreviewUrl: delivered?.previewUrl,
+  };
+}
+
+/** Polls the outbox in the background; started once per server process from `instrumentation.ts`. */
+export function startOutboxWorker(): void {
+  if (process.env.EMAIL_OUTBOX_WORKER === "off") {
+    return;
+  }
+  startIntervalWorker("Email outbox", WORKER_INTERVAL_MS, processOutbox);
+}
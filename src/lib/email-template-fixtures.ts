@@ -0,0 +1,75 @@
+import type { EmailTemplateData, EmailTemplateName } from "./email-templates";
+
+// Sample data for the template preview route. The contractor name carries markup characters so the preview
+// shows that interpolated values are escaped.
+const contractor = {
+  contractorName: "O'Brien & Sons <Tiling>",
+  projectLabel: "POC-DEMO-001",
+};
+
+const submission = {
+  projectLabel: "POC-DEMO-001",
+  contractorName: contractor.contractorName,
+  contractorEmail: "office@obrien-tiling.example",
+  workPerformedAt: "2026-03-02T09:30",
+  scope: "Replace cracked subfloor under the kitchen island\nand re-tile 42 sq ft.",
+  totalRequested: "$2480.00",
+  photoCount: 3,
+};
+
+export const emailTemplateFixtures: { [Name in EmailTemplateName]: EmailTemplateData<Name> } = {
+  approved: {
+    ...contractor,
+    partial: true,
+    approvedAmount: "$1980.00",
+    lineOutcomes: [
+      "Subfloor replacement: approved at $1200.00",
+      "Tile (42 sq ft): adjusted from $1280.00 to $780.00 (Pricing is not supported) - priced at the contract rate",
+    ],
+    message: "Thanks for the detailed photos.",
+  },
+  denied: {
+    ...contractor,
+    reason: {
+      title: "Photos do not support the request",
+      explanation:
+        "The photos could not confirm the work: they were missing or unclear, taken at another time or place, or reused from another request.",
+      nextSteps: "Submit a new change order with clear photos taken on site on the day the work was performed.",
+    },
+    photoIssues: ["IMG_2041.jpg was taken 6 days before the work date."],
+    lineOutcomes: [],
+    message: "Please send photos taken on the day of the work.",
+    correctionNotice: "This corrects the earlier decision on this change order (approved), which was withdrawn.",
+  },
+  "needs-info": {
+    ...contractor,
+    requestedItems: ["Invoice for the subfloor material", "Photo of the damaged area before removal"],
+    revisionUrl: "http://localhost:3011/change-order-poc?revise=fixture-token",
+  },
+  reopened: {
+    ...contractor,
+    previousDecision: "approved",
+    reason: "The approved amount did not include the tile adjustment.",
+  },
+  reminder: {
+    ...contractor,
+    waitingFor: "the information we requested",
+    items: ["Invoice for the subfloor material"],
+    deadline: "March 16, 2026",
+    actionUrl: "http://localhost:3011/change-order-poc?revise=fixture-token",
+    actionLabel: "Respond and resubmit",
+  },
+  submitted: submission,
+  blocked: {
+    ...submission,
+    blockingReasons: ["Work was performed more than 7 days before submission (Policy: Default policy)."],
+  },
+  escalation: {
+    ...submission,
+    slaStatus: "IN_REVIEW",
+    assignee: "Dana Reviewer <dana@remi.local>",
+    dueAt: "2026-03-12 17:00 UTC",
+    target: "72 business-day hours",
+    overdueBy: "1 day 4 hours",
+  },
+};
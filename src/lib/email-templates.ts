@@ -0,0 +1,426 @@
+/**
+ * Email templates. Each template describes its email as a list of blocks; the same blocks render to HTML
+ * (inside the shared layout) and to plain text, so the two versions never drift apart. Every value that
+ * reaches the HTML goes through `escapeHtml`, which is why templates take plain strings, never markup.
+ */
+
+type Tone = "info" | "success" | "danger" | "warning";
+
+/** Plain text, or a word the HTML version emphasizes in the tone's accent color. */
+type Inline = string | { strong: string; tone: Tone };
+
+type PanelRow =
+  { label: string; value: string; preWrap?: boolean } | { label: string; items: string[]; emptyText?: string };
+
+type EmailBlock =
+  | { type: "greeting"; name: string }
+  | { type: "paragraph"; content: Inline[] }
+  | { type: "panel"; tone: Tone; rows: PanelRow[] }
+  | { type: "message"; label: string; text: string }
+  | { type: "button"; label: string; textLabel: string; url: string }
+  | { type: "notice"; text: string };
+
+type EmailDocument = {
+  subject: string;
+  blocks: EmailBlock[];
+  /** Small print under the body, e.g. which project the email is about. */
+  footer?: string;
+  /** Contractor emails close with the team's sign-off; internal notifications do not. */
+  signOff: boolean;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const SIGN_OFF_TEXT = "Thank you,\nRemi Change Orders Team";
+const TEAM_NAME = "Remi Change Orders Team";
+
+const toneColors: Record<Tone, { border: string; background: string; text: string; accent: string }> = {
+  info: { border: "#bfdbfe", background: "#eff6ff", text: "#0f4f8b", accent: "#0f4f8b" },
+  success: { border: "#dcfce7", background: "#f0fdf4", text: "#14532d", accent: "#166534" },
+  danger: { border: "#fecdd3", background: "#fff1f2", text: "#9f1239", accent: "#be123c" },
+  warning: { border: "#fde68a", background: "#fffbeb", text: "#92400e", accent: "#92400e" },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// Partials: HTML for one block each.
+
+function inlineHtml(content: Inline[]): string {
+  return content
+    .map((part) =>
+      typeof part === "string"
+        ? escapeHtml(part)
+        : `<strong style="color:${toneColors[part.tone].accent};">${escapeHtml(part.strong)}</strong>`,
+    )
+    .join("");
+}
+
+function panelRowHtml(row: PanelRow, color: string, isFirst: boolean): string {
+  const margin = isFirst ? "0" : "8px 0 0";
+  if ("value" in row) {
+    const preWrap = row.preWrap ? "white-space:pre-wrap;" : "";
+    return `<p style="margin:${margin};color:${color};font-size:14px;${preWrap}"><strong>${escapeHtml(row.label)}:</strong> ${escapeHtml(row.value)}</p>`;
+  }
+  const list =
+    row.items.length > 0
+      ? `<ul style="margin:6px 0 0 18px;padding:0;color:${color};font-size:14px;">${row.items
+          .map((item) => `<li style="margin:0 0 6px;">${escapeHtml(item)}</li>`)
+          .join("")}</ul>`
+      : `<p style="margin:6px 0 0;color:${color};font-size:14px;">${escapeHtml(row.emptyText ?? "None")}</p>`;
+  return `<p style="margin:${margin};color:${color};font-size:14px;"><strong>${escapeHtml(row.label)}:</strong></p>${list}`;
+}
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case "greeting":
+      return `<p style="margin:0 0 12px;color:#0f172a;font-size:16px;">Hello ${escapeHtml(block.name)},</p>`;
+    case "paragraph":
+      return `<p style="margin:0 0 14px;color:#0f172a;font-size:15px;">${inlineHtml(block.content)}</p>`;
+    case "panel": {
+      const colors = toneColors[block.tone];
+      return `<div style="border:1px solid ${colors.border};background:${colors.background};border-radius:8px;padding:12px 14px;margin:0 0 14px;">${block.rows
+        .map((row, index) => panelRowHtml(row, colors.text, index === 0))
+        .join("")}</div>`;
+    }
+    case "message":
+      return `<p style="margin:0 0 14px;color:#0f172a;font-size:14px;white-space:pre-wrap;"><strong>${escapeHtml(block.label)}:</strong><br/>${escapeHtml(block.text)}</p>`;
+    case "button":
+      return `<p style="margin:0 0 14px;"><a href="${escapeHtml(block.url)}" style="display:inline-block;background:#138cf6;color:#ffffff;text-decoration:none;font-weight:600;font-size:14px;padding:10px 16px;border-radius:8px;">${escapeHtml(block.label)}</a></p>`;
+    case "notice": {
+      const colors = toneColors.warning;
+      return `<p style="margin:0 0 14px;padding:10px 12px;border:1px solid ${colors.border};background:${colors.background};border-radius:8px;color:${colors.text};font-size:14px;">${escapeHtml(block.text)}</p>`;
+    }
+  }
+}
+
+function blockText(block: EmailBlock): string {
+  switch (block.type) {
+    case "greeting":
+      return `Hello ${block.name},`;
+    case "paragraph":
+      return block.content.map((part) => (typeof part === "string" ? part : part.strong)).join("");
+    case "panel":
+      // Lists are set off from the rows around them by a blank line.
+      return block.rows
+        .map((row, index) => {
+          const previous = block.rows[index - 1];
+          const separator = !previous ? "" : "items" in row || "items" in previous ? "\n\n" : "\n";
+          if ("value" in row) {
+            return `${separator}${row.label}: ${row.value}`;
+          }
+          const items = row.items.length > 0 ? row.items : [row.emptyText ?? "None"];
+          return `${separator}${row.label}:\n${items.map((item) => `- ${item}`).join("\n")}`;
+        })
+        .join("");
+    case "message":
+      return `${block.label}:\n${block.text}`;
+    case "button":
+      return `${block.textLabel}:\n${block.url}`;
+    case "notice":
+      return block.text;
+  }
+}
+
+// Layout: logo header, body, optional footer. The logo is referenced by CID; transports inline it.
+function layoutHtml(document: EmailDocument): string {
+  const footer = document.footer
+    ? `<div style="padding:14px 20px;border-top:1px solid #dbeafe;background:#f8fbff;color:#64748b;font-size:12px;line-height:1.5;">${escapeHtml(TEAM_NAME)}<br/>${escapeHtml(document.footer)}</div>`
+    : "";
+  return `<div style="background:#f2f7ff;padding:20px;font-family:Inter,Segoe UI,Arial,sans-serif;">
+  <div style="max-width:640px;margin:0 auto;border:1px solid #dbeafe;border-radius:12px;overflow:hidden;background:#ffffff;">
+    <div style="padding:16px 20px;background:#ffffff;border-bottom:1px solid #dbeafe;">
+      <img src="cid:remi-logo@change-order" alt="Remi" style="height:24px;display:block;" />
+    </div>
+    <div style="padding:20px;">
+      ${document.blocks.map(blockHtml).join("\n      ")}
+    </div>
+    ${footer}
+  </div>
+</div>`;
+}
+
+function render(document: EmailDocument): RenderedEmail {
+  const sections = document.blocks.map(blockText);
+  if (document.signOff) {
+    sections.push(SIGN_OFF_TEXT);
+  }
+  return { subject: document.subject, text: sections.join("\n\n"), html: layoutHtml(document) };
+}
+
+/** Fields every email to a contractor about their change order shares. */
+type ContractorEmailData = {
+  contractorName: string;
+  projectLabel: string;
+  /** Free-text message from the team, shown under the details. */
+  message?: string;
+  /** Set when this email replaces a decision that was withdrawn; prefixes the subject and leads the body. */
+  correctionNotice?: string;
+};
+
+export type ApprovedEmailData = ContractorEmailData & {
+  partial: boolean;
+  approvedAmount: string;
+  lineOutcomes: string[];
+};
+
+export type DeniedEmailData = ContractorEmailData & {
+  /** Contractor-facing wording from the denial reason catalog; explanation and next steps may be blank. */
+  reason: { title: string; explanation: string; nextSteps: string };
+  photoIssues: string[];
+  lineOutcomes: string[];
+};
+
+export type NeedsInfoEmailData = ContractorEmailData & {
+  requestedItems: string[];
+  revisionUrl?: string;
+};
+
+export type ReopenedEmailData = ContractorEmailData & {
+  previousDecision: string;
+  reason: string;
+};
+
+export type ReminderEmailData = ContractorEmailData & {
+  /** What the contractor still owes, e.g. "the information we requested". */
+  waitingFor: string;
+  items: string[];
+  /** When the change order closes if nothing happens, already formatted. */
+  deadline?: string;
+  actionUrl?: string;
+  actionLabel?: string;
+};
+
+export type TeamNotificationEmailData = {
+  projectLabel: string;
+  contractorName: string;
+  contractorEmail: string;
+  workPerformedAt: string;
+  scope: string;
+  totalRequested: string;
+  photoCount: number;
+};
+
+export type BlockedEmailData = TeamNotificationEmailData & {
+  blockingReasons: string[];
+};
+
+export type EscalationEmailData = TeamNotificationEmailData & {
+  /** The team status whose review target was missed. */
+  slaStatus: string;
+  assignee: string;
+  /** Already formatted, like the durations below. */
+  dueAt: string;
+  target: string;
+  overdueBy: string;
+};
+
+// Notice, greeting, the template's blocks, the team's message, then any call to action.
+function contractorEmail(
+  data: ContractorEmailData,
+  subject: string,
+  blocks: EmailBlock[],
+  actions: EmailBlock[] = [],
+): EmailDocument {
+  return {
+    subject: data.correctionNotice ? `Corrected decision: ${subject}` : subject,
+    blocks: [
+      ...(data.correctionNotice ? [{ type: "notice" as const, text: data.correctionNotice }] : []),
+      { type: "greeting", name: data.contractorName },
+      ...blocks,
+      ...(data.message ? [{ type: "message" as const, label: "Message from Remi", text: data.message }] : []),
+      ...actions,
+    ],
+    footer: `This message was sent for project ${data.projectLabel}.`,
+    signOff: true,
+  };
+}
+
+// The text version prints the link under the label, e.g. "Respond and resubmit here:".
+function actionButton(label: string, url: string | undefined): EmailBlock[] {
+  return url ? [{ type: "button", label, textLabel: `${label} here`, url }] : [];
+}
+
+function lineOutcomeRows(lineOutcomes: string[]): PanelRow[] {
+  return lineOutcomes.length > 0 ? [{ label: "Line items", items: lineOutcomes }] : [];
+}
+
+function teamNotificationRows(data: TeamNotificationEmailData, status: string): PanelRow[] {
+  return [
+    { label: "Status", value: status },
+    { label: "Project", value: data.projectLabel },
+    { label: "Contractor", value: data.contractorName },
+    { label: "Contractor email", value: data.contractorEmail },
+    { label: "Work performed", value: data.workPerformedAt },
+    { label: "Scope", value: data.scope, preWrap: true },
+    { label: "Total requested", value: data.totalRequested },
+    { label: "Photos attached", value: String(data.photoCount) },
+  ];
+}
+
+const templates = {
+  approved: (data: ApprovedEmailData) => {
+    const outcome = data.partial ? "partially approved" : "approved";
+    return contractorEmail(data, `Change order ${outcome} - ${data.projectLabel}`, [
+      { type: "paragraph", content: ["Your change order has been ", { strong: outcome, tone: "success" }, "."] },
+      {
+        type: "panel",
+        tone: "success",
+        rows: [
+          { label: "Project", value: data.projectLabel },
+          { label: "Approved amount", value: data.approvedAmount },
+          ...lineOutcomeRows(data.lineOutcomes),
+        ],
+      },
+    ]);
+  },
+  denied: (data: DeniedEmailData) =>
+    contractorEmail(
+      data,
+      `Change order denied - ${data.projectLabel}`,
+      [
+        { type: "paragraph", content: ["Your change order has been ", { strong: "denied", tone: "danger" }, "."] },
+        {
+          type: "panel",
+          tone: "danger",
+          rows: [
+            { label: "Project", value: data.projectLabel },
+            { label: "Reason", value: data.reason.title },
+            ...(data.photoIssues.length > 0 ? [{ label: "Photo issues", items: data.photoIssues }] : []),
+            ...lineOutcomeRows(data.lineOutcomes),
+          ],
+        },
+        ...(data.reason.explanation ? [{ type: "paragraph" as const, content: [data.reason.explanation] }] : []),
+      ],
+      data.reason.nextSteps ? [{ type: "message", label: "What you can do next", text: data.reason.nextSteps }] : [],
+    ),
+  "needs-info": (data: NeedsInfoEmailData) =>
+    contractorEmail(
+      data,
+      `More information needed - ${data.projectLabel}`,
+      [
+        {
+          type: "paragraph",
+          content: ["We need ", { strong: "more information", tone: "info" }, " to review your change order."],
+        },
+        {
+          type: "panel",
+          tone: "info",
+          rows: [
+            { label: "Project", value: data.projectLabel },
+            { label: "Requested items", items: data.requestedItems, emptyText: "Additional details requested." },
+          ],
+        },
+      ],
+      actionButton("Respond and resubmit", data.revisionUrl),
+    ),
+  reopened: (data: ReopenedEmailData) =>
+    contractorEmail(data, `Change order decision reopened - ${data.projectLabel}`, [
+      {
+        type: "paragraph",
+        content: [
+          `The decision on your change order (${data.previousDecision}) has been `,
+          { strong: "withdrawn", tone: "info" },
+          " and the change order is being reviewed again.",
+        ],
+      },
+      {
+        type: "panel",
+        tone: "info",
+        rows: [
+          { label: "Project", value: data.projectLabel },
+          { label: "Reason", value: data.reason, preWrap: true },
+        ],
+      },
+      { type: "paragraph", content: ["We will email you the corrected decision."] },
+    ]),
+  reminder: (data: ReminderEmailData) =>
+    contractorEmail(
+      data,
+      `Reminder: your change order is waiting - ${data.projectLabel}`,
+      [
+        {
+          type: "paragraph",
+          content: ["Your change order is still waiting for ", { strong: data.waitingFor, tone: "warning" }, "."],
+        },
+        {
+          type: "panel",
+          tone: "warning",
+          rows: [
+            { label: "Project", value: data.projectLabel },
+            ...(data.items.length > 0 ? [{ label: "Outstanding", items: data.items }] : []),
+            ...(data.deadline ? [{ label: "Closes on", value: data.deadline }] : []),
+          ],
+        },
+      ],
+      actionButton(data.actionLabel ?? "Open change order", data.actionUrl),
+    ),
+  submitted: (data: TeamNotificationEmailData): EmailDocument => ({
+    subject: `New change order submitted - ${data.projectLabel}`,
+    blocks: [
+      { type: "paragraph", content: ["A contractor submitted a new change order."] },
+      { type: "panel", tone: "info", rows: teamNotificationRows(data, "Submitted") },
+      { type: "paragraph", content: ["Open the team queue to review and decide."] },
+    ],
+    signOff: false,
+  }),
+  blocked: (data: BlockedEmailData): EmailDocument => ({
+    subject: `New change order blocked - ${data.projectLabel}`,
+    blocks: [
+      {
+        type: "paragraph",
+        content: ["A contractor submitted a change order that was ", { strong: "blocked", tone: "danger" }, "."],
+      },
+      { type: "panel", tone: "info", rows: teamNotificationRows(data, "Blocked") },
+      { type: "panel", tone: "danger", rows: [{ label: "Blocking reasons", items: data.blockingReasons }] },
+      { type: "paragraph", content: ["Open the team queue to review this submission."] },
+    ],
+    signOff: false,
+  }),
+  escalation: (data: EscalationEmailData): EmailDocument => ({
+    subject: `Overdue change order - ${data.projectLabel}`,
+    blocks: [
+      {
+        type: "paragraph",
+        content: ["A change order has ", { strong: "missed its review target", tone: "danger" }, "."],
+      },
+      {
+        type: "panel",
+        tone: "danger",
+        rows: [
+          { label: "Assigned to", value: data.assignee },
+          { label: "Target", value: `${data.target} in ${data.slaStatus}` },
+          { label: "Was due", value: data.dueAt },
+          { label: "Overdue by", value: data.overdueBy },
+        ],
+      },
+      { type: "panel", tone: "info", rows: teamNotificationRows(data, data.slaStatus) },
+      { type: "paragraph", content: ["Open the team queue to decide it or hand it to someone who can."] },
+    ],
+    signOff: false,
+  }),
+} satisfies Record<string, (data: never) => EmailDocument>;
+
+export type EmailTemplateName = keyof typeof templates;
+
+export type EmailTemplateData<Name extends EmailTemplateName> = Parameters<(typeof templates)[Name]>[0];
+
+export const emailTemplateNames = Object.keys(templates) as EmailTemplateName[];
+
+export function renderEmailTemplate<Name extends EmailTemplateName>(
+  name: Name,
+  data: EmailTemplateData<Name>,
+): RenderedEmail {
+  const template = templates[name] as (data: EmailTemplateData<Name>) => EmailDocument;
+  return render(template(data));
+}
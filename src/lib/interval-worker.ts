@@ -0,0 +1,29 @@
+declare global {
+  // eslint-disable-next-line no-var
+  var __changeOrderWorkers: Map<string, ReturnType<typeof setInterval>> | undefined;
+}
+
+/**
+ * Runs `tick` every `intervalMs` until the process exits, skipping a beat while the previous run is still going.
+ * Starting a worker whose `name` is already running does nothing, so hot reloads do not stack intervals.
+ */
+export function startIntervalWorker(name: string, intervalMs: number, tick: () => Promise<unknown>): void {
+  const workers = (globalThis.__changeOrderWorkers ??= new Map());
+  if (workers.has(name)) {
+    return;
+  }
+  let running = false;
+  const interval = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    tick()
+      .catch((error: unknown) => console.error(`${name} run failed`, error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  interval.unref?.();
+  workers.set(name, interval);
+}
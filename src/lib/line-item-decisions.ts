@@ -0,0 +1,142 @@
+import { getLineItemTotal, type ChangeOrderInput } from "./change-order-schema";
+import type { DenialReasonCode } from "./change-order-store";
+import type { DenialReasonSnapshot } from "./denial-reasons";
+import { addMoney, formatMoney, type Money, zeroMoney } from "./money";
+
+export type LineItemOutcome = "APPROVED" | "ADJUSTED" | "DENIED";
+
+/** What the reviewer sent for one line item; amounts and reasons are checked by `resolveLineItemDecisions`. */
+export type LineItemDecisionRequest = {
+  lineIndex: number;
+  outcome: LineItemOutcome;
+  approvedAmount?: Money;
+  reasonCode?: DenialReasonCode;
+  note?: string;
+};
+
+/** Stored per line item on the change order; description and requested amount are snapshots for the email. */
+export type LineItemDecision = {
+  lineIndex: number;
+  description: string;
+  requestedAmount: Money;
+  outcome: LineItemOutcome;
+  approvedAmount: Money;
+  reasonCode?: DenialReasonCode;
+  /** Catalog title of `reasonCode` when the decision was made. */
+  reasonTitle?: string;
+  note?: string;
+};
+
+type ResolvedLineItemDecisions =
+  | {
+      ok: true;
+      decisions: LineItemDecision[];
+      approvedAmount: Money;
+      /** APPROVED when every line was approved as requested, DENIED when every line was denied. */
+      outcome: "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+      /** The first line's reason, which stands for the whole order when every line is denied. */
+      denialReason?: DenialReasonSnapshot;
+    }
+  | { ok: false; message: string };
+
+/**
+ * Checks one decision per line item and derives the approved amount from them: approved lines count in
+ * full, adjusted lines at the reviewer's amount (below what was requested), and denied lines not at all.
+ * Reason codes must be among `reasons`, the catalog entries that can currently be picked.
+ */
+export function resolveLineItemDecisions(
+  input: ChangeOrderInput,
+  requests: LineItemDecisionRequest[],
+  reasons: DenialReasonSnapshot[],
+): ResolvedLineItemDecisions {
+  if (!input.isMultiItem || input.lineItems.length === 0) {
+    return { ok: false, message: "Only change orders with line items can be decided line by line." };
+  }
+
+  const byIndex = new Map(requests.map((request) => [request.lineIndex, request]));
+  if (byIndex.size !== requests.length) {
+    return { ok: false, message: "Each line item can only be decided once." };
+  }
+  if (requests.length !== input.lineItems.length) {
+    return { ok: false, message: `Decide each of the ${input.lineItems.length} line items.` };
+  }
+
+  const decisions: LineItemDecision[] = [];
+  for (const [lineIndex, lineItem] of input.lineItems.entries()) {
+    const request = byIndex.get(lineIndex);
+    const label = `Line item ${lineIndex + 1}`;
+    if (!request) {
+      return { ok: false, message: `${label} has no decision.` };
+    }
+    const requestedAmount = getLineItemTotal(lineItem);
+
+    if (request.outcome !== "APPROVED" && !request.reasonCode) {
+      return { ok: false, message: `${label} needs a reason code when it is adjusted or denied.` };
+    }
+    const reason =
+      request.outcome === "APPROVED" ? undefined : reasons.find((entry) => entry.code === request.reasonCode);
+    if (request.outcome !== "APPROVED" && !reason) {
+      return { ok: false, message: `${label} has an unknown or retired reason code ${request.reasonCode}.` };
+    }
+
+    let approvedAmount = requestedAmount;
+    if (request.outcome === "DENIED") {
+      approvedAmount = zeroMoney(requestedAmount.currency);
+    } else if (request.outcome === "ADJUSTED") {
+      const adjusted = request.approvedAmount;
+      if (!adjusted || adjusted.currency !== requestedAmount.currency) {
+        return { ok: false, message: `${label} needs an adjusted amount in ${requestedAmount.currency}.` };
+      }
+      if (adjusted.amountCents <= 0 || adjusted.amountCents >= requestedAmount.amountCents) {
+        return {
+          ok: false,
+          message: `${label} must be adjusted to more than 0 and less than ${formatMoney(requestedAmount)}; deny or approve it instead.`,
+        };
+      }
+      approvedAmount = adjusted;
+    }
+
+    decisions.push({
+      lineIndex,
+      description: lineItem.description,
+      requestedAmount,
+      outcome: request.outcome,
+      approvedAmount,
+      reasonCode: reason?.code,
+      reasonTitle: reason?.title,
+      note: request.note?.trim() || undefined,
+    });
+  }
+
+  const firstReasonCode = decisions.find((decision) => decision.reasonCode)?.reasonCode;
+  const outcome = decisions.every((decision) => decision.outcome === "APPROVED")
+    ? "APPROVED"
+    : decisions.every((decision) => decision.outcome === "DENIED")
+      ? "DENIED"
+      : "PARTIALLY_APPROVED";
+  return {
+    ok: true,
+    decisions,
+    approvedAmount: addMoney(
+      zeroMoney(input.lineItems[0].unitPrice.currency),
+      ...decisions.map((decision) => decision.approvedAmount),
+    ),
+    outcome,
+    denialReason: reasons.find((entry) => entry.code === firstReasonCode),
+  };
+}
+
+/** One line of the contractor email, e.g. "Paint (2 coats): adjusted from $800.00 to $600.00 (Pricing is not supported)". */
+export function describeLineItemDecision(decision: LineItemDecision): string {
+  const name = decision.description || `Line item ${decision.lineIndex + 1}`;
+  const reasonLabel = decision.reasonTitle ?? decision.reasonCode;
+  const reason = reasonLabel ? ` (${reasonLabel})` : "";
+  const note = decision.note ? ` - ${decision.note}` : "";
+  if (decision.outcome === "APPROVED") {
+    return `${name}: approved at ${formatMoney(decision.approvedAmount)}${note}`;
+  }
+  if (decision.outcome === "ADJUSTED") {
+    return `${name}: adjusted from ${formatMoney(decision.requestedAmount)} to ${formatMoney(decision.approvedAmount)}${reason}${note}`;
+  }
+  return `${name}: denied, ${formatMoney(decision.requestedAmount)} not approved${reason}${note}`;
+}
@@ -0,0 +1,202 @@
+import type { PoolClient } from "pg";
+
+import type { Repository, StoredDocument } from "./repository";
+
+export type SchemaMigration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+export type VersionedDocument = StoredDocument & { schemaVersion?: number };
+
+export type RecordMigration<T extends VersionedDocument> = {
+  version: number;
+  name: string;
+  up: (record: T) => T;
+};
+
+// Table DDL, applied in order against Postgres. Never edit a shipped entry; append a new version instead.
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 1,
+    name: "create_change_orders",
+    sql: `
+      create table if not exists change_orders (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+      create index if not exists change_orders_seq_idx on change_orders (seq);
+    `,
+  },
+  {
+    version: 2,
+    name: "create_users_and_sessions",
+    sql: `
+      create table if not exists users (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+      create unique index if not exists users_email_idx on users ((lower(data->>'email')));
+      create table if not exists sessions (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: "create_project_policies",
+    sql: `
+      create table if not exists project_policies (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: "create_projects",
+    sql: `
+      create table if not exists projects (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: "create_attachments",
+    sql: `
+      create table if not exists attachments (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: "create_email_outbox",
+    sql: `
+      create table if not exists email_outbox (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: "create_denial_reasons",
+    sql: `
+      create table if not exists denial_reasons (
+        seq bigserial,
+        id text primary key,
+        data jsonb not null,
+        schema_version integer not null default 0,
+        created_at timestamptz not null default now(),
+        updated_at timestamptz not null default now()
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: "index_email_outbox_lookups",
+    sql: `
+      create index if not exists email_outbox_due_idx
+        on email_outbox ((data->>'status'), ((data->>'nextAttemptAt') collate "C"));
+      create index if not exists email_outbox_provider_message_idx on email_outbox ((data->>'providerMessageId'));
+    `,
+  },
+];
+
+export async function runSchemaMigrations(client: PoolClient): Promise<number[]> {
+  await client.query(`
+    create table if not exists schema_migrations (
+      version integer primary key,
+      name text not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+
+  const applied: number[] = [];
+  await client.query("begin");
+  try {
+    // Serialize concurrent boots (e.g. two Railway replicas) on the same migration run.
+    await client.query("select pg_advisory_xact_lock(hashtext('schema_migrations'))");
+    const result = await client.query<{ version: number }>("select version from schema_migrations");
+    const done = new Set(result.rows.map((row) => row.version));
+
+    for (const migration of [...schemaMigrations].sort((a, b) => a.version - b.version)) {
+      if (done.has(migration.version)) {
+        continue;
+      }
+      await client.query(migration.sql);
+      await client.query("insert into schema_migrations (version, name) values ($1, $2)", [
+        migration.version,
+        migration.name,
+      ]);
+      applied.push(migration.version);
+    }
+    await client.query("commit");
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  }
+  return applied;
+}
+
+export function latestRecordVersion<T extends VersionedDocument>(migrations: RecordMigration<T>[]): number {
+  return migrations.reduce((max, migration) => Math.max(max, migration.version), 0);
+}
+
+export function migrateRecord<T extends VersionedDocument>(record: T, migrations: RecordMigration<T>[]): T {
+  let next = record;
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if ((next.schemaVersion ?? 0) >= migration.version) {
+      continue;
+    }
+    next = { ...migration.up(next), schemaVersion: migration.version };
+  }
+  return next;
+}
+
+// Rewrites every stored record that is behind the latest record version. Runs once per repository boot.
+export async function runRecordMigrations<T extends VersionedDocument>(
+  repository: Repository<T>,
+  migrations: RecordMigration<T>[],
+): Promise<number> {
+  const latest = latestRecordVersion(migrations);
+  const stale = (await repository.list()).filter((record) => (record.schemaVersion ?? 0) < latest);
+  for (const record of stale) {
+    await repository.update(record.id, (current) => migrateRecord(current, migrations));
+  }
+  return stale.length;
+}
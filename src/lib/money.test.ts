@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  addMoney,
+  divideMoney,
+  formatMoney,
+  money,
+  moneyFromLegacy,
+  moneySchema,
+  multiplyMoney,
+  subtractMoney,
+} from "./money";
+
+describe("moneySchema", () => {
+  it("parses decimal strings and numbers into exact cents", () => {
+    expect(moneySchema.parse("12.50")).toEqual(money(1250));
+    expect(moneySchema.parse(12.5)).toEqual(money(1250));
+    expect(moneySchema.parse("$1,234.5")).toEqual(money(123450));
+    expect(moneySchema.parse("0.1")).toEqual(money(10));
+    expect(moneySchema.parse("")).toEqual(money(0));
+    expect(moneySchema.parse("-3.05")).toEqual(money(-305));
+  });
+
+  it("accepts Money objects with a currency code", () => {
+    expect(moneySchema.parse({ amountCents: 999, currency: "EUR" })).toEqual(money(999, "EUR"));
+    expect(moneySchema.safeParse({ amountCents: 9.5, currency: "EUR" }).success).toBe(false);
+    expect(moneySchema.safeParse({ amountCents: 100, currency: "euro" }).success).toBe(false);
+  });
+
+  it("rejects sub-cent digits instead of rounding them", () => {
+    const result = moneySchema.safeParse("1.005");
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe("Amount must be a number with at most 2 decimal places");
+  });
+
+  it("rejects values that are not amounts", () => {
+    expect(moneySchema.safeParse("12abc").success).toBe(false);
+    expect(moneySchema.safeParse("1.2.3").success).toBe(false);
+    expect(moneySchema.safeParse(Number.NaN).success).toBe(false);
+    expect(moneySchema.safeParse(Number.POSITIVE_INFINITY).success).toBe(false);
+  });
+});
+
+describe("moneyFromLegacy", () => {
+  it("rounds stored floats half up to the cent", () => {
+    expect(moneyFromLegacy(1.005)).toEqual(money(101));
+    expect(moneyFromLegacy(0.1 + 0.2)).toEqual(money(30));
+    expect(moneyFromLegacy("19.994")).toEqual(money(1999));
+  });
+
+  it("treats missing values as zero and keeps Money as is", () => {
+    expect(moneyFromLegacy(undefined)).toEqual(money(0));
+    expect(moneyFromLegacy(null, "EUR")).toEqual(money(0, "EUR"));
+    expect(moneyFromLegacy(money(42, "CAD"))).toEqual(money(42, "CAD"));
+  });
+});
+
+describe("arithmetic", () => {
+  it("adds and subtracts in cents", () => {
+    expect(addMoney(money(10), money(20))).toEqual(money(30));
+    expect(addMoney()).toEqual(money(0));
+    expect(subtractMoney(money(100), money(250))).toEqual(money(-150));
+  });
+
+  it("refuses to combine currencies", () => {
+    expect(() => addMoney(money(1), money(1, "EUR"))).toThrow("different currencies");
+    expect(() => subtractMoney(money(1, "EUR"), money(1))).toThrow("different currencies");
+  });
+
+  it("multiplies by decimal quantities, rounding half away from zero", () => {
+    expect(multiplyMoney(money(333), 3)).toEqual(money(999));
+    expect(multiplyMoney(money(1999), 2.75)).toEqual(money(5497));
+    expect(multiplyMoney(money(1), 0.5)).toEqual(money(1));
+    expect(multiplyMoney(money(-1), 0.5)).toEqual(money(-1));
+    expect(multiplyMoney(money(20), 0.5)).toEqual(money(10));
+  });
+
+  it("divides a total into a unit price", () => {
+    expect(divideMoney(money(1000), 3)).toEqual(money(333));
+    expect(divideMoney(money(1000), 0.5)).toEqual(money(2000));
+    expect(divideMoney(money(1000), 0)).toEqual(money(0));
+    expect(divideMoney(money(1000, "EUR"), -1)).toEqual(money(0, "EUR"));
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats dollars with a sign and other currencies with their code", () => {
+    expect(formatMoney(money(123456))).toBe("$1234.56");
+    expect(formatMoney(money(700, "EUR"))).toBe("7.00 EUR");
+  });
+});
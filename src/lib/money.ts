@@ -0,0 +1,164 @@
+import { z } from "zod";
+
+export const DEFAULT_CURRENCY = "USD";
+
+/** An exact amount in the currency's minor unit (cents); never a float of dollars. */
+export type Money = {
+  amountCents: number;
+  currency: string;
+};
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Reads a decimal string digit by digit so "0.1" + "0.2" never passes through binary floating point.
+ * Returns null for malformed input, or when `round` is false and there are sub-cent digits.
+ */
+function parseDecimalCents(text: string, round: boolean): number | null {
+  const match = DECIMAL_PATTERN.exec(text.trim().replace(/^\$/, "").replace(/,/g, ""));
+  if (!match) {
+    return null;
+  }
+  const [, sign, whole, fraction = ""] = match;
+  if (fraction.length > 2 && !round) {
+    return null;
+  }
+
+  let cents = Number(whole) * 100 + Number(fraction.slice(0, 2).padEnd(2, "0"));
+  // Half-up on the first dropped digit; only used for legacy values that were stored as floats.
+  if (fraction.length > 2 && Number(fraction[2]) >= 5) {
+    cents += 1;
+  }
+  if (!Number.isSafeInteger(cents)) {
+    return null;
+  }
+  return sign && cents !== 0 ? -cents : cents;
+}
+
+export function money(amountCents: number, currency = DEFAULT_CURRENCY): Money {
+  return { amountCents, currency };
+}
+
+export function zeroMoney(currency = DEFAULT_CURRENCY): Money {
+  return money(0, currency);
+}
+
+/** Converts a record field written before amounts were stored as cents. */
+export function moneyFromLegacy(value: Money | number | string | null | undefined, currency = DEFAULT_CURRENCY): Money {
+  if (value && typeof value === "object") {
+    return value;
+  }
+  if (value === null || value === undefined || value === "") {
+    return zeroMoney(currency);
+  }
+  // String(number) gives the shortest decimal that round-trips, e.g. 1.005 rather than 1.00499999...
+  return money(parseDecimalCents(String(value), true) ?? 0, currency);
+}
+
+type MoneyPayload = number | string | { amountCents: number; currency: string };
+
+// Returns the parsed amount, or the validation message when the payload is not an exact amount.
+function readMoney(value: MoneyPayload): Money | string {
+  if (typeof value === "object") {
+    return Number.isSafeInteger(value.amountCents) && /^[A-Z]{3}$/.test(value.currency)
+      ? money(value.amountCents, value.currency)
+      : "Amount must be whole cents with a currency code";
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return "Amount must be a number";
+  }
+
+  const text = String(value);
+  const cents = text.trim() === "" ? 0 : parseDecimalCents(text, false);
+  return cents === null ? "Amount must be a number with at most 2 decimal places" : money(cents);
+}
+
+/**
+ * Accepts a decimal number or string in major units ("12.50", 12.5) or a Money object, and parses into
+ * Money. More than two decimal places is an error rather than a silent rounding.
+ */
+export const moneySchema = z
+  .union([z.number(), z.string(), z.object({ amountCents: z.number(), currency: z.string() })])
+  .superRefine((value, context) => {
+    const result = readMoney(value);
+    if (typeof result === "string") {
+      // Fatal so later refinements never see an amount that failed to parse.
+      context.addIssue({ code: z.ZodIssueCode.custom, message: result, fatal: true });
+    }
+  })
+  .transform((value) => readMoney(value) as Money);
+
+export function nonNegativeMoneySchema(message: string) {
+  return moneySchema.refine((value) => value.amountCents >= 0, message);
+}
+
+function assertSameCurrency(values: Money[]): string {
+  const currency = values[0]?.currency ?? DEFAULT_CURRENCY;
+  if (values.some((value) => value.currency !== currency)) {
+    throw new Error(
+      `Cannot combine amounts in different currencies (${values.map((value) => value.currency).join(", ")})`,
+    );
+  }
+  return currency;
+}
+
+export function addMoney(...values: Money[]): Money {
+  const currency = assertSameCurrency(values);
+  return money(
+    values.reduce((sum, value) => sum + value.amountCents, 0),
+    currency,
+  );
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  const currency = assertSameCurrency([a, b]);
+  return money(a.amountCents - b.amountCents, currency);
+}
+
+/** Splits a decimal quantity into an integer and a power-of-ten scale, e.g. 2.75 -> [275n, 100n]. */
+function scaleQuantity(quantity: number): [bigint, bigint] {
+  // Very small or large numbers stringify in exponent form; fixed notation is close enough for quantities.
+  const match = DECIMAL_PATTERN.exec(String(quantity)) ?? DECIMAL_PATTERN.exec(quantity.toFixed(6));
+  if (!match) {
+    throw new Error(`Quantity ${quantity} is not a plain decimal`);
+  }
+  const [, sign, whole, fraction = ""] = match;
+  const scaled = BigInt(`${sign ?? ""}${whole}${fraction}`);
+  return [scaled, 10n ** BigInt(fraction.length)];
+}
+
+// Rounds numerator / denominator half away from zero, in integers.
+function divideRounded(numerator: bigint, denominator: bigint): number {
+  const negative = numerator < 0n !== denominator < 0n;
+  const absNumerator = numerator < 0n ? -numerator : numerator;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  const quotient = (absNumerator * 2n + absDenominator) / (absDenominator * 2n);
+  return Number(negative ? -quotient : quotient);
+}
+
+/** Extended price of `quantity` units at `unitPrice`, rounded to the cent. */
+export function multiplyMoney(unitPrice: Money, quantity: number): Money {
+  const [scaled, scale] = scaleQuantity(quantity);
+  return money(divideRounded(BigInt(unitPrice.amountCents) * scaled, scale), unitPrice.currency);
+}
+
+/** Price per unit when `total` covers `quantity` units, rounded to the cent; zero when quantity is not positive. */
+export function divideMoney(total: Money, quantity: number): Money {
+  if (!(quantity > 0)) {
+    return zeroMoney(total.currency);
+  }
+  const [scaled, scale] = scaleQuantity(quantity);
+  return money(divideRounded(BigInt(total.amountCents) * scale, scaled), total.currency);
+}
+
+/** Major-unit string with exactly two decimals, e.g. 123456 -> "1234.56". */
+export function formatAmount(value: Money): string {
+  const abs = Math.abs(value.amountCents);
+  const text = `${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+  return value.amountCents < 0 ? `-${text}` : text;
+}
+
+/** "$1234.56" for US dollars, "1234.56 EUR" otherwise. */
+export function formatMoney(value: Money): string {
+  return value.currency === "USD" ? `$${formatAmount(value)}` : `${formatAmount(value)} ${value.currency}`;
+}
@@ -0,0 +1,163 @@
+import { listAttachments, type StoredAttachment } from "./attachment-store";
+import type { ChangeOrderInput } from "./change-order-schema";
+import { listChangeOrders } from "./change-order-store";
+import { hashDistance } from "./photo-metadata";
+import type { StoredProject } from "./project-store";
+
+// Capture clocks are local time without a zone and work often spans a day, so allow a full day either way.
+const CAPTURE_TIME_TOLERANCE_HOURS = 24;
+const LOCATION_TOLERANCE_METERS = 1000;
+// Out of 64 bits; re-encoded or resized copies of the same photo typically differ by a few bits.
+const DUPLICATE_HASH_DISTANCE = 6;
+
+export type PhotoEvidenceFlagCode =
+  | "PHOTO_NOT_FOUND"
+  | "NO_CAPTURE_TIME"
+  | "CAPTURE_TIME_MISMATCH"
+  | "NO_LOCATION"
+  | "LOCATION_MISMATCH"
+  | "DUPLICATE_PHOTO";
+
+export type PhotoEvidenceFlag = {
+  code: PhotoEvidenceFlagCode;
+  message: string;
+};
+
+export type PhotoDuplicate = {
+  changeOrderId: string;
+  attachmentId: string;
+};
+
+/** Per-photo findings recorded on the change order when it is submitted or resubmitted. */
+export type PhotoEvidence = {
+  attachmentId: string;
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+  device?: string;
+  distanceMeters?: number;
+  duplicates: PhotoDuplicate[];
+  flags: PhotoEvidenceFlag[];
+};
+
+function distanceInMeters(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }) {
+  const earthRadius = 6371000;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.sqrt(a));
+}
+
+function describeDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+/**
+ * Compares each photo's EXIF data with the work date and project location, and its perceptual hash
+ * with photos on other submitted change orders. Flags are advisory: they inform the reviewer and never
+ * block submission.
+ */
+export async function evaluatePhotoEvidence(
+  input: ChangeOrderInput,
+  project: StoredProject | null,
+  changeOrderId?: string,
+): Promise<PhotoEvidence[]> {
+  const attachments = new Map((await listAttachments()).map((attachment) => [attachment.id, attachment]));
+
+  // Photos on other non-draft change orders, so a reused photo is caught whoever uploaded it.
+  const otherPhotos: { changeOrderId: string; attachment: StoredAttachment }[] = [];
+  for (const record of await listChangeOrders()) {
+    if (record.id === changeOrderId || record.status === "DRAFT") {
+      continue;
+    }
+    for (const photo of record.input.photos) {
+      const attachment = attachments.get(photo);
+      if (attachment?.metadata?.perceptualHash) {
+        otherPhotos.push({ changeOrderId: record.id, attachment });
+      }
+    }
+  }
+
+  const workPerformedAt = new Date(input.workPerformedAt).getTime();
+  const projectLocation =
+    project?.latitude !== undefined && project?.longitude !== undefined
+      ? { latitude: project.latitude, longitude: project.longitude }
+      : null;
+
+  return input.photos.map((photoId, index) => {
+    const label = `Photo ${index + 1}`;
+    const attachment = attachments.get(photoId);
+    if (!attachment) {
+      return {
+        attachmentId: photoId,
+        duplicates: [],
+        flags: [{ code: "PHOTO_NOT_FOUND", message: `${label} could not be found.` }],
+      };
+    }
+
+    const metadata = attachment.metadata ?? {};
+    const flags: PhotoEvidenceFlag[] = [];
+    const evidence: PhotoEvidence = {
+      attachmentId: photoId,
+      capturedAt: metadata.capturedAt,
+      latitude: metadata.latitude,
+      longitude: metadata.longitude,
+      device: [metadata.deviceMake, metadata.deviceModel].filter(Boolean).join(" ") || undefined,
+      duplicates: [],
+      flags,
+    };
+
+    if (!metadata.capturedAt) {
+      flags.push({ code: "NO_CAPTURE_TIME", message: `${label} has no capture time.` });
+    } else if (!Number.isNaN(workPerformedAt)) {
+      const offsetHours = Math.abs(new Date(metadata.capturedAt).getTime() - workPerformedAt) / (60 * 60 * 1000);
+      if (offsetHours > CAPTURE_TIME_TOLERANCE_HOURS) {
+        flags.push({
+          code: "CAPTURE_TIME_MISMATCH",
+          message: `${label} was taken ${Math.round(offsetHours)} hours from the reported work time.`,
+        });
+      }
+    }
+
+    if (metadata.latitude === undefined || metadata.longitude === undefined) {
+      flags.push({ code: "NO_LOCATION", message: `${label} has no location data.` });
+    } else if (projectLocation) {
+      evidence.distanceMeters = Math.round(
+        distanceInMeters(projectLocation, { latitude: metadata.latitude, longitude: metadata.longitude }),
+      );
+      if (evidence.distanceMeters > LOCATION_TOLERANCE_METERS) {
+        flags.push({
+          code: "LOCATION_MISMATCH",
+          message: `${label} was taken ${describeDistance(evidence.distanceMeters)} from the project address.`,
+        });
+      }
+    }
+
+    const hash = metadata.perceptualHash;
+    if (hash) {
+      evidence.duplicates = otherPhotos
+        .filter(
+          (other) => hashDistance(hash, other.attachment.metadata?.perceptualHash ?? "") <= DUPLICATE_HASH_DISTANCE,
+        )
+        .map((other) => ({ changeOrderId: other.changeOrderId, attachmentId: other.attachment.id }));
+      const repeatedHere = input.photos.slice(0, index).some((earlier) => {
+        const earlierHash = attachments.get(earlier)?.metadata?.perceptualHash;
+        return !!earlierHash && hashDistance(hash, earlierHash) <= DUPLICATE_HASH_DISTANCE;
+      });
+      if (evidence.duplicates.length > 0) {
+        // Contractors may see these messages, so name the other change orders only in `duplicates`.
+        flags.push({
+          code: "DUPLICATE_PHOTO",
+          message: `${label} matches a photo already submitted on another change order.`,
+        });
+      } else if (repeatedHere) {
+        flags.push({ code: "DUPLICATE_PHOTO", message: `${label} repeats another photo in this submission.` });
+      }
+    }
+
+    return evidence;
+  });
+}
@@ -0,0 +1,72 @@
+import exifr from "exifr";
+import sharp from "sharp";
+
+export type PhotoMetadata = {
+  /** EXIF DateTimeOriginal. Cameras record local time without a zone, so treat it as approximate. */
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+  deviceMake?: string;
+  deviceModel?: string;
+  /** 64-bit difference hash (hex) used to spot the same photo across submissions. */
+  perceptualHash?: string;
+};
+
+type ExifFields = {
+  DateTimeOriginal?: Date;
+  CreateDate?: Date;
+  Make?: string;
+  Model?: string;
+  latitude?: number;
+  longitude?: number;
+};
+
+async function readExif(bytes: Buffer): Promise<ExifFields | null> {
+  try {
+    return ((await exifr.parse(bytes, { gps: true })) as ExifFields | undefined) ?? null;
+  } catch {
+    // Missing or corrupt EXIF is common (screenshots, stripped uploads); it just yields no metadata.
+    return null;
+  }
+}
+
+/** dHash: compare each pixel of a 9x8 grayscale thumbnail with its right neighbour. */
+export async function computePerceptualHash(bytes: Buffer): Promise<string> {
+  const pixels = await sharp(bytes).rotate().grayscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+  let hash = 0n;
+  for (let y = 0; y < 8; y += 1) {
+    for (let x = 0; x < 8; x += 1) {
+      hash = (hash << 1n) | (pixels[y * 9 + x] < pixels[y * 9 + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+export function hashDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+  while (diff > 0n) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return bits;
+}
+
+function isValidDate(value: Date | undefined): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+export async function extractPhotoMetadata(bytes: Buffer): Promise<PhotoMetadata> {
+  const exif = await readExif(bytes);
+  const capturedAt = [exif?.DateTimeOriginal, exif?.CreateDate].find(isValidDate);
+  const hasGps = Number.isFinite(exif?.latitude) && Number.isFinite(exif?.longitude);
+
+  return {
+    capturedAt: capturedAt?.toISOString(),
+    latitude: hasGps ? exif?.latitude : undefined,
+    longitude: hasGps ? exif?.longitude : undefined,
+    deviceMake: exif?.Make?.trim() || undefined,
+    deviceModel: exif?.Model?.trim() || undefined,
+    perceptualHash: await computePerceptualHash(bytes),
+  };
+}
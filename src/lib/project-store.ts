@@ -0,0 +1,141 @@
+import { z } from "zod";
+
+import { isStaff, listUsers, type SessionUser } from "./auth";
+import type { RecordMigration } from "./migrations";
+import { money, moneyFromLegacy, nonNegativeMoneySchema } from "./money";
+import { defineRepository, getRepositoryBackend } from "./repository";
+
+// How new submissions get a reviewer: left for someone to claim, taken in turn, or given to the reviewer
+// with the fewest open items. Only the project's `reviewerIds` are assigned automatically.
+export const ASSIGNMENT_MODES = ["MANUAL", "ROUND_ROBIN", "LEAST_LOADED"] as const;
+export type AssignmentMode = (typeof ASSIGNMENT_MODES)[number];
+
+export const projectSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, "Project id is required")
+    .regex(/^[A-Za-z0-9._-]+$/, "Project id may only contain letters, numbers, dots, dashes and underscores"),
+  name: z.string().trim().min(1, "Project name is required"),
+  address: z.string().trim().default(""),
+  // Coordinates of the address; photo GPS is compared against them.
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  contractValue: nonNegativeMoneySchema("Contract value must be 0 or greater"),
+  // Work already covered by the turn-key price; reviewers compare change orders against it.
+  turnKeyScope: z.array(z.string().trim().min(1)).default([]),
+  reviewerIds: z.array(z.string().min(1)).default([]),
+  assignmentMode: z.enum(ASSIGNMENT_MODES).default("MANUAL"),
+  contractorIds: z.array(z.string().min(1)).default([]),
+});
+
+export const projectUpdateSchema = projectSchema.omit({ id: true }).partial();
+
+export type ProjectInput = z.infer<typeof projectSchema>;
+export type ProjectUpdate = z.infer<typeof projectUpdateSchema>;
+
+export type StoredProject = ProjectInput & {
+  schemaVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string;
+};
+
+const projectMigrations: RecordMigration<StoredProject>[] = [
+  {
+    version: 1,
+    name: "contract_value_to_cents",
+    up: (project) => ({ ...project, contractValue: moneyFromLegacy(project.contractValue) }),
+  },
+  {
+    version: 2,
+    name: "default_assignment_mode",
+    up: (project) => ({ ...project, assignmentMode: project.assignmentMode ?? "MANUAL" }),
+  },
+];
+
+const projects = defineRepository<StoredProject>({ table: "projects", migrations: projectMigrations });
+
+let demoSeeded: Promise<void> | undefined;
+
+// Mirrors the demo accounts: local in-memory runs get one project with every demo user on it.
+async function ensureDemoProject(): Promise<void> {
+  if (getRepositoryBackend() !== "memory" || process.env.NODE_ENV === "production") {
+    return;
+  }
+  demoSeeded ??= (async () => {
+    const repository = await projects();
+    if ((await repository.list()).length > 0) {
+      return;
+    }
+    const users = await listUsers();
+    const now = new Date().toISOString();
+    await repository.insert({
+      id: "POC-DEMO-001",
+      name: "Demo renovation",
+      address: "",
+      contractValue: money(5_000_000),
+      turnKeyScope: ["Demolition and haul-away", "Drywall and paint", "Standard tile and fixtures"],
+      reviewerIds: users.filter((user) => isStaff(user)).map((user) => user.id),
+      assignmentMode: "MANUAL",
+      contractorIds: users.filter((user) => user.roles.includes("CONTRACTOR")).map((user) => user.id),
+      createdAt: now,
+      updatedAt: now,
+    });
+  })().catch((error: unknown) => {
+    demoSeeded = undefined;
+    throw error;
+  });
+  return demoSeeded;
+}
+
+export async function listProjects(): Promise<StoredProject[]> {
+  await ensureDemoProject();
+  const repository = await projects();
+  return repository.list();
+}
+
+export async function getProjectById(id: string): Promise<StoredProject | null> {
+  await ensureDemoProject();
+  const repository = await projects();
+  return repository.get(id);
+}
+
+/** Staff see every project; contractors only the ones whose roster includes them. */
+export function canAccessProject(user: SessionUser, project: StoredProject): boolean {
+  return isStaff(user) || project.contractorIds.includes(user.id);
+}
+
+export async function listProjectsForUser(user: SessionUser): Promise<StoredProject[]> {
+  return (await listProjects()).filter((project) => canAccessProject(user, project));
+}
+
+/** Returns null when a project with the same id already exists. */
+export async function createProject(input: ProjectInput, updatedBy: string): Promise<StoredProject | null> {
+  if (await getProjectById(input.id)) {
+    return null;
+  }
+  const now = new Date().toISOString();
+  const repository = await projects();
+  return repository.insert({ ...input, createdAt: now, updatedAt: now, updatedBy });
+}
+
+export async function updateProject(
+  id: string,
+  updates: ProjectUpdate,
+  updatedBy: string,
+): Promise<StoredProject | null> {
+  await ensureDemoProject();
+  const repository = await projects();
+  return repository.update(id, (current) => ({
+    ...current,
+    ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  }));
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  const repository = await projects();
+  return repository.delete(id);
+}
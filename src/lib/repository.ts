@@ -0,0 +1,235 @@
+import { Pool } from "pg";
+
+import {
+  latestRecordVersion,
+  runRecordMigrations,
+  runSchemaMigrations,
+  type RecordMigration,
+  type VersionedDocument,
+} from "./migrations";
+
+export type StoredDocument = { id: string };
+
+/**
+ * Compares a top-level string field of the stored document. `atMost` compares as plain text, which puts ISO
+ * timestamps in time order.
+ */
+export type FieldCondition<T> = { field: keyof T & string } & ({ equals: string } | { atMost: string });
+
+export interface Repository<T extends StoredDocument> {
+  /** All records, oldest first. */
+  list(): Promise<T[]>;
+  /** Records matching every condition, oldest first; Postgres can answer it from an index on the fields. */
+  find(conditions: FieldCondition<T>[]): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  /**
+   * Read-modify-write a single record atomically. Returning the same object from `mutate`
+   * skips the write, which lets callers bail out (e.g. finalized records) without a round trip.
+   */
+  update(id: string, mutate: (current: T) => T): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type RepositoryBackend = "memory" | "postgres";
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __changeOrderPocCollections: Record<string, StoredDocument[]> | undefined;
+  // eslint-disable-next-line no-var
+  var __changeOrderPgPool: Pool | undefined;
+  // eslint-disable-next-line no-var
+  var __changeOrderPgSchemaReady: Promise<number[]> | undefined;
+}
+
+export function getRepositoryBackend(): RepositoryBackend {
+  return (process.env.DATABASE_URL || "").trim() ? "postgres" : "memory";
+}
+
+function matches<T>(record: T, condition: FieldCondition<T>): boolean {
+  const value = record[condition.field];
+  if (typeof value !== "string") {
+    return false;
+  }
+  return "equals" in condition ? value === condition.equals : value <= condition.atMost;
+}
+
+/**
+ * In-memory adapter. Used for local development without DATABASE_URL and as the test adapter.
+ * Records live on globalThis so they survive Next.js hot reloads, but not a server restart.
+ */
+export function createMemoryRepository<T extends StoredDocument>(collection: string, seed?: T[]): Repository<T> {
+  const collections = (globalThis.__changeOrderPocCollections ??= {});
+  const store = (collections[collection] ??= seed ?? []) as T[];
+
+  return {
+    async list() {
+      return [...store];
+    },
+    async find(conditions) {
+      return store.filter((item) => conditions.every((condition) => matches(item, condition)));
+    },
+    async get(id) {
+      return store.find((item) => item.id === id) ?? null;
+    },
+    async insert(record) {
+      store.push(record);
+      return record;
+    },
+    async update(id, mutate) {
+      const index = store.findIndex((item) => item.id === id);
+      if (index === -1) {
+        return null;
+      }
+      const current = store[index];
+      const next = mutate(current);
+      if (next !== current) {
+        store[index] = next;
+      }
+      return next;
+    },
+    async delete(id) {
+      const index = store.findIndex((item) => item.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.splice(index, 1);
+      return true;
+    },
+  };
+}
+
+function getPool(): Pool {
+  if (!globalThis.__changeOrderPgPool) {
+    globalThis.__changeOrderPgPool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      max: Number(process.env.DATABASE_POOL_MAX || 5),
+    });
+  }
+  return globalThis.__changeOrderPgPool;
+}
+
+async function ensureSchema(): Promise<number[]> {
+  if (!globalThis.__changeOrderPgSchemaReady) {
+    globalThis.__changeOrderPgSchemaReady = (async () => {
+      const client = await getPool().connect();
+      try {
+        return await runSchemaMigrations(client);
+      } finally {
+        client.release();
+      }
+    })().catch((error: unknown) => {
+      // Let the next request retry instead of caching a failed boot forever.
+      globalThis.__changeOrderPgSchemaReady = undefined;
+      throw error;
+    });
+  }
+  return globalThis.__changeOrderPgSchemaReady;
+}
+
+/**
+ * Postgres adapter. Each collection is a table of JSONB documents keyed by id; the table itself is
+ * created by a schema migration in `migrations.ts`.
+ */
+export function createPostgresRepository<T extends VersionedDocument>(table: string): Repository<T> {
+  if (!/^[a-z_]+$/.test(table)) {
+    throw new Error(`Invalid table name: ${table}`);
+  }
+
+  return {
+    async list() {
+      const result = await getPool().query<{ data: T }>(`select data from ${table} order by seq asc`);
+      return result.rows.map((row) => row.data);
+    },
+    async find(conditions) {
+      // Field names are inlined so the query matches expression indexes such as `(data->>'status')`.
+      const clauses = conditions.map((condition, index) => {
+        if (!/^[A-Za-z_]+$/.test(condition.field)) {
+          throw new Error(`Invalid field name: ${condition.field}`);
+        }
+        return "equals" in condition
+          ? `data->>'${condition.field}' = $${index + 1}`
+          : `(data->>'${condition.field}') collate "C" <= $${index + 1}`;
+      });
+      const result = await getPool().query<{ data: T }>(
+        `select data from ${table}${clauses.length > 0 ? ` where ${clauses.join(" and ")}` : ""} order by seq asc`,
+        conditions.map((condition) => ("equals" in condition ? condition.equals : condition.atMost)),
+      );
+      return result.rows.map((row) => row.data);
+    },
+    async get(id) {
+      const result = await getPool().query<{ data: T }>(`select data from ${table} where id = $1`, [id]);
+      return result.rows[0]?.data ?? null;
+    },
+    async insert(record) {
+      await getPool().query(`insert into ${table} (id, data, schema_version) values ($1, $2, $3)`, [
+        record.id,
+        JSON.stringify(record),
+        record.schemaVersion ?? 0,
+      ]);
+      return record;
+    },
+    async update(id, mutate) {
+      const client = await getPool().connect();
+      try {
+        await client.query("begin");
+        const result = await client.query<{ data: T }>(`select data from ${table} where id = $1 for update`, [id]);
+        const current = result.rows[0]?.data;
+        if (!current) {
+          await client.query("rollback");
+          return null;
+        }
+        const next = mutate(current);
+        if (next !== current) {
+          await client.query(`update ${table} set data = $2, schema_version = $3, updated_at = now() where id = $1`, [
+            id,
+            JSON.stringify(next),
+            next.schemaVersion ?? 0,
+          ]);
+        }
+        await client.query("commit");
+        return next;
+      } catch (error) {
+        await client.query("rollback");
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+    async delete(id) {
+      const result = await getPool().query(`delete from ${table} where id = $1`, [id]);
+      return (result.rowCount ?? 0) > 0;
+    },
+  };
+}
+
+/**
+ * Returns a lazy accessor for a collection's repository. The first call picks the backend, applies
+ * pending schema migrations (Postgres only) and then upgrades stale records to the latest version.
+ */
+export function defineRepository<T extends VersionedDocument>(options: {
+  table: string;
+  migrations: RecordMigration<T>[];
+  memorySeed?: () => T[];
+}): () => Promise<Repository<T>> {
+  let ready: Promise<Repository<T>> | undefined;
+
+  return () => {
+    if (!ready) {
+      ready = (async () => {
+        const repository =
+          getRepositoryBackend() === "postgres"
+            ? (await ensureSchema(), createPostgresRepository<T>(options.table))
+            : createMemoryRepository<T>(options.table, options.memorySeed?.());
+        if (latestRecordVersion(options.migrations) > 0) {
+          await runRecordMigrations(repository, options.migrations);
+        }
+        return repository;
+      })().catch((error: unknown) => {
+        ready = undefined;
+        throw error;
+      });
+    }
+    return ready;
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeDraftInput } from "./change-order-schema";
+import { applyTeamDecision, saveSubmission, updateTeamQueueItem } from "./change-order-store";
+import { money } from "./money";
+import { isReviewOverdue, trackReviewSla } from "./review-sla";
+
+const LATER = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+async function submitChangeOrder() {
+  const record = await saveSubmission(
+    normalizeDraftInput({
+      projectId: "P1",
+      contractorName: "Pat Contractor",
+      contractorEmail: "pat@example.com",
+      workPerformedAt: new Date().toISOString(),
+      scope: "Patch drywall",
+      quantity: 1,
+      laborCost: money(12000),
+      whyNeeded: "Water damage",
+    }),
+  );
+  if (!record) {
+    throw new Error("Submission was not saved");
+  }
+  return record;
+}
+
+describe("review SLA", () => {
+  it("starts the NEW clock on submission", async () => {
+    const record = await submitChangeOrder();
+
+    expect(record.sla).toMatchObject({ status: "NEW", startedAt: record.updatedAt });
+    expect(isReviewOverdue(record, new Date())).toBe(false);
+    expect(isReviewOverdue(record, LATER)).toBe(true);
+  });
+
+  it("restarts the clock when triage moves the item to IN_REVIEW", async () => {
+    const record = await submitChangeOrder();
+    const updated = await updateTeamQueueItem(record.id, { teamStatus: "IN_REVIEW" });
+
+    expect(updated?.sla?.status).toBe("IN_REVIEW");
+    expect(isReviewOverdue(updated!, LATER)).toBe(true);
+  });
+
+  it("keeps an undecided item overdue whatever its queue label says", async () => {
+    const record = await submitChangeOrder();
+    const relabelled = trackReviewSla({ ...record, teamStatus: "DENIED", updatedAt: new Date().toISOString() });
+
+    expect(relabelled.sla?.dueAt).toBeDefined();
+    expect(isReviewOverdue(relabelled, LATER)).toBe(true);
+  });
+
+  it("stops the clock once a decision is recorded", async () => {
+    const record = await submitChangeOrder();
+    const result = await applyTeamDecision(record.id, {
+      action: "NEEDS_INFO",
+      decidedBy: "reviewer@example.com",
+      deciderRoles: ["REVIEWER"],
+      decisionExplanation: "Need photos",
+      needsInfoChecklist: ["Photos of the damage"],
+    });
+
+    expect(result?.changeOrder.sla?.status).toBeUndefined();
+    expect(isReviewOverdue(result!.changeOrder, LATER)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import type { StoredChangeOrder, TeamQueueStatus } from "./change-order-store";
+import { addPolicyHours, DEFAULT_SUBMISSION_POLICY_RULES, type SubmissionPolicyRules } from "./submission-policy";
+
+/** Team statuses with a review clock; the clock stops while the contractor owes information or once decided. */
+export const SLA_STATUSES = ["NEW", "IN_REVIEW"] as const satisfies readonly TeamQueueStatus[];
+export type SlaStatus = (typeof SLA_STATUSES)[number];
+
+export type ReviewSlaRules = Pick<SubmissionPolicyRules, "reviewSlaHours" | "reviewSlaCalendar" | "holidays">;
+
+/**
+ * Review clock of a submitted change order. `rules` are copied from the project policy at submission, like the
+ * lateness check, so editing a policy only changes the targets of later submissions.
+ */
+export type ReviewSla = {
+  rules: ReviewSlaRules;
+  /** The status being timed; unset while no clock runs. */
+  status?: SlaStatus;
+  startedAt?: string;
+  dueAt?: string;
+  /** When the escalation job emailed about this clock's breach. */
+  escalatedAt?: string;
+};
+
+export function toReviewSlaRules(policy: SubmissionPolicyRules = DEFAULT_SUBMISSION_POLICY_RULES): ReviewSlaRules {
+  return {
+    reviewSlaHours: policy.reviewSlaHours,
+    reviewSlaCalendar: policy.reviewSlaCalendar,
+    holidays: policy.holidays,
+  };
+}
+
+// The clock runs while a submission awaits a decision; `teamStatus` only picks the target, so editing the queue
+// label cannot stop it. Anything past NEW counts as being in review.
+function clockStatus(record: StoredChangeOrder): SlaStatus | undefined {
+  if (record.status !== "SUBMITTED" || record.isFinalized || record.decisionStatus !== "PENDING") {
+    return undefined;
+  }
+  return record.teamStatus === "NEW" ? "NEW" : "IN_REVIEW";
+}
+
+/**
+ * Starts, restarts or stops the review clock to match the record's team status. Called on every write, so a
+ * clock only restarts when the status changes; `startedAt` defaults to the write's `updatedAt`.
+ */
+export function trackReviewSla(record: StoredChangeOrder, startedAt: string = record.updatedAt): StoredChangeOrder {
+  const sla = record.sla;
+  const status = clockStatus(record);
+  if (!sla || status === sla.status) {
+    return record;
+  }
+  if (!status) {
+    return { ...record, sla: { rules: sla.rules } };
+  }
+  const dueAt = addPolicyHours(
+    new Date(startedAt).getTime(),
+    sla.rules.reviewSlaHours[status],
+    sla.rules.reviewSlaCalendar,
+    sla.rules.holidays,
+  );
+  return { ...record, sla: { rules: sla.rules, status, startedAt, dueAt: dueAt.toISOString() } };
+}
+
+export function isReviewOverdue(record: StoredChangeOrder, now: Date = new Date()): boolean {
+  return !!record.sla?.dueAt && clockStatus(record) !== undefined && new Date(record.sla.dueAt) <= now;
+}
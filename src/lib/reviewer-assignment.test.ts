@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import type { SessionUser, UserRole } from "./auth";
+import { normalizeDraftInput } from "./change-order-schema";
+import { type Assignment, type StoredChangeOrder, SYSTEM_ACTOR } from "./change-order-store";
+import { projectSchema, type StoredProject } from "./project-store";
+import { canChangeAssignment, pickAutoAssignee } from "./reviewer-assignment";
+
+function user(id: string, role: UserRole): SessionUser {
+  return { id, email: `${id}@example.com`, name: id, roles: [role], createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+const contractor = user("contractor", "CONTRACTOR");
+const reviewer = user("reviewer", "REVIEWER");
+const otherReviewer = user("other", "REVIEWER");
+const approver = user("approver", "APPROVER");
+
+function assignment(userId: string, assignedAt = "2026-01-01T00:00:00.000Z", assignedBy = "someone"): Assignment {
+  return { userId, name: userId, assignedAt, assignedBy };
+}
+
+function changeOrder(overrides: Partial<StoredChangeOrder> = {}): StoredChangeOrder {
+  return {
+    id: `co_${Math.random().toString(36).slice(2)}`,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    status: "SUBMITTED",
+    input: normalizeDraftInput({ projectId: "P1" }),
+    isLate: false,
+    photoEvidence: [],
+    duplicateMatches: [],
+    teamStatus: "NEW",
+    reviewerNotes: "",
+    decisionStatus: "PENDING",
+    needsInfoChecklist: [],
+    revisions: [],
+    history: [],
+    isFinalized: false,
+    decisionEmailStatus: "PENDING",
+    ...overrides,
+  };
+}
+
+function project(assignmentMode: StoredProject["assignmentMode"], reviewerIds: string[]): StoredProject {
+  return {
+    ...projectSchema.parse({ id: "P1", name: "Lobby", contractValue: "1000", reviewerIds, assignmentMode }),
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("canChangeAssignment", () => {
+  it("lets reviewers claim unassigned work and release their own", () => {
+    expect(canChangeAssignment(reviewer, changeOrder(), "CLAIM")).toBe(true);
+    expect(canChangeAssignment(reviewer, changeOrder({ assignee: assignment("reviewer") }), "CLAIM")).toBe(true);
+    expect(canChangeAssignment(reviewer, changeOrder({ assignee: assignment("reviewer") }), "RELEASE")).toBe(true);
+  });
+
+  it("stops reviewers taking or moving someone else's item", () => {
+    const record = changeOrder({ assignee: assignment("other") });
+    expect(canChangeAssignment(reviewer, record, "CLAIM")).toBe(false);
+    expect(canChangeAssignment(reviewer, record, "RELEASE")).toBe(false);
+    expect(canChangeAssignment(reviewer, record, "REASSIGN")).toBe(false);
+    expect(canChangeAssignment(reviewer, changeOrder(), "REASSIGN")).toBe(false);
+  });
+
+  it("lets approvers move anyone's work", () => {
+    const record = changeOrder({ assignee: assignment("other") });
+    expect(canChangeAssignment(approver, record, "CLAIM")).toBe(true);
+    expect(canChangeAssignment(approver, record, "RELEASE")).toBe(true);
+    expect(canChangeAssignment(approver, record, "REASSIGN")).toBe(true);
+  });
+
+  it("never lets contractors change assignments", () => {
+    expect(canChangeAssignment(contractor, changeOrder(), "CLAIM")).toBe(false);
+  });
+});
+
+describe("pickAutoAssignee", () => {
+  const users = [reviewer, otherReviewer, approver, contractor];
+
+  it("leaves manual projects and projects without staff reviewers unassigned", () => {
+    expect(pickAutoAssignee(project("MANUAL", ["reviewer"]), [], users)).toBeNull();
+    expect(pickAutoAssignee(project("ROUND_ROBIN", ["contractor", "missing"]), [], users)).toBeNull();
+  });
+
+  it("takes the project's reviewers in turn", () => {
+    const roundRobin = project("ROUND_ROBIN", ["reviewer", "other"]);
+    expect(pickAutoAssignee(roundRobin, [], users)?.id).toBe("reviewer");
+
+    const records = [
+      changeOrder({ assignee: assignment("reviewer", "2026-01-02T00:00:00.000Z", SYSTEM_ACTOR) }),
+      changeOrder({ assignee: assignment("other", "2026-01-03T00:00:00.000Z", SYSTEM_ACTOR) }),
+      // Manual assignments do not move the rotation.
+      changeOrder({ assignee: assignment("other", "2026-01-04T00:00:00.000Z", "approver") }),
+    ];
+    expect(pickAutoAssignee(roundRobin, records, users)?.id).toBe("reviewer");
+    expect(pickAutoAssignee(roundRobin, records.slice(0, 1), users)?.id).toBe("other");
+  });
+
+  it("gives work to the reviewer with the fewest open items, first listed on a tie", () => {
+    const leastLoaded = project("LEAST_LOADED", ["reviewer", "other"]);
+    expect(pickAutoAssignee(leastLoaded, [], users)?.id).toBe("reviewer");
+
+    const records = [
+      changeOrder({ assignee: assignment("reviewer") }),
+      changeOrder({ assignee: assignment("reviewer") }),
+      changeOrder({ assignee: assignment("other") }),
+      // Finalized items no longer count as open.
+      changeOrder({ assignee: assignment("other"), isFinalized: true }),
+    ];
+    expect(pickAutoAssignee(leastLoaded, records, users)?.id).toBe("other");
+  });
+});
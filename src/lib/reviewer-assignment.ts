@@ -0,0 +1,88 @@
+import { actorLabel, hasPermission, isStaff, listUsers, type SessionUser } from "./auth";
+import { listChangeOrders, type StoredChangeOrder, SYSTEM_ACTOR, updateAssignment } from "./change-order-store";
+import { getProjectById, type StoredProject } from "./project-store";
+
+/** Still needs the assignee's attention: submitted and not yet finalized. */
+export function isOpenAssignment(record: StoredChangeOrder): boolean {
+  return record.status === "SUBMITTED" && !record.isFinalized && !!record.assignee;
+}
+
+/** Open items per assignee user id. */
+export function countOpenAssignments(records: StoredChangeOrder[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    if (isOpenAssignment(record) && record.assignee) {
+      counts.set(record.assignee.userId, (counts.get(record.assignee.userId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+export type AssignmentAction = "CLAIM" | "RELEASE" | "REASSIGN";
+
+/**
+ * Whether `user` may change the assignee of `record` with `action`. Anyone on staff can claim unassigned work
+ * or give up their own; moving someone else's item, including claiming it for yourself, needs a manager.
+ */
+export function canChangeAssignment(user: SessionUser, record: StoredChangeOrder, action: AssignmentAction): boolean {
+  if (!isStaff(user)) {
+    return false;
+  }
+  if (hasPermission(user, "assignment:manage")) {
+    return true;
+  }
+  const ownsItem = record.assignee?.userId === user.id;
+  return action === "CLAIM" ? !record.assignee || ownsItem : ownsItem;
+}
+
+/**
+ * The reviewer a new submission on `project` should go to under its assignment mode, or null when the
+ * project is assigned by hand or has no staff reviewers. Round robin continues after whoever got the
+ * project's latest automatic assignment; least loaded counts open items across all projects, and ties go
+ * to whoever is listed first on the project.
+ */
+export function pickAutoAssignee(
+  project: StoredProject,
+  records: StoredChangeOrder[],
+  users: SessionUser[],
+): SessionUser | null {
+  const pool = project.reviewerIds
+    .map((id) => users.find((user) => user.id === id))
+    .filter((user): user is SessionUser => !!user && isStaff(user));
+  if (project.assignmentMode === "MANUAL" || pool.length === 0) {
+    return null;
+  }
+
+  if (project.assignmentMode === "ROUND_ROBIN") {
+    const latest = records
+      .filter((record) => record.input.projectId === project.id && record.assignee?.assignedBy === SYSTEM_ACTOR)
+      .map((record) => record.assignee!)
+      .sort((a, b) => b.assignedAt.localeCompare(a.assignedAt))[0];
+    const previous = latest ? pool.findIndex((user) => user.id === latest.userId) : -1;
+    return pool[(previous + 1) % pool.length];
+  }
+
+  const load = countOpenAssignments(records);
+  return pool.reduce((best, user) => ((load.get(user.id) ?? 0) < (load.get(best.id) ?? 0) ? user : best));
+}
+
+/** Assigns a newly submitted change order per its project's mode; returns the record unchanged otherwise. */
+export async function autoAssignChangeOrder(record: StoredChangeOrder): Promise<StoredChangeOrder> {
+  if (record.assignee || record.status !== "SUBMITTED") {
+    return record;
+  }
+  const project = await getProjectById(record.input.projectId);
+  if (!project) {
+    return record;
+  }
+  const reviewer = pickAutoAssignee(project, await listChangeOrders(), await listUsers());
+  if (!reviewer) {
+    return record;
+  }
+  const result = await updateAssignment(
+    record.id,
+    { userId: reviewer.id, name: actorLabel(reviewer) },
+    { actor: SYSTEM_ACTOR, expectedAssigneeId: null },
+  );
+  return result?.changeOrder ?? record;
+}
@@ -0,0 +1,101 @@
+import { getUserById } from "./auth";
+import { getChangeOrderTotal } from "./change-order-schema";
+import { listChangeOrders, markSlaEscalated, type StoredChangeOrder } from "./change-order-store";
+import { deliverOutboxMessage, enqueueEmail } from "./email-outbox";
+import { renderEmailTemplate } from "./email-templates";
+import { startIntervalWorker } from "./interval-worker";
+import { formatMoney } from "./money";
+import { isReviewOverdue } from "./review-sla";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = Number(process.env.SLA_ESCALATION_POLL_MS || 5 * 60 * 1000);
+
+// The manager copy goes to SLA_ESCALATION_NOTIFY_TO, or the team notification address when that is unset.
+function managerRecipients(): string[] {
+  const configured = (process.env.SLA_ESCALATION_NOTIFY_TO || process.env.NEW_CO_NOTIFY_TO || "").trim();
+  return configured
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function formatUtc(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function formatOverdue(ms: number): string {
+  if (ms < HOUR_MS) {
+    return "less than an hour";
+  }
+  const hours = Math.round(ms / HOUR_MS);
+  const days = Math.floor(hours / 24);
+  const parts = [
+    ...(days > 0 ? [`${days} ${days === 1 ? "day" : "days"}`] : []),
+    ...(hours % 24 > 0 ? [`${hours % 24} ${hours % 24 === 1 ? "hour" : "hours"}`] : []),
+  ];
+  return parts.join(" ");
+}
+
+async function escalate(record: StoredChangeOrder, now: Date): Promise<StoredChangeOrder | null> {
+  const sla = record.sla;
+  if (!sla?.status || !sla.dueAt) {
+    return null;
+  }
+
+  const businessDays = sla.rules.reviewSlaCalendar === "BUSINESS_DAYS";
+  const assignee = record.assignee ? await getUserById(record.assignee.userId) : null;
+  const recipients = [...new Set([...(assignee ? [assignee.email] : []), ...managerRecipients()])];
+  const { subject, text, html } = renderEmailTemplate("escalation", {
+    projectLabel: record.input.projectId,
+    contractorName: record.input.contractorName,
+    contractorEmail: record.input.contractorEmail,
+    workPerformedAt: record.input.workPerformedAt,
+    scope: record.input.scope,
+    totalRequested: formatMoney(getChangeOrderTotal(record.input)),
+    photoCount: record.input.photos.length,
+    slaStatus: sla.status,
+    assignee: record.assignee?.name ?? "Nobody",
+    dueAt: formatUtc(sla.dueAt),
+    target: `${sla.rules.reviewSlaHours[sla.status]} ${businessDays ? "business-day " : ""}hours`,
+    overdueBy: formatOverdue(now.getTime() - new Date(sla.dueAt).getTime()),
+  });
+
+  // One message per recipient and breach; the key keeps a rerun after a crash from sending it twice.
+  for (const to of recipients) {
+    const message = await enqueueEmail({
+      kind: "SLA_ESCALATION",
+      idempotencyKey: `sla-escalation:${record.id}:${sla.dueAt}:${to}`,
+      changeOrderId: record.id,
+      to,
+      subject,
+      text,
+      html,
+    });
+    await deliverOutboxMessage(message.id);
+  }
+  return markSlaEscalated(record.id, { dueAt: sla.dueAt, notified: recipients });
+}
+
+/**
+ * Emails the assignee and a manager about each change order past its review due time, once per breach. A
+ * status change restarts the clock, so an item that breaches again in its next status is escalated again.
+ */
+export async function processSlaEscalations(now: Date = new Date()): Promise<{ overdue: number; escalated: number }> {
+  const due = (await listChangeOrders()).filter((record) => isReviewOverdue(record, now) && !record.sla?.escalatedAt);
+
+  let escalated = 0;
+  for (const record of due) {
+    if (await escalate(record, now)) {
+      escalated += 1;
+    }
+  }
+  return { overdue: due.length, escalated };
+}
+
+/** Checks for breaches in the background; started once per server process from `instrumentation.ts`. */
+export function startSlaEscalationWorker(): void {
+  if (process.env.SLA_ESCALATION_WORKER === "off") {
+    return;
+  }
+  startIntervalWorker("SLA escalation", WORKER_INTERVAL_MS, processSlaEscalations);
+}
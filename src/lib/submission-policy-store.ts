@@ -0,0 +1,59 @@
+import type { RecordMigration } from "./migrations";
+import { moneyFromLegacy } from "./money";
+import { defineRepository } from "./repository";
+import { defaultSubmissionPolicy, type SubmissionPolicy, type SubmissionPolicyRules } from "./submission-policy";
+
+const submissionPolicyMigrations: RecordMigration<SubmissionPolicy>[] = [
+  {
+    version: 1,
+    name: "amounts_to_cents",
+    // Policies saved before amounts were stored as cents may also predate the tolerance rule.
+    up: (policy) => ({
+      ...policy,
+      photosRequiredFromAmount: moneyFromLegacy(policy.photosRequiredFromAmount),
+      ...(policy.lineItemTolerance !== undefined && { lineItemTolerance: moneyFromLegacy(policy.lineItemTolerance) }),
+    }),
+  },
+];
+
+// One document per project, keyed by projectId. Projects without a document fall back to the defaults.
+const submissionPolicies = defineRepository<SubmissionPolicy>({
+  table: "project_policies",
+  migrations: submissionPolicyMigrations,
+});
+
+export async function listSubmissionPolicies(): Promise<SubmissionPolicy[]> {
+  const repository = await submissionPolicies();
+  return repository.list();
+}
+
+export async function getSubmissionPolicy(projectId: string): Promise<SubmissionPolicy> {
+  const repository = await submissionPolicies();
+  const stored = await repository.get(projectId);
+  // Layer over the defaults so rules added after a policy was saved still get a value.
+  return stored ? { ...defaultSubmissionPolicy(projectId), ...stored } : defaultSubmissionPolicy(projectId);
+}
+
+export async function saveSubmissionPolicy(
+  projectId: string,
+  rules: SubmissionPolicyRules,
+  updatedBy: string,
+): Promise<SubmissionPolicy> {
+  const repository = await submissionPolicies();
+  const next: SubmissionPolicy = {
+    ...rules,
+    id: projectId,
+    isConfigured: true,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+
+  const updated = await repository.update(projectId, () => next);
+  return updated ?? repository.insert(next);
+}
+
+/** Removes the project's policy so the defaults apply again. */
+export async function deleteSubmissionPolicy(projectId: string): Promise<boolean> {
+  const repository = await submissionPolicies();
+  return repository.delete(projectId);
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+import { approvalTierSchema } from "./approval-chain";
+import { money, nonNegativeMoneySchema, zeroMoney } from "./money";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const calendarSchema = z.enum(["CALENDAR", "BUSINESS_DAYS"]);
+const slaHoursSchema = z.coerce
+  .number()
+  .positive("SLA targets must be greater than 0 hours")
+  .max(24 * 90, "SLA targets cannot exceed 90 days");
+const reminderHoursSchema = z.coerce
+  .number()
+  .positive("Reminder and expiry times must be greater than 0 hours")
+  .max(24 * 90, "Reminder and expiry times cannot exceed 90 days");
+
+export const submissionPolicyRulesSchema = z.object({
+  name: z.string().trim().min(1, "Policy name is required"),
+  windowHours: z.coerce
+    .number()
+    .positive("Submission window must be greater than 0 hours")
+    .max(24 * 90, "Submission window cannot exceed 90 days"),
+  // BUSINESS_DAYS only counts time on weekdays that are not listed holidays (UTC dates).
+  calendar: calendarSchema.default("CALENDAR"),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Holidays must be YYYY-MM-DD dates")).default([]),
+  requirePhotos: z.boolean().default(true),
+  // Photos are only required once the requested total reaches this amount; 0 means always.
+  // Policy amounts are in the project's currency and compared by cents.
+  photosRequiredFromAmount: nonNegativeMoneySchema("Amount must be 0 or greater").default(0),
+  requireTurnKeyJustification: z.boolean().default(true),
+  requireLineItemsForMultiItem: z.boolean().default(true),
+  minLineItems: z.coerce.number().int().min(1).default(2),
+  // Largest gap allowed between a cost category's line items and its header amount.
+  lineItemTolerance: nonNegativeMoneySchema("Tolerance must be 0 or greater").default(1),
+  // Block submissions whose best duplicate match scores at or above this (0-1); null only reports matches.
+  duplicateBlockThreshold: z.coerce.number().min(0).max(1).nullable().default(null),
+  // Approvals at or above a tier's amount wait for that tier's signoff before they are final.
+  approvalTiers: z.array(approvalTierSchema).default([
+    { name: "Second approval", fromAmount: 10_000, role: "APPROVER" },
+    { name: "Director approval", fromAmount: 50_000, role: "DIRECTOR" },
+  ]),
+  // Hours the team has to move a submission out of NEW and out of IN_REVIEW; each status starts its own clock.
+  reviewSlaHours: z.object({ NEW: slaHoursSchema, IN_REVIEW: slaHoursSchema }).default({ NEW: 24, IN_REVIEW: 72 }),
+  // Contracts promise decisions in business days, so by default weekends and `holidays` pause review clocks.
+  reviewSlaCalendar: calendarSchema.default("BUSINESS_DAYS"),
+  // Contractor reminders, in wall-clock hours: for drafts, before the submission window closes; for NEEDS_INFO,
+  // after the request. Drafts expire that long after the window closed and requests after they were made;
+  // null never expires.
+  draftReminderHours: z.array(reminderHoursSchema).default([6]),
+  draftExpiryHours: reminderHoursSchema.nullable().default(24 * 7),
+  needsInfoReminderHours: z.array(reminderHoursSchema).default([72, 24 * 7]),
+  needsInfoExpiryHours: reminderHoursSchema.nullable().default(24 * 14),
+});
+
+export type SubmissionPolicyRules = z.infer<typeof submissionPolicyRulesSchema>;
+
+export type SubmissionPolicy = SubmissionPolicyRules & {
+  /** The project id the policy applies to. */
+  id: string;
+  schemaVersion?: number;
+  /** False when no policy is stored for the project and the defaults applied. */
+  isConfigured: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+export const DEFAULT_SUBMISSION_POLICY_RULES: SubmissionPolicyRules = {
+  name: "Default policy",
+  windowHours: 24,
+  calendar: "CALENDAR",
+  holidays: [],
+  requirePhotos: true,
+  photosRequiredFromAmount: zeroMoney(),
+  requireTurnKeyJustification: true,
+  requireLineItemsForMultiItem: true,
+  minLineItems: 2,
+  lineItemTolerance: money(100),
+  duplicateBlockThreshold: null,
+  approvalTiers: [
+    { name: "Second approval", fromAmount: money(1_000_000), role: "APPROVER" },
+    { name: "Director approval", fromAmount: money(5_000_000), role: "DIRECTOR" },
+  ],
+  reviewSlaHours: { NEW: 24, IN_REVIEW: 72 },
+  reviewSlaCalendar: "BUSINESS_DAYS",
+  draftReminderHours: [6],
+  draftExpiryHours: 24 * 7,
+  needsInfoReminderHours: [72, 24 * 7],
+  needsInfoExpiryHours: 24 * 14,
+};
+
+export function defaultSubmissionPolicy(projectId: string): SubmissionPolicy {
+  return { ...DEFAULT_SUBMISSION_POLICY_RULES, id: projectId, isConfigured: false };
+}
+
+function isBusinessDay(timestamp: number, holidays: string[]): boolean {
+  const date = new Date(timestamp);
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.includes(date.toISOString().slice(0, 10));
+}
+
+/** Latest time a submission counts as on time, or null when `workPerformedAt` is not a valid date. */
+export function getSubmissionDeadline(workPerformedAtIso: string, rules: SubmissionPolicyRules): Date | null {
+  const start = new Date(workPerformedAtIso).getTime();
+  if (Number.isNaN(start)) {
+    return null;
+  }
+  return addPolicyHours(start, rules.windowHours, rules.calendar, rules.holidays);
+}
+
+/** `start` plus `hours`, counting only business-day time (UTC) under BUSINESS_DAYS. */
+export function addPolicyHours(
+  start: number,
+  hours: number,
+  calendar: SubmissionPolicyRules["calendar"],
+  holidays: string[],
+): Date {
+  let remaining = hours * HOUR_MS;
+  if (calendar === "CALENDAR") {
+    return new Date(start + remaining);
+  }
+
+  // Weekends and holidays pause the clock; only business-day time counts toward the window.
+  let cursor = start;
+  while (remaining > 0) {
+    const nextMidnight = (Math.floor(cursor / DAY_MS) + 1) * DAY_MS;
+    if (isBusinessDay(cursor, holidays)) {
+      const step = Math.min(remaining, nextMidnight - cursor);
+      cursor += step;
+      remaining -= step;
+    } else {
+      cursor = nextMidnight;
+    }
+  }
+  return new Date(cursor);
+}
+
+export function describeSubmissionWindow(rules: SubmissionPolicyRules): string {
+  return rules.calendar === "BUSINESS_DAYS"
+    ? `${rules.windowHours}-hour business-day window`
+    : `${rules.windowHours}-hour window`;
+}
+
+/** Appends the policy name so contractors and reviewers can see which contract terms blocked a submission. */
+export function citePolicy(message: string, rules: SubmissionPolicyRules): string {
+  return `${message} (Policy: ${rules.name})`;
+}